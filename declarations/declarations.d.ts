@@ -26,6 +26,12 @@ declare module "*.svg" {
   export default content;
 }
 
+// Source of a Web Worker bundle, see scripts/inline_worker_loader.ts
+declare module "*?worker" {
+  const source: string;
+  export default source;
+}
+
 declare const BACKEND_HOST: string;
 
 declare module "exifr" {
@@ -36,12 +42,21 @@ declare module "exifr" {
     xmp?: boolean;
     icc?: boolean;
     tiff?: boolean;
+    ifd1?: boolean;
+    interop?: boolean;
+    jfif?: boolean;
+    ihdr?: boolean;
+    makerNote?: boolean;
+    userComment?: boolean;
+    // When false, tags are grouped by block (ifd0, exif, gps, XMP namespaces)
+    mergeOutput?: boolean;
   }
 
   interface ExifData {
     latitude?: number;
     longitude?: number;
-    DateTime?: Date | string;
+    // Tag 0x0132, called DateTime in the EXIF standard
+    ModifyDate?: Date | string;
     DateTimeOriginal?: Date | string;
     Make?: string;
     Model?: string;
@@ -56,8 +71,16 @@ declare module "exifr" {
     [key: string]: unknown;
   }
 
-  function parse(input: File | Blob | ArrayBuffer | string, options?: ParseOptions): Promise<ExifData | null>;
+  function parse(input: File | Blob | ArrayBuffer | Uint8Array | string, options?: ParseOptions): Promise<ExifData | null>;
+
+  function orientation(input: File | Blob | ArrayBuffer | Uint8Array | string): Promise<number | undefined>;
+
+  // Parses an XMP (or other sidecar) file on its own. Not on the default export
+  function sidecar(input: Uint8Array | ArrayBuffer | string, options?: ParseOptions, type?: string): Promise<Record<string, unknown> | undefined>;
+
+  // False when the browser already applies EXIF orientation in drawImage
+  const rotateCanvas: boolean;
 
-  export default { parse };
-  export { parse };
+  export default { parse, orientation, rotateCanvas };
+  export { parse, orientation, sidecar, rotateCanvas };
 }
@@ -11,7 +11,11 @@ export default {
   testRegex: "(/(tests|__tests__)/.*|(\\.|/)(tests))\\.tsx?$",
   modulePathIgnorePatterns: ["./internal/", "./node_modules/"],
   modulePaths: [compilerOptions.baseUrl],
-  moduleNameMapper: pathsToModuleNameMapper(compilerOptions.paths || {}),
+  moduleNameMapper: {
+    ...pathsToModuleNameMapper(compilerOptions.paths || {}),
+    // Workers are bundled by webpack; tests load their modules directly
+    "^(.+)\\?worker$": "$1",
+  },
   transform: {
     ".+\\.(css)$": "jest-css-modules-transform",
     "^.+\\.tsx?$": [
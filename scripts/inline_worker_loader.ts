@@ -0,0 +1,63 @@
+import path from "path";
+import type { LoaderContext } from "webpack";
+import { EntryPlugin, optimize, webworker } from "webpack";
+
+/**
+ * Bundles the imported module, with everything it imports, as a Web Worker
+ * and exports the bundle's source as a string, e.g.
+ * `import source from "./worker_main?worker"`. Apps can only submit a single
+ * JS file, so workers cannot be emitted as files of their own; the app starts
+ * them from a Blob URL instead.
+ */
+export function pitch(this: LoaderContext<Record<string, never>>) {
+  const callback = this.async();
+  const compilation = this._compilation;
+  if (!compilation) {
+    callback(new Error("Workers can only be bundled by webpack"));
+    return;
+  }
+
+  const name = `worker-${path.parse(this.resourcePath).name}`;
+  // Code shared with the worker imports the worker too. A worker never
+  // starts another, so inside its own bundle the source is left empty
+  // rather than bundled again, endlessly
+  if (this._compiler?.name === name) {
+    callback(null, `export default "";`);
+    return;
+  }
+
+  const childCompiler = compilation.createChildCompiler(
+    name,
+    { filename: "[name].js" },
+    [
+      new webworker.WebWorkerTemplatePlugin(),
+      new EntryPlugin(this.context, this.resourcePath, { name }),
+      new optimize.LimitChunkCountPlugin({ maxChunks: 1 }),
+    ],
+  );
+
+  childCompiler.runAsChild((error, chunks, childCompilation) => {
+    if (error || !chunks || !childCompilation) {
+      callback(error ?? new Error(`Failed to bundle ${this.resourcePath}`));
+      return;
+    }
+    if (childCompilation.errors.length > 0) {
+      callback(childCompilation.errors[0]);
+      return;
+    }
+
+    const files = chunks.flatMap((chunk) => [...chunk.files]);
+    const source = files
+      .map((file) => childCompilation.getAsset(file)?.source.source() ?? "")
+      .join("\n");
+    // The child's files are copied into the app's output, which must stay a
+    // single file
+    for (const { name: asset } of childCompilation.getAssets()) {
+      compilation.deleteAsset(asset);
+    }
+    for (const file of childCompilation.fileDependencies) {
+      this.addDependency(file);
+    }
+    callback(null, `export default ${JSON.stringify(String(source))};`);
+  });
+}
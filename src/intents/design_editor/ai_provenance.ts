@@ -0,0 +1,208 @@
+import type { AiDisclosure } from "@canva/asset";
+import type { ContentCredentials, EmbeddedText } from "./cleaners";
+import { describeContentCredentials, readEmbeddedText } from "./cleaners";
+import type { MetadataInfo } from "./metadata";
+
+// Where a sign of AI generation was found
+export type AiSignalSource =
+  | "parameters"
+  | "digitalSourceType"
+  | "software"
+  | "contentCredentials";
+
+export interface AiSignal {
+  source: AiSignalSource;
+  // Generator, IPTC source type or tool the signal names, when it names one
+  detail: string | null;
+  // Prompt stored alongside, which can itself be sensitive
+  prompt: string | null;
+}
+
+export interface AiEvidence {
+  metadata: MetadataInfo;
+  embeddedText: readonly EmbeddedText[];
+  contentCredentials?: ContentCredentials | null;
+}
+
+// PNG text keywords written by image generators, e.g. "parameters" by
+// Stable Diffusion web UIs and "prompt" and "workflow" by ComfyUI
+const GENERATOR_KEYWORDS: Record<string, string> = {
+  parameters: "Stable Diffusion web UI",
+  prompt: "ComfyUI",
+  workflow: "ComfyUI",
+  Dream: "InvokeAI",
+  "sd-metadata": "InvokeAI",
+  invokeai_metadata: "InvokeAI",
+};
+
+// Tags that name the software that made or last saved an image
+const SOFTWARE_TAGS = ["Software", "CreatorTool", "Credit"];
+
+const AI_SOFTWARE =
+  /\b(?:DALL[·\-. ]?E|Firefly|Midjourney|Stable ?Diffusion|NovelAI|Imagen|ChatGPT|OpenAI)\b/i;
+
+// IPTC digital source types for generative AI media, including composites
+// that contain it
+const AI_SOURCE_TYPE = /trainedAlgorithmicMedia$/i;
+
+// Stable Diffusion web UIs write the prompt, then the negative prompt and a
+// settings line starting with "Steps:"
+const SETTINGS_START = /\n(?:Negative prompt:|Steps: \d)/;
+
+// Midjourney stores the prompt in a PNG Description chunk ending in the job ID
+const MIDJOURNEY_JOB = /\s*Job ID: [0-9a-f-]{36}\s*$/i;
+
+function readParametersPrompt(text: string): string | null {
+  return text.split(SETTINGS_START)[0]?.trim() || null;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * ComfyUI stores its node graph as JSON. The first text encoder node holds
+ * the positive prompt.
+ */
+function readComfyPrompt(text: string): string | null {
+  const graph = parseJson(text) as Record<
+    string,
+    { class_type?: unknown; inputs?: { text?: unknown } } | null
+  > | null;
+  if (typeof graph !== "object" || graph == null) return null;
+  for (const node of Object.values(graph)) {
+    const prompt = node?.class_type === "CLIPTextEncode" && node.inputs?.text;
+    if (typeof prompt === "string" && prompt.trim()) return prompt.trim();
+  }
+  return null;
+}
+
+function readInvokePrompt(text: string): string | null {
+  const metadata = parseJson(text) as Record<string, unknown> | null;
+  const prompt = metadata?.positive_prompt ?? metadata?.prompt;
+  return typeof prompt === "string" && prompt.trim() ? prompt.trim() : null;
+}
+
+// How to read the prompt out of each generator text chunk
+const PROMPT_READERS: Record<string, (text: string) => string | null> = {
+  parameters: readParametersPrompt,
+  prompt: readComfyPrompt,
+  // The prompt is quoted ahead of the command-line options
+  Dream: (text) => /"([^"]+)"/.exec(text)?.[1] ?? null,
+  "sd-metadata": readInvokePrompt,
+  invokeai_metadata: readInvokePrompt,
+};
+
+function readTextSignals(embeddedText: readonly EmbeddedText[]): AiSignal[] {
+  return embeddedText.flatMap(({ keyword, text }): AiSignal[] => {
+    const generator = GENERATOR_KEYWORDS[keyword];
+    if (generator) {
+      return [
+        {
+          source: "parameters",
+          detail: generator,
+          prompt: PROMPT_READERS[keyword]?.(text) ?? null,
+        },
+      ];
+    }
+    if (keyword === "Description" && MIDJOURNEY_JOB.test(text)) {
+      return [
+        {
+          source: "parameters",
+          detail: "Midjourney",
+          prompt: text.replace(MIDJOURNEY_JOB, "").trim() || null,
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+function readTagSignals({ tags = [] }: MetadataInfo): AiSignal[] {
+  return tags.flatMap(({ key, value }): AiSignal[] => {
+    // Stable Diffusion web UIs store the parameters of JPEG and WebP output
+    // in the EXIF user comment
+    if (key === "UserComment" && /\nSteps: \d+, Sampler: /.test(value)) {
+      return [
+        {
+          source: "parameters",
+          detail: GENERATOR_KEYWORDS.parameters ?? null,
+          prompt: readParametersPrompt(value),
+        },
+      ];
+    }
+    if (key === "DigitalSourceType" && AI_SOURCE_TYPE.test(value)) {
+      return [
+        {
+          source: "digitalSourceType",
+          detail: value.split("/").pop() ?? value,
+          prompt: null,
+        },
+      ];
+    }
+    if (SOFTWARE_TAGS.includes(key) && AI_SOFTWARE.test(value)) {
+      return [{ source: "software", detail: value, prompt: null }];
+    }
+    return [];
+  });
+}
+
+/**
+ * Collects the signs that an image was made with generative AI: generator
+ * parameters in text chunks or the EXIF user comment, the IPTC digital
+ * source type, AI tools named as the software, and Content Credentials that
+ * declare an AI source. The same generator found in several places is
+ * listed once, with its prompt where one was found.
+ */
+export function detectAiSignals({
+  metadata,
+  embeddedText,
+  contentCredentials,
+}: AiEvidence): AiSignal[] {
+  const signals = [
+    ...readTextSignals(embeddedText),
+    ...readTagSignals(metadata),
+  ];
+  if (contentCredentials?.aiGenerated) {
+    signals.push({
+      source: "contentCredentials",
+      detail: contentCredentials.claimGenerator,
+      prompt: null,
+    });
+  }
+
+  // ComfyUI, for one, writes both a prompt and a workflow chunk
+  const unique = new Map<string, AiSignal>();
+  for (const signal of signals) {
+    const key = `${signal.source}:${signal.detail}`;
+    if (!unique.get(key)?.prompt) unique.set(key, signal);
+  }
+  return [...unique.values()];
+}
+
+/**
+ * Reads the file's text chunks and Content Credentials, which exifr does not
+ * report, and collects its AI generation signals.
+ */
+export async function readAiSignals(
+  file: Blob,
+  metadata: MetadataInfo,
+): Promise<AiSignal[]> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return detectAiSignals({
+    metadata,
+    embeddedText: await readEmbeddedText(bytes),
+    contentCredentials: describeContentCredentials(bytes),
+  });
+}
+
+/**
+ * The disclosure Canva should receive for an image with these signals.
+ */
+export function getAiDisclosure(signals: readonly AiSignal[]): AiDisclosure {
+  return signals.length > 0 ? "app_generated" : "none";
+}
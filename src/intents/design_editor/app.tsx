@@ -7,252 +7,378 @@ import {
   Title,
   Alert,
   LoadingIndicator,
-  Columns,
-  Column,
   ImageCard,
+  FormField,
+  ProgressBar,
+  Select,
 } from "@canva/app-ui-kit";
 import { useFeatureSupport } from "@canva/app-hooks";
-import { upload } from "@canva/asset";
-import type { ImageDragConfig } from "@canva/design";
+import type { AiDisclosure } from "@canva/asset";
 import { addElementAtCursor, addElementAtPoint, ui } from "@canva/design";
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { FormattedMessage, useIntl } from "react-intl";
-import exifr from "exifr";
 import * as styles from "styles/components.css";
-
-interface MetadataInfo {
-  // GPS
-  latitude?: number;
-  longitude?: number;
-  // Date/Time
-  dateTime?: string;
-  dateTimeOriginal?: string;
-  // Camera
-  make?: string;
-  model?: string;
-  software?: string;
-  // Image
-  imageWidth?: number;
-  imageHeight?: number;
-  orientation?: number;
-  // Other
-  artist?: string;
-  copyright?: string;
-  // Raw data for display
-  raw?: Record<string, unknown>;
-}
+import type { AiSignal } from "./ai_provenance";
+import { getAiDisclosure, readAiSignals } from "./ai_provenance";
+import type {
+  ColorProfileMode,
+  ColorProfileOutcome,
+  ContentCredentials,
+  ContentCredentialsMode,
+  ContentCredentialsOutcome,
+  IccProfileInfo,
+  OutputSettings,
+  SizeFit,
+  TiffPage,
+} from "./cleaners";
+import {
+  DEFAULT_OUTPUT_SETTINGS,
+  getColorProfile,
+  getContentCredentials,
+  getTiffPageFile,
+  getTiffPages,
+  isValidOrientation,
+  renderTiffPage,
+} from "./cleaners";
+import type { CleanedImage, CleanFileStage } from "./cleaning";
+import { cleanFile } from "./cleaning";
+import { getImageDragConfig, uploadCleanedImage } from "./assets";
+import {
+  AiDisclosurePicker,
+  AiProvenancePanel,
+} from "./components/ai_provenance";
+import { BatchCleaner } from "./components/batch_cleaner";
+import { ColorProfilePicker } from "./components/color_profile_picker";
+import {
+  ContentCredentialsPicker,
+  ContentCredentialsSummary,
+} from "./components/content_credentials";
+import { DesignAudit } from "./components/design_audit";
+import { useFieldLabels } from "./components/field_labels";
+import {
+  GeneralisedValues,
+  GeneralisePicker,
+} from "./components/generalise_picker";
+import { formatBytes, MetadataDiffView } from "./components/metadata_diff";
+import { MetadataInspector } from "./components/metadata_inspector";
+import { MetadataRow } from "./components/metadata_row";
+import { OutputSettingsPicker } from "./components/output_settings";
+import { PreviewComparison } from "./components/preview_comparison";
+import { RedactionEditor } from "./components/redaction_editor";
+import { RemovalProfilePicker } from "./components/removal_profile_picker";
+import { ReportPanel } from "./components/report_panel";
+import { RightsForm, useRightsLabels } from "./components/rights_form";
+import { RiskSummary } from "./components/risk_summary";
+import { SelectionCleaner } from "./components/selection_cleaner";
+import { VerificationPanel } from "./components/verification_panel";
+import type { MetadataDiff } from "./diff";
+import { createMetadataDiff } from "./diff";
+import type { GeneralisedValue, GeneraliseSettings } from "./generalise";
+import { NO_GENERALISATION } from "./generalise";
+import type { MetadataInfo } from "./metadata";
+import { readMetadata } from "./metadata";
+import type { PreviewCheck } from "./previews";
+import { checkEmbeddedPreviews } from "./previews";
+import type { RedactionHistory } from "./redactions";
+import { EMPTY_REDACTION_HISTORY } from "./redactions";
+import type { MetadataField, RemovalProfile } from "./profiles";
+import { getPresentFields, PROFILE_KEPT_FIELDS } from "./profiles";
+import type { CleanReport } from "./report";
+import { createCleanReport } from "./report";
+import type { RightsInfo } from "./rights";
+import { EMPTY_RIGHTS, RIGHTS_FIELDS } from "./rights";
+import { getMetadataRisks, isFieldAtRisk } from "./risks";
+import type { VerificationReport } from "./verification";
 
 type ProcessingState = "idle" | "reading" | "cleaning" | "done";
 
+// Progress shown once each cleaning stage has started
+const CLEAN_STAGE_PROGRESS: Record<CleanFileStage, number> = {
+  stripping: 10,
+  redrawing: 40,
+  finishing: 70,
+  fitting: 75,
+  verifying: 85,
+};
+
 export const App = () => {
   const intl = useIntl();
   const isSupported = useFeatureSupport();
+  const fieldLabels = useFieldLabels();
+  const rightsLabels = useRightsLabels();
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [metadata, setMetadata] = useState<MetadataInfo | null>(null);
+  const [tiffPages, setTiffPages] = useState<TiffPage[]>([]);
+  const [selectedPage, setSelectedPage] = useState(0);
+  const [colorProfile, setColorProfile] = useState<IccProfileInfo | null>(null);
+  const [colorProfileMode, setColorProfileMode] =
+    useState<ColorProfileMode>("convert");
+  const [contentCredentials, setContentCredentials] =
+    useState<ContentCredentials | null>(null);
+  const [contentCredentialsMode, setContentCredentialsMode] =
+    useState<ContentCredentialsMode>("remove");
   const [processingState, setProcessingState] =
     useState<ProcessingState>("idle");
+  const [cleanStage, setCleanStage] = useState<CleanFileStage>("stripping");
   const [error, setError] = useState<string | null>(null);
-  const [cleanedImageUrl, setCleanedImageUrl] = useState<string | null>(null);
-  const [cleanedImageSize, setCleanedImageSize] = useState<{
-    width: number;
-    height: number;
+  const [cleanedImage, setCleanedImage] = useState<CleanedImage | null>(null);
+  const [removalProfile, setRemovalProfile] =
+    useState<RemovalProfile>("stripAll");
+  const [customKeptFields, setCustomKeptFields] = useState<MetadataField[]>([]);
+  const [fieldSummary, setFieldSummary] = useState<{
+    kept: MetadataField[];
+    removed: MetadataField[];
+    generalised: GeneralisedValue[];
+  } | null>(null);
+  const [colorProfileOutcome, setColorProfileOutcome] =
+    useState<ColorProfileOutcome | null>(null);
+  const [contentCredentialsOutcome, setContentCredentialsOutcome] =
+    useState<ContentCredentialsOutcome | null>(null);
+  const [verification, setVerification] = useState<VerificationReport | null>(
+    null,
+  );
+  const [rights, setRights] = useState<RightsInfo>(EMPTY_RIGHTS);
+  const [stampedRights, setStampedRights] = useState<RightsInfo | null>(null);
+  const [report, setReport] = useState<CleanReport | null>(null);
+  const [metadataDiff, setMetadataDiff] = useState<MetadataDiff | null>(null);
+  const [previewChecks, setPreviewChecks] = useState<PreviewCheck[]>([]);
+  const [aiSignals, setAiSignals] = useState<AiSignal[]>([]);
+  const [aiDisclosure, setAiDisclosure] = useState<AiDisclosure>("none");
+  const [redactionHistory, setRedactionHistory] = useState<RedactionHistory>(
+    EMPTY_REDACTION_HISTORY,
+  );
+  const [generaliseSettings, setGeneraliseSettings] =
+    useState<GeneraliseSettings>(NO_GENERALISATION);
+  const [outputSettings, setOutputSettings] = useState<OutputSettings>(
+    DEFAULT_OUTPUT_SETTINGS,
+  );
+  // How the cleaned file met the target size, with its size and the target
+  const [sizeFit, setSizeFit] = useState<{
+    fit: SizeFit;
+    size: number;
+    target: number;
   } | null>(null);
 
-  const hasPrivacyRisks =
-    metadata &&
-    (metadata.latitude !== undefined ||
-      metadata.longitude !== undefined ||
-      metadata.make !== undefined ||
-      metadata.model !== undefined ||
-      metadata.artist !== undefined ||
-      metadata.dateTimeOriginal !== undefined);
+  const keptFields =
+    removalProfile === "custom"
+      ? customKeptFields
+      : PROFILE_KEPT_FIELDS[removalProfile];
+  const presentFields = metadata ? getPresentFields(metadata) : [];
+  const risks = metadata ? getMetadataRisks(metadata) : [];
+  // Rotating or redacting re-encodes the image whatever the output settings
+  const redrawn =
+    redactionHistory.present.length > 0 ||
+    (isValidOrientation(metadata?.orientation) && metadata?.orientation !== 1);
 
-  const handleFileSelect = useCallback(async (files: File[]) => {
-    const file = files[0];
-    if (!file) return;
+  // Previews, including the embedded ones, are object URLs, so release each
+  // one once it is replaced
+  useEffect(
+    () => () => {
+      if (imagePreview) URL.revokeObjectURL(imagePreview);
+    },
+    [imagePreview],
+  );
+  useEffect(
+    () => () => previewChecks.forEach(({ url }) => URL.revokeObjectURL(url)),
+    [previewChecks],
+  );
 
-    // Reset state
-    setError(null);
-    setCleanedImageUrl(null);
-    setMetadata(null);
-    setSelectedFile(file);
-    setProcessingState("reading");
+  const handleFileSelect = useCallback(
+    async (files: File[]) => {
+      // Several files at once are cleaned as a batch
+      if (files.length > 1) {
+        setBatchFiles(files);
+        return;
+      }
+      const file = files[0];
+      if (!file) return;
 
-    // Create preview
-    const previewUrl = URL.createObjectURL(file);
-    setImagePreview(previewUrl);
+      // Reset state
+      setError(null);
+      setCleanedImage(null);
+      setMetadata(null);
+      setPreviewChecks([]);
+      setAiSignals([]);
+      setRedactionHistory(EMPTY_REDACTION_HISTORY);
+      setColorProfile(null);
+      setContentCredentials(null);
+      setSelectedFile(file);
+      setSelectedPage(0);
+      setProcessingState("reading");
 
-    try {
-      // Read metadata using exifr
-      const exifData = await exifr.parse(file, {
-        gps: true,
-        exif: true,
-        iptc: true,
-        xmp: true,
-        icc: false,
-        tiff: true,
-      });
+      // Create preview
+      const previewUrl = URL.createObjectURL(file);
+      setImagePreview(previewUrl);
 
-      if (exifData) {
-        const parsedMetadata: MetadataInfo = {
-          // GPS
-          latitude: exifData.latitude,
-          longitude: exifData.longitude,
-          // Date/Time
-          dateTime: exifData.DateTime?.toString(),
-          dateTimeOriginal: exifData.DateTimeOriginal?.toString(),
-          // Camera
-          make: exifData.Make,
-          model: exifData.Model,
-          software: exifData.Software,
-          // Image
-          imageWidth: exifData.ImageWidth || exifData.ExifImageWidth,
-          imageHeight: exifData.ImageHeight || exifData.ExifImageHeight,
-          orientation: exifData.Orientation,
-          // Other
-          artist: exifData.Artist,
-          copyright: exifData.Copyright,
-          // Raw
-          raw: exifData,
-        };
-        setMetadata(parsedMetadata);
-      } else {
-        setMetadata({});
-      }
-    } catch {
-      setMetadata({});
-    }
+      try {
+        // Browsers can't display TIFF, so preview a decoded rendering of page 1
+        const pages = await getTiffPages(file);
+        setTiffPages(pages);
+        if (pages.length > 0) {
+          try {
+            setImagePreview(URL.createObjectURL(await renderTiffPage(file, 0)));
+          } catch {
+            // Keep the original file as the preview
+          }
+        }
 
-    setProcessingState("idle");
-  }, []);
+        // exifr cannot read PNG or WebP profiles in the browser, so the
+        // cleaners read the ICC profile themselves
+        setColorProfile(await getColorProfile(file));
+        setContentCredentials(await getContentCredentials(file));
+
+        const fileMetadata = await readMetadata(file);
+        setMetadata(fileMetadata);
+        // Cleaning strips these signals, so the disclosure is settled up front
+        const signals = await readAiSignals(file, fileMetadata);
+        setAiSignals(signals);
+        setAiDisclosure(getAiDisclosure(signals));
+        setPreviewChecks(
+          await checkEmbeddedPreviews(file, fileMetadata.orientation),
+        );
+        setProcessingState("idle");
+      } catch {
+        setError(
+          intl.formatMessage({
+            defaultMessage: "Failed to read the image. Please try again.",
+            description: "Error message when a selected file cannot be read",
+          }),
+        );
+        setProcessingState("idle");
+      }
+    },
+    [intl],
+  );
 
   const handleCleanMetadata = useCallback(async () => {
     if (!selectedFile) return;
 
     setProcessingState("cleaning");
+    setCleanStage("stripping");
     setError(null);
 
     try {
-      // Create a canvas to re-encode the image (strips metadata)
-      const img = new Image();
-      const loadPromise = new Promise<void>((resolve, reject) => {
-        img.onload = () => resolve();
-        img.onerror = () =>
-          reject(
-            new Error(
-              intl.formatMessage({
-                defaultMessage: "Failed to load image",
-                description: "Error message when image fails to load",
-              })
-            )
-          );
-      });
-
-      img.src = URL.createObjectURL(selectedFile);
-      await loadPromise;
-
-      // Create canvas and draw image
-      const canvas = document.createElement("canvas");
-      canvas.width = img.naturalWidth;
-      canvas.height = img.naturalHeight;
-
-      const ctx = canvas.getContext("2d");
-      if (!ctx) {
-        throw new Error(
-          intl.formatMessage({
-            defaultMessage: "Failed to get canvas context",
-            description: "Error message when canvas context fails",
-          })
-        );
-      }
-
-      ctx.drawImage(img, 0, 0);
-
-      // Convert to blob (this strips all metadata)
-      const cleanedBlob = await new Promise<Blob>((resolve, reject) => {
-        canvas.toBlob(
-          (blob) => {
-            if (blob) {
-              resolve(blob);
-            } else {
-              reject(
-                new Error(
-                  intl.formatMessage({
-                    defaultMessage: "Failed to create cleaned image",
-                    description: "Error message when image cleaning fails",
-                  })
-                )
-              );
-            }
-          },
-          selectedFile.type === "image/png" ? "image/png" : "image/jpeg",
-          0.95
-        );
+      const cleaned = await cleanFile(selectedFile, metadata ?? {}, {
+        keptFields,
+        colorProfile: colorProfileMode,
+        contentCredentials: contentCredentialsMode,
+        tiffPage: selectedPage,
+        rights,
+        aiDisclosure,
+        redactions: redactionHistory.present,
+        generalise: generaliseSettings,
+        output: outputSettings,
+        onProgress: setCleanStage,
       });
-
-      // Convert blob to data URL for upload and draggable preview
-      const dataUrl = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          if (typeof reader.result === "string") {
-            resolve(reader.result);
-          } else {
-            reject(
-              new Error(
-                intl.formatMessage({
-                  defaultMessage: "Failed to read image data",
-                  description: "Error when converting image fails",
-                })
-              )
-            );
-          }
-        };
-        reader.onerror = () => reject(reader.error);
-        reader.readAsDataURL(cleanedBlob);
-      });
-
-      // Store the cleaned image data URL and dimensions
-      setCleanedImageUrl(dataUrl);
-      setCleanedImageSize({
-        width: img.naturalWidth,
-        height: img.naturalHeight,
+      setCleanedImage(cleaned.image);
+      setFieldSummary({
+        kept: cleaned.kept,
+        removed: cleaned.removed,
+        generalised: cleaned.generalised,
       });
+      setColorProfileOutcome(cleaned.colorProfile);
+      setContentCredentialsOutcome(cleaned.contentCredentials);
+      setSizeFit(
+        cleaned.sizeFit && outputSettings.targetSize != null
+          ? {
+              fit: cleaned.sizeFit,
+              size: cleaned.blob.size,
+              target: outputSettings.targetSize,
+            }
+          : null,
+      );
+      setVerification(cleaned.verification);
+      setStampedRights(cleaned.rights);
+      setReport(await createCleanReport(selectedFile, metadata ?? {}, cleaned));
+      setMetadataDiff(
+        await createMetadataDiff(selectedFile, cleaned.blob, selectedPage),
+      );
       setProcessingState("done");
     } catch {
       setError(
         intl.formatMessage({
           defaultMessage: "Failed to clean metadata. Please try again.",
           description: "Generic error message for cleaning failure",
-        })
+        }),
       );
       setProcessingState("idle");
     }
-  }, [selectedFile, intl]);
+  }, [
+    selectedFile,
+    selectedPage,
+    metadata,
+    keptFields,
+    colorProfileMode,
+    contentCredentialsMode,
+    rights,
+    aiDisclosure,
+    redactionHistory,
+    generaliseSettings,
+    outputSettings,
+    intl,
+  ]);
+
+  const handlePageChange = useCallback(
+    async (page: number) => {
+      if (!selectedFile) return;
+      setSelectedPage(page);
+      // The cleaned image, redactions and metadata belong to the previous page
+      setError(null);
+      setCleanedImage(null);
+      setMetadata(null);
+      setPreviewChecks([]);
+      setAiSignals([]);
+      setRedactionHistory(EMPTY_REDACTION_HISTORY);
+      setProcessingState("reading");
+
+      try {
+        setColorProfile(await getColorProfile(selectedFile, page));
+        try {
+          setImagePreview(
+            URL.createObjectURL(await renderTiffPage(selectedFile, page)),
+          );
+        } catch {
+          setImagePreview(null);
+        }
+
+        // Each page has its own tags, so read them from that page
+        const pageFile = await getTiffPageFile(selectedFile, page);
+        const pageMetadata = await readMetadata(pageFile);
+        setMetadata(pageMetadata);
+        const signals = await readAiSignals(pageFile, pageMetadata);
+        setAiSignals(signals);
+        setAiDisclosure(getAiDisclosure(signals));
+        setPreviewChecks(
+          await checkEmbeddedPreviews(pageFile, pageMetadata.orientation),
+        );
+        setProcessingState("idle");
+      } catch {
+        setError(
+          intl.formatMessage({
+            defaultMessage: "Failed to read this page. Please try again.",
+            description:
+              "Error message when a page of a multi-page TIFF cannot be read",
+          }),
+        );
+        setProcessingState("idle");
+      }
+    },
+    [selectedFile, intl],
+  );
 
   // Determine which addElement method is supported
   const addElement = [addElementAtPoint, addElementAtCursor].find((fn) =>
-    isSupported(fn)
+    isSupported(fn),
   );
 
   // Handle click to add image (accessibility fallback and for design types that don't support drag)
   const handleClick = useCallback(async () => {
-    if (!cleanedImageUrl || !selectedFile || !addElement || !cleanedImageSize)
-      return;
-
-    const mimeType =
-      selectedFile.type === "image/png" ? "image/png" : "image/jpeg";
+    if (!cleanedImage || !addElement) return;
 
     try {
-      const asset = await upload({
-        type: "image",
-        mimeType,
-        url: cleanedImageUrl,
-        thumbnailUrl: cleanedImageUrl,
-        aiDisclosure: "none",
-        width: cleanedImageSize.width,
-        height: cleanedImageSize.height,
-      });
+      const asset = await uploadCleanedImage(cleanedImage);
 
       await addElement({
         type: "image",
@@ -268,49 +394,36 @@ export const App = () => {
     } catch {
       setError(
         intl.formatMessage({
-          defaultMessage:
-            "Failed to add image to design. Please try again.",
+          defaultMessage: "Failed to add image to design. Please try again.",
           description: "Error message when adding image fails",
-        })
+        }),
       );
     }
-  }, [cleanedImageUrl, selectedFile, addElement, cleanedImageSize, intl]);
+  }, [cleanedImage, addElement, intl]);
+
+  // Adds the cleaning report as a text element, the same way as the image
+  const handleAddReport = useCallback(
+    async (text: string) => {
+      if (!addElement) return;
+      try {
+        await addElement({ type: "text", children: [text] });
+      } catch {
+        setError(
+          intl.formatMessage({
+            defaultMessage: "Failed to add the report to your design.",
+            description: "Error message when adding the cleaning report fails",
+          }),
+        );
+      }
+    },
+    [addElement, intl],
+  );
 
   const handleDragStart = useCallback(
     (event: React.DragEvent<HTMLElement>) => {
-      if (!cleanedImageUrl || !selectedFile || !cleanedImageSize) return;
-
-      const mimeType =
-        selectedFile.type === "image/png" ? "image/png" : "image/jpeg";
-
-      // Create an upload function that will be called when the drag ends
-      const uploadCleanedImage = async () => {
-        const asset = await upload({
-          type: "image",
-          mimeType,
-          url: cleanedImageUrl,
-          thumbnailUrl: cleanedImageUrl,
-          aiDisclosure: "none",
-          width: cleanedImageSize.width,
-          height: cleanedImageSize.height,
-        });
-        // Return object with ref property as required by the API
-        return { ref: asset.ref };
-      };
-
-      const dragData: ImageDragConfig = {
-        type: "image",
-        resolveImageRef: uploadCleanedImage,
-        previewUrl: cleanedImageUrl,
-        previewSize: {
-          width: 100,
-          height: 100,
-        },
-        fullSize: {
-          width: cleanedImageSize.width,
-          height: cleanedImageSize.height,
-        },
-      };
+      if (!cleanedImage) return;
+
+      const dragData = getImageDragConfig(cleanedImage);
 
       // Use feature detection to support different Canva Editor contexts
       // startDragToPoint: for fixed designs (presentations, social media, etc.)
@@ -321,15 +434,30 @@ export const App = () => {
         ui.startDragToCursor(event, dragData);
       }
     },
-    [cleanedImageUrl, selectedFile, cleanedImageSize, isSupported]
+    [cleanedImage, isSupported],
   );
 
   const handleReset = useCallback(() => {
+    setBatchFiles(null);
     setSelectedFile(null);
     setImagePreview(null);
     setMetadata(null);
-    setCleanedImageUrl(null);
-    setCleanedImageSize(null);
+    setPreviewChecks([]);
+    setAiSignals([]);
+    setRedactionHistory(EMPTY_REDACTION_HISTORY);
+    setTiffPages([]);
+    setSelectedPage(0);
+    setColorProfile(null);
+    setContentCredentials(null);
+    setCleanedImage(null);
+    setFieldSummary(null);
+    setColorProfileOutcome(null);
+    setContentCredentialsOutcome(null);
+    setSizeFit(null);
+    setVerification(null);
+    setStampedRights(null);
+    setReport(null);
+    setMetadataDiff(null);
     setProcessingState("idle");
     setError(null);
   }, []);
@@ -355,33 +483,62 @@ export const App = () => {
 
         {error && <Alert tone="critical">{error}</Alert>}
 
-        {!selectedFile ? (
-          <FileInput
-            accept={["image/jpeg", "image/png", "image/webp", "image/tiff"]}
-            onDropAcceptedFiles={handleFileSelect}
-            stretchButton
-          />
+        {batchFiles ? (
+          <BatchCleaner files={batchFiles} onReset={handleReset} />
+        ) : !selectedFile ? (
+          <Rows spacing="2u">
+            <FileInput
+              accept={["image/jpeg", "image/png", "image/webp", "image/tiff"]}
+              onDropAcceptedFiles={handleFileSelect}
+              multiple
+              stretchButton
+            />
+            <SelectionCleaner />
+            <DesignAudit />
+          </Rows>
         ) : (
           <Rows spacing="2u">
-            {/* Image Preview */}
+            {/* Image Preview, with any previews embedded in the file */}
             {imagePreview && (
-              <Box background="neutralLow" borderRadius="standard" padding="1u">
-                {/* Using img tag for preview as ImageCard is for different purpose */}
-                {/* eslint-disable-next-line react/forbid-elements */}
-                <img
-                  src={imagePreview}
-                  alt={intl.formatMessage({
-                    defaultMessage: "Preview",
-                    description: "Alt text for image preview",
-                  })}
-                  style={{
-                    width: "100%",
-                    maxHeight: "150px",
-                    objectFit: "contain",
-                    borderRadius: "4px",
-                  }}
-                />
-              </Box>
+              <PreviewComparison
+                imageUrl={imagePreview}
+                previews={previewChecks}
+              />
+            )}
+
+            {/* Page picker for multi-page TIFF files */}
+            {tiffPages.length > 1 && (
+              <FormField
+                label={intl.formatMessage({
+                  defaultMessage: "Page to clean",
+                  description: "Label for the multi-page TIFF page picker",
+                })}
+                value={selectedPage}
+                control={(props) => (
+                  <Select
+                    {...props}
+                    options={tiffPages.map((page) => ({
+                      value: page.index,
+                      label: intl.formatMessage(
+                        {
+                          defaultMessage:
+                            "Page {pageNumber} ({width} x {height})",
+                          description:
+                            "Option in the TIFF page picker showing page number and dimensions",
+                        },
+                        {
+                          pageNumber: page.index + 1,
+                          width: page.width,
+                          height: page.height,
+                        },
+                      ),
+                    }))}
+                    onChange={handlePageChange}
+                    disabled={processingState !== "idle"}
+                    stretch
+                  />
+                )}
+              />
             )}
 
             {/* File Info */}
@@ -421,17 +578,13 @@ export const App = () => {
                   />
                 </Title>
 
-                {hasPrivacyRisks && (
-                  <Alert tone="warn">
-                    <FormattedMessage
-                      defaultMessage="Privacy risks detected! This image contains personal data."
-                      description="Warning about privacy risks"
-                    />
-                  </Alert>
-                )}
+                <RiskSummary findings={risks} />
 
-                {Object.keys(metadata).length === 0 ||
-                (Object.keys(metadata).length === 1 && metadata.raw) ? (
+                {!colorProfile &&
+                !contentCredentials &&
+                aiSignals.length === 0 &&
+                (Object.keys(metadata).length === 0 ||
+                  (Object.keys(metadata).length === 1 && metadata.raw)) ? (
                   <Alert tone="positive">
                     <FormattedMessage
                       defaultMessage="No metadata found in this image."
@@ -447,73 +600,61 @@ export const App = () => {
                     <Rows spacing="0.5u">
                       {formatGPS(metadata.latitude, metadata.longitude) && (
                         <MetadataRow
-                          label={intl.formatMessage({
-                            defaultMessage: "GPS location",
-                            description: "Label for GPS coordinates",
-                          })}
+                          label={fieldLabels.gps}
                           value={
                             formatGPS(metadata.latitude, metadata.longitude) ||
                             ""
                           }
-                          isRisk
+                          isRisk={isFieldAtRisk("gps", risks)}
                         />
                       )}
                       {metadata.dateTimeOriginal && (
                         <MetadataRow
-                          label={intl.formatMessage({
-                            defaultMessage: "Date taken",
-                            description: "Label for date taken",
-                          })}
+                          label={fieldLabels.dateTimeOriginal}
                           value={metadata.dateTimeOriginal}
-                          isRisk
+                          isRisk={isFieldAtRisk("dateTimeOriginal", risks)}
+                        />
+                      )}
+                      {metadata.dateTime && (
+                        <MetadataRow
+                          label={fieldLabels.dateTime}
+                          value={metadata.dateTime}
+                          isRisk={isFieldAtRisk("dateTime", risks)}
                         />
                       )}
                       {metadata.make && (
                         <MetadataRow
-                          label={intl.formatMessage({
-                            defaultMessage: "Camera make",
-                            description: "Label for camera manufacturer",
-                          })}
+                          label={fieldLabels.make}
                           value={metadata.make}
-                          isRisk
+                          isRisk={isFieldAtRisk("make", risks)}
                         />
                       )}
                       {metadata.model && (
                         <MetadataRow
-                          label={intl.formatMessage({
-                            defaultMessage: "Camera model",
-                            description: "Label for camera model",
-                          })}
+                          label={fieldLabels.model}
                           value={metadata.model}
-                          isRisk
+                          isRisk={isFieldAtRisk("model", risks)}
                         />
                       )}
                       {metadata.software && (
                         <MetadataRow
-                          label={intl.formatMessage({
-                            defaultMessage: "Software",
-                            description: "Label for software used",
-                          })}
+                          label={fieldLabels.software}
                           value={metadata.software}
+                          isRisk={isFieldAtRisk("software", risks)}
                         />
                       )}
                       {metadata.artist && (
                         <MetadataRow
-                          label={intl.formatMessage({
-                            defaultMessage: "Artist",
-                            description: "Label for artist/creator",
-                          })}
+                          label={fieldLabels.artist}
                           value={metadata.artist}
-                          isRisk
+                          isRisk={isFieldAtRisk("artist", risks)}
                         />
                       )}
                       {metadata.copyright && (
                         <MetadataRow
-                          label={intl.formatMessage({
-                            defaultMessage: "Copyright",
-                            description: "Label for copyright info",
-                          })}
+                          label={fieldLabels.copyright}
                           value={metadata.copyright}
+                          isRisk={isFieldAtRisk("copyright", risks)}
                         />
                       )}
                       {metadata.imageWidth && metadata.imageHeight && (
@@ -525,40 +666,322 @@ export const App = () => {
                           value={`${metadata.imageWidth} x ${metadata.imageHeight}`}
                         />
                       )}
+                      {colorProfile && (
+                        <MetadataRow
+                          label={intl.formatMessage({
+                            defaultMessage: "Colour profile",
+                            description: "Label for the ICC colour profile",
+                          })}
+                          value={
+                            colorProfile.description ?? colorProfile.colorSpace
+                          }
+                        />
+                      )}
                     </Rows>
                   </Box>
                 )}
+
+                {metadata.tags && metadata.tags.length > 0 && (
+                  <MetadataInspector
+                    tags={metadata.tags}
+                    keptFields={keptFields}
+                  />
+                )}
+
+                {contentCredentials && (
+                  <ContentCredentialsSummary credentials={contentCredentials} />
+                )}
+
+                {aiSignals.length > 0 && (
+                  <AiProvenancePanel signals={aiSignals} />
+                )}
               </Rows>
             )}
 
             {/* Action Buttons */}
             {processingState === "cleaning" ? (
               <Box padding="2u">
-                <Rows spacing="1u" align="center">
-                  <LoadingIndicator size="medium" />
-                  <Text size="small" tone="tertiary">
-                    <FormattedMessage
-                      defaultMessage="Cleaning metadata..."
-                      description="Loading text while cleaning"
-                    />
+                <Rows spacing="1u">
+                  <ProgressBar
+                    value={CLEAN_STAGE_PROGRESS[cleanStage]}
+                    ariaLabel={intl.formatMessage({
+                      defaultMessage: "Cleaning progress",
+                      description: "Aria label for the cleaning progress bar",
+                    })}
+                  />
+                  <Text size="small" tone="tertiary" alignment="center">
+                    {cleanStage === "stripping" ? (
+                      <FormattedMessage
+                        defaultMessage="Cleaning metadata..."
+                        description="Loading text while cleaning"
+                      />
+                    ) : cleanStage === "redrawing" ? (
+                      <FormattedMessage
+                        defaultMessage="Redrawing image..."
+                        description="Loading text while the image is rotated or converted to sRGB"
+                      />
+                    ) : cleanStage === "fitting" ? (
+                      <FormattedMessage
+                        defaultMessage="Fitting under the size limit..."
+                        description="Loading text while the image is encoded again at a lower quality or size to fit the target file size"
+                      />
+                    ) : cleanStage === "verifying" ? (
+                      <FormattedMessage
+                        defaultMessage="Checking the cleaned image..."
+                        description="Loading text while the cleaned image is parsed again to verify it"
+                      />
+                    ) : (
+                      <FormattedMessage
+                        defaultMessage="Preparing cleaned image..."
+                        description="Loading text while kept metadata is written and the preview is created"
+                      />
+                    )}
                   </Text>
                 </Rows>
               </Box>
             ) : processingState === "done" ? (
               <Rows spacing="1u">
-                <Alert tone="positive">
-                  <FormattedMessage
-                    defaultMessage="Metadata removed successfully!"
-                    description="Success message after cleaning"
+                {verification?.passed !== false && (
+                  <Alert tone="positive">
+                    <FormattedMessage
+                      defaultMessage="Metadata removed successfully!"
+                      description="Success message after cleaning"
+                    />
+                  </Alert>
+                )}
+                {fieldSummary &&
+                  (fieldSummary.kept.length +
+                    fieldSummary.removed.length +
+                    fieldSummary.generalised.length >
+                    0 ||
+                    colorProfileOutcome ||
+                    contentCredentialsOutcome ||
+                    redactionHistory.present.length > 0 ||
+                    sizeFit?.fit.met ||
+                    stampedRights) && (
+                    <Box
+                      background="neutralLow"
+                      borderRadius="standard"
+                      padding="1.5u"
+                    >
+                      <Rows spacing="0.5u">
+                        {fieldSummary.removed.length > 0 && (
+                          <MetadataRow
+                            label={intl.formatMessage({
+                              defaultMessage: "Removed",
+                              description:
+                                "Label for the list of metadata fields that were removed",
+                            })}
+                            value={intl.formatList(
+                              fieldSummary.removed.map(
+                                (field) => fieldLabels[field],
+                              ),
+                            )}
+                          />
+                        )}
+                        {fieldSummary.kept.length > 0 && (
+                          <MetadataRow
+                            label={intl.formatMessage({
+                              defaultMessage: "Kept",
+                              description:
+                                "Label for the list of metadata fields that were kept",
+                            })}
+                            value={intl.formatList(
+                              fieldSummary.kept.map(
+                                (field) => fieldLabels[field],
+                              ),
+                            )}
+                          />
+                        )}
+                        {fieldSummary.generalised.length > 0 && (
+                          <GeneralisedValues
+                            values={fieldSummary.generalised}
+                          />
+                        )}
+                        {colorProfileOutcome && (
+                          <MetadataRow
+                            label={intl.formatMessage({
+                              defaultMessage: "Colour profile",
+                              description: "Label for the ICC colour profile",
+                            })}
+                            value={
+                              {
+                                kept: intl.formatMessage({
+                                  defaultMessage: "Kept",
+                                  description:
+                                    "The ICC colour profile was kept in the cleaned image",
+                                }),
+                                converted: intl.formatMessage({
+                                  defaultMessage: "Converted to sRGB",
+                                  description:
+                                    "The image colours were converted to sRGB and the ICC profile removed",
+                                }),
+                                dropped: intl.formatMessage({
+                                  defaultMessage: "Removed",
+                                  description:
+                                    "The ICC colour profile could not be kept and was removed",
+                                }),
+                              }[colorProfileOutcome]
+                            }
+                          />
+                        )}
+                        {contentCredentialsOutcome && (
+                          <MetadataRow
+                            label={intl.formatMessage({
+                              defaultMessage: "Content Credentials",
+                              description:
+                                "Label for the C2PA Content Credentials",
+                            })}
+                            value={
+                              {
+                                kept: intl.formatMessage({
+                                  defaultMessage: "Kept",
+                                  description:
+                                    "The C2PA Content Credentials were kept in the cleaned image",
+                                }),
+                                removed: intl.formatMessage({
+                                  defaultMessage: "Removed",
+                                  description:
+                                    "The C2PA Content Credentials were removed as chosen",
+                                }),
+                                dropped:
+                                  redactionHistory.present.length > 0
+                                    ? intl.formatMessage({
+                                        defaultMessage:
+                                          "Removed, as they can hold an unredacted thumbnail",
+                                        description:
+                                          "The C2PA Content Credentials were removed because the image was redacted and the credentials may embed a thumbnail of the original",
+                                      })
+                                    : intl.formatMessage({
+                                        defaultMessage:
+                                          "Removed, as this format cannot hold them",
+                                        description:
+                                          "The C2PA Content Credentials could not be kept in the output format and were removed",
+                                      }),
+                              }[contentCredentialsOutcome]
+                            }
+                          />
+                        )}
+                        {redactionHistory.present.length > 0 && (
+                          <MetadataRow
+                            label={intl.formatMessage({
+                              defaultMessage: "Redacted",
+                              description:
+                                "Label for the number of areas covered in the cleaned image",
+                            })}
+                            value={intl.formatMessage(
+                              {
+                                defaultMessage:
+                                  "{count, plural, one {# area} other {# areas}}",
+                                description:
+                                  "Number of areas blurred, pixelated or filled in the cleaned image",
+                              },
+                              { count: redactionHistory.present.length },
+                            )}
+                          />
+                        )}
+                        {sizeFit?.fit.met && cleanedImage && (
+                          <MetadataRow
+                            label={intl.formatMessage({
+                              defaultMessage: "File size",
+                              description:
+                                "Label for the size of the cleaned file when a target size was set",
+                            })}
+                            value={
+                              sizeFit.fit.quality != null
+                                ? intl.formatMessage(
+                                    {
+                                      defaultMessage:
+                                        "{size} at {quality} quality, {width} x {height} px",
+                                      description:
+                                        "Size of the cleaned file, with the encoder quality and pixel size chosen to fit the target size",
+                                    },
+                                    {
+                                      size: formatBytes(intl, sizeFit.size),
+                                      quality: intl.formatNumber(
+                                        sizeFit.fit.quality,
+                                        { style: "percent" },
+                                      ),
+                                      width: cleanedImage.width,
+                                      height: cleanedImage.height,
+                                    },
+                                  )
+                                : intl.formatMessage(
+                                    {
+                                      defaultMessage:
+                                        "{size}, {width} x {height} px",
+                                      description:
+                                        "Size of the cleaned file and its pixel size, when it fits the target size without a quality setting",
+                                    },
+                                    {
+                                      size: formatBytes(intl, sizeFit.size),
+                                      width: cleanedImage.width,
+                                      height: cleanedImage.height,
+                                    },
+                                  )
+                            }
+                          />
+                        )}
+                        {stampedRights &&
+                          RIGHTS_FIELDS.filter(
+                            (field) => stampedRights[field],
+                          ).map((field) => (
+                            <MetadataRow
+                              key={field}
+                              label={intl.formatMessage(
+                                {
+                                  defaultMessage: "Added {field}",
+                                  description:
+                                    "Label for a rights field the user wrote into the cleaned image",
+                                },
+                                { field: rightsLabels[field] },
+                              )}
+                              value={stampedRights[field]}
+                            />
+                          ))}
+                      </Rows>
+                    </Box>
+                  )}
+                {sizeFit && !sizeFit.fit.met && (
+                  <Alert tone="warn">
+                    {sizeFit.fit.reason === "metadata" ? (
+                      <FormattedMessage
+                        defaultMessage="The cleaned file is {size}, over the {target} target. The kept metadata alone takes {minimum}, so keep fewer fields or raise the target."
+                        description="Warning that the metadata written back into the cleaned file is larger than the target file size by itself"
+                        values={{
+                          size: formatBytes(intl, sizeFit.size),
+                          target: formatBytes(intl, sizeFit.target),
+                          minimum: formatBytes(intl, sizeFit.fit.minimumSize),
+                        }}
+                      />
+                    ) : (
+                      <FormattedMessage
+                        defaultMessage="The cleaned file is {size}, over the {target} target. Even at the lowest quality and a very small size it would take {minimum}, so it was kept at the chosen settings."
+                        description="Warning that the image cannot be made small enough to fit the target file size"
+                        values={{
+                          size: formatBytes(intl, sizeFit.size),
+                          target: formatBytes(intl, sizeFit.target),
+                          minimum: formatBytes(intl, sizeFit.fit.minimumSize),
+                        }}
+                      />
+                    )}
+                  </Alert>
+                )}
+                {verification && <VerificationPanel report={verification} />}
+                {metadataDiff && <MetadataDiffView diff={metadataDiff} />}
+                {report && (
+                  <ReportPanel
+                    report={report}
+                    onAddToDesign={addElement ? handleAddReport : undefined}
                   />
-                </Alert>
+                )}
                 <Alert tone="info">
                   <FormattedMessage
                     defaultMessage="Click or drag the image below to add it to your design."
                     description="Instructions for adding image to design"
                   />
                 </Alert>
-                {cleanedImageUrl && (
+                {cleanedImage && (
                   <Box>
                     <ImageCard
                       ariaLabel={intl.formatMessage({
@@ -566,7 +989,7 @@ export const App = () => {
                           "Cleaned image - click or drag to add to your design",
                         description: "Aria label for draggable cleaned image",
                       })}
-                      thumbnailUrl={cleanedImageUrl}
+                      thumbnailUrl={cleanedImage.url}
                       onClick={handleClick}
                       onDragStart={handleDragStart}
                       borderRadius="standard"
@@ -586,6 +1009,67 @@ export const App = () => {
               </Rows>
             ) : (
               <Rows spacing="1u">
+                {presentFields.length > 0 && (
+                  <RemovalProfilePicker
+                    profile={removalProfile}
+                    keptFields={customKeptFields}
+                    availableFields={presentFields}
+                    disabled={processingState !== "idle"}
+                    onProfileChange={setRemovalProfile}
+                    onKeptFieldsChange={setCustomKeptFields}
+                  />
+                )}
+                {metadata && presentFields.length > 0 && (
+                  <GeneralisePicker
+                    metadata={metadata}
+                    availableFields={presentFields}
+                    settings={generaliseSettings}
+                    disabled={processingState !== "idle"}
+                    onChange={setGeneraliseSettings}
+                  />
+                )}
+                {imagePreview && (
+                  <RedactionEditor
+                    imageUrl={imagePreview}
+                    history={redactionHistory}
+                    disabled={processingState !== "idle"}
+                    onHistoryChange={setRedactionHistory}
+                  />
+                )}
+                <RightsForm
+                  rights={rights}
+                  disabled={processingState !== "idle"}
+                  onChange={setRights}
+                />
+                <OutputSettingsPicker
+                  file={selectedFile}
+                  redrawn={redrawn}
+                  settings={outputSettings}
+                  disabled={processingState !== "idle"}
+                  onChange={setOutputSettings}
+                />
+                {colorProfile && (
+                  <ColorProfilePicker
+                    mode={colorProfileMode}
+                    profile={colorProfile}
+                    disabled={processingState !== "idle"}
+                    onModeChange={setColorProfileMode}
+                  />
+                )}
+                {contentCredentials && (
+                  <ContentCredentialsPicker
+                    mode={contentCredentialsMode}
+                    redacted={redactionHistory.present.length > 0}
+                    disabled={processingState !== "idle"}
+                    onModeChange={setContentCredentialsMode}
+                  />
+                )}
+                <AiDisclosurePicker
+                  disclosure={aiDisclosure}
+                  detected={aiSignals.length > 0}
+                  disabled={processingState !== "idle"}
+                  onChange={setAiDisclosure}
+                />
                 <Button
                   variant="primary"
                   onClick={handleCleanMetadata}
@@ -611,31 +1095,3 @@ export const App = () => {
     </div>
   );
 };
-
-// Helper component for metadata rows
-const MetadataRow = ({
-  label,
-  value,
-  isRisk = false,
-}: {
-  label: string;
-  value: string;
-  isRisk?: boolean;
-}) => (
-  <Columns spacing="1u">
-    <Column width="content">
-      <Text size="small" tone={isRisk ? "critical" : "secondary"}>
-        <FormattedMessage
-          defaultMessage="{label}:"
-          description="Metadata label with colon"
-          values={{ label }}
-        />
-      </Text>
-    </Column>
-    <Column>
-      <Text size="small" tone={isRisk ? "primary" : "tertiary"}>
-        {value}
-      </Text>
-    </Column>
-  </Columns>
-);
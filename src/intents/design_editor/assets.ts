@@ -0,0 +1,54 @@
+import type { ImageRef } from "@canva/asset";
+import { getTemporaryUrl, upload } from "@canva/asset";
+import type { ImageDragConfig } from "@canva/design";
+import type { CleanedImage } from "./cleaning";
+
+export async function uploadCleanedImage(image: CleanedImage) {
+  return upload({
+    type: "image",
+    mimeType: image.mimeType,
+    url: image.url,
+    thumbnailUrl: image.url,
+    aiDisclosure: image.aiDisclosure,
+    width: image.width,
+    height: image.height,
+  });
+}
+
+/**
+ * Drag config that uploads the image only once it is dropped into the design.
+ */
+export function getImageDragConfig(image: CleanedImage): ImageDragConfig {
+  return {
+    type: "image",
+    // Return object with ref property as required by the API
+    resolveImageRef: async () => ({
+      ref: (await uploadCleanedImage(image)).ref,
+    }),
+    previewUrl: image.url,
+    previewSize: {
+      width: 100,
+      height: 100,
+    },
+    fullSize: {
+      width: image.width,
+      height: image.height,
+    },
+  };
+}
+
+/**
+ * Downloads an image that is already in the design, so it can be inspected and
+ * cleaned like a file from disk.
+ */
+export async function downloadDesignImage(
+  ref: ImageRef,
+): Promise<{ file: File; url: string }> {
+  const { url } = await getTemporaryUrl({ type: "image", ref });
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download image: ${response.status}`);
+  }
+  const blob = await response.blob();
+  return { file: new File([blob], "design-image", { type: blob.type }), url };
+}
@@ -0,0 +1,118 @@
+import { detectAiSignals } from "./ai_provenance";
+import type { EmbeddedText } from "./cleaners";
+import type { MetadataInfo } from "./metadata";
+import { formatTagName } from "./metadata";
+import type { RiskFinding } from "./risks";
+import { getMetadataRisks, summarizeRisks } from "./risks";
+import type { VerificationReport } from "./verification";
+
+// What the design audit looks for in each image
+export type AuditFlag = "gps" | "serialNumbers" | "authors" | "aiParameters";
+
+export const AUDIT_FLAGS: readonly AuditFlag[] = [
+  "gps",
+  "serialNumbers",
+  "authors",
+  "aiParameters",
+];
+
+// Risk rules behind each flag. AI parameters are not a tag, see
+// ai_provenance.ts
+const FLAG_RULES: Record<Exclude<AuditFlag, "aiParameters">, string> = {
+  gps: "gpsPosition",
+  serialNumbers: "serialNumbers",
+  authors: "personName",
+};
+
+export interface ImageAudit {
+  metadata: MetadataInfo;
+  risks: RiskFinding[];
+  flags: AuditFlag[];
+  // Set once the image has been cleaned and replaced in the design
+  cleaned?: VerificationReport;
+  // True when the image could not be downloaded or read, so it was not
+  // checked. It is never reported as having no risks
+  unreadable?: boolean;
+}
+
+/**
+ * Checks one image for the findings the design audit reports.
+ */
+export function auditImage(
+  metadata: MetadataInfo,
+  embeddedText: readonly EmbeddedText[],
+): ImageAudit {
+  const risks = getMetadataRisks(metadata);
+  const flags = AUDIT_FLAGS.filter((flag) =>
+    flag === "aiParameters"
+      ? detectAiSignals({ metadata, embeddedText }).length > 0
+      : risks.some(({ rule }) => rule.id === FLAG_RULES[flag]),
+  );
+  return { metadata, risks, flags };
+}
+
+/**
+ * The audit of an image that could not be downloaded or read.
+ */
+export function unreadableImage(): ImageAudit {
+  return { metadata: {}, risks: [], flags: [], unreadable: true };
+}
+
+// The report is attached to compliance tickets, so it is not translated
+const FLAG_NAMES: Record<AuditFlag, string> = {
+  gps: "GPS location",
+  serialNumbers: "camera serial numbers",
+  authors: "author names",
+  aiParameters: "AI generation parameters",
+};
+
+function formatStatus({
+  risks,
+  flags,
+  cleaned,
+  unreadable,
+}: ImageAudit): string {
+  if (unreadable) return "could not be read, not checked";
+  if (cleaned) {
+    return cleaned.passed
+      ? "cleaned and verified"
+      : "cleaned, but metadata was still found";
+  }
+  return risks.length > 0 || flags.length > 0 ? "not cleaned" : "no risks";
+}
+
+/**
+ * Writes the audit as plain text that can be attached to a compliance ticket.
+ * Images are numbered in the order they appear on the page.
+ */
+export function formatAuditReport(
+  audits: readonly ImageAudit[],
+  scannedAt: Date,
+): string {
+  const flagged = audits.filter(
+    ({ risks, flags }) => risks.length > 0 || flags.length > 0,
+  );
+  const unchecked = audits.filter(({ unreadable }) => unreadable).length;
+  const lines = [
+    "Design metadata audit (current page)",
+    `Scanned: ${scannedAt.toISOString()}`,
+    `Images: ${audits.length}, flagged: ${flagged.length}` +
+      (unchecked > 0 ? `, not checked: ${unchecked}` : ""),
+  ];
+
+  audits.forEach((audit, index) => {
+    lines.push("", `Image ${index + 1}: ${formatStatus(audit)}`);
+    if (audit.flags.length > 0) {
+      lines.push(
+        `  Found: ${audit.flags.map((flag) => FLAG_NAMES[flag]).join(", ")}`,
+      );
+    }
+    for (const { category, severity, findings } of summarizeRisks(
+      audit.risks,
+    )) {
+      const tags = new Set(findings.map(({ tag }) => formatTagName(tag.key)));
+      lines.push(`  ${category} (${severity}): ${[...tags].join(", ")}`);
+    }
+  });
+  return lines.join("\n");
+}
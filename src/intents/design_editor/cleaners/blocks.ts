@@ -0,0 +1,29 @@
+// Kinds of metadata container a file may carry, sized so a clean can show how
+// many bytes each one took up before and after.
+
+export type MetadataBlockType =
+  | "exif"
+  | "xmp"
+  | "iptc"
+  | "icc"
+  | "text"
+  | "c2pa"
+  | "trailer"
+  | "other";
+
+export interface MetadataBlock {
+  type: MetadataBlockType;
+  // In bytes, including the segment or chunk header
+  size: number;
+}
+
+export const METADATA_BLOCK_TYPES: readonly MetadataBlockType[] = [
+  "exif",
+  "xmp",
+  "iptc",
+  "icc",
+  "text",
+  "c2pa",
+  "trailer",
+  "other",
+];
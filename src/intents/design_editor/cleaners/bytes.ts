@@ -0,0 +1,149 @@
+// Small helpers shared by the byte-level cleaners.
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const output = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+/**
+ * Returns true when the bytes at `offset` spell out `text` (latin-1) and the
+ * match does not run past `end`.
+ */
+export function matchesAscii(
+  bytes: Uint8Array,
+  offset: number,
+  text: string,
+  end = bytes.length,
+): boolean {
+  if (offset + text.length > end) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+/**
+ * Returns the offset of the first match of `text` (latin-1) at or after
+ * `from`, or -1 when there is none.
+ */
+export function indexOfAscii(
+  bytes: Uint8Array,
+  text: string,
+  from = 0,
+): number {
+  const first = text.charCodeAt(0);
+  for (
+    let i = bytes.indexOf(first, from);
+    i >= 0;
+    i = bytes.indexOf(first, i + 1)
+  ) {
+    if (matchesAscii(bytes, i, text)) return i;
+  }
+  return -1;
+}
+
+/**
+ * UTF-8 encodes a string. TextEncoder is avoided so the cleaners also run in
+ * environments that lack it.
+ */
+export function encodeUtf8(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) as number;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(
+        0xe0 | (code >> 12),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f),
+      );
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f),
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Decodes UTF-8 text, replacing malformed sequences with U+FFFD. Like
+ * encodeUtf8, it avoids TextDecoder.
+ */
+export function decodeUtf8(bytes: Uint8Array): string {
+  const codes: number[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    const lead = bytes[i] as number;
+    const extra =
+      lead < 0x80
+        ? 0
+        : lead >= 0xf0
+          ? 3
+          : lead >= 0xe0
+            ? 2
+            : lead >= 0xc0
+              ? 1
+              : -1;
+    let code = extra > 0 ? lead & (0x3f >> extra) : lead;
+    let valid = extra >= 0 && i + extra < bytes.length;
+    for (let j = 1; valid && j <= extra; j++) {
+      const next = bytes[i + j] as number;
+      valid = (next & 0xc0) === 0x80;
+      code = (code << 6) | (next & 0x3f);
+    }
+    codes.push(valid ? code : 0xfffd);
+    i += valid ? extra + 1 : 1;
+  }
+  let text = "";
+  for (const code of codes) text += String.fromCodePoint(code);
+  return text;
+}
+
+/**
+ * Decodes latin-1 text, as used by PNG tEXt chunks and JPEG comments.
+ */
+export function decodeLatin1(bytes: Uint8Array): string {
+  let text = "";
+  for (const byte of bytes) text += String.fromCharCode(byte);
+  return text;
+}
+
+/**
+ * Decompresses zlib data (TIFF Deflate strips, PNG iCCP chunks) with the
+ * browser's built-in DecompressionStream.
+ */
+export async function inflate(input: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error("Deflate decompression is not supported here");
+  }
+  const stream = new Blob([input as Uint8Array<ArrayBuffer>])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Compresses bytes as zlib data with the browser's CompressionStream.
+ */
+export async function deflate(input: Uint8Array): Promise<Uint8Array> {
+  if (typeof CompressionStream === "undefined") {
+    throw new Error("Deflate compression is not supported here");
+  }
+  const stream = new Blob([input as Uint8Array<ArrayBuffer>])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
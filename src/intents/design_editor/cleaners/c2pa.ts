@@ -0,0 +1,274 @@
+// Reads C2PA manifest stores (Content Credentials). A store is a JUMBF
+// superbox labelled "c2pa" holding one manifest per signed edit; the last one
+// is the active manifest and describes the file as it is now. Each manifest
+// holds assertion boxes, a claim that lists them and a COSE signature over
+// the claim.
+
+import { decodeUtf8 } from "./bytes";
+import { decodeCbor } from "./cbor";
+
+export interface ContentCredentials {
+  // Tool that produced the active manifest, e.g. "Adobe Photoshop 25.0"
+  claimGenerator: string | null;
+  // Actions the active manifest records, e.g. "c2pa.created"
+  actions: string[];
+  // Organisation, or else common name, of the signing certificate
+  signer: string | null;
+  // True when an action declares a generative-AI digital source type
+  aiGenerated: boolean;
+  // Manifests in the store, the active one included
+  manifestCount: number;
+}
+
+interface Box {
+  type: string;
+  data: Uint8Array;
+}
+
+interface Superbox {
+  label: string | null;
+  boxes: Box[];
+}
+
+interface DerNode {
+  tag: number;
+  start: number;
+  end: number;
+}
+
+const STORE_LABEL = "c2pa";
+// The description box's toggles byte flags a label after the 16-byte UUID
+const LABEL_PRESENT = 0x02;
+// COSE header label of the X.509 certificate chain
+const X5CHAIN = "33";
+// IPTC digital source types for trained-algorithm (generative AI) media,
+// including composites that contain it
+const AI_SOURCE_TYPE = /trainedAlgorithmicMedia$/i;
+
+const OID_COMMON_NAME = [0x55, 0x04, 0x03];
+const OID_ORGANIZATION = [0x55, 0x04, 0x0a];
+
+/**
+ * Splits ISO BMFF style boxes: a 32-bit length (1 for a 64-bit length after
+ * the type, 0 for "to the end"), a four-character type and the payload.
+ */
+function readBoxes(bytes: Uint8Array): Box[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: Box[] = [];
+  let offset = 0;
+  while (offset + 8 <= bytes.length) {
+    let length = view.getUint32(offset);
+    let header = 8;
+    if (length === 1) {
+      length =
+        view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+      header = 16;
+    } else if (length === 0) {
+      length = bytes.length - offset;
+    }
+    if (length < header || offset + length > bytes.length) {
+      throw new Error(`Invalid JUMBF box length at offset ${offset}`);
+    }
+    boxes.push({
+      type: String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)),
+      data: bytes.subarray(offset + header, offset + length),
+    });
+    offset += length;
+  }
+  return boxes;
+}
+
+/**
+ * Reads a "jumb" superbox: its description box, which carries the label, and
+ * the boxes that follow it.
+ */
+function readSuperbox({ type, data }: Box): Superbox | null {
+  if (type !== "jumb") return null;
+  const [description, ...boxes] = readBoxes(data);
+  if (description?.type !== "jumd") return null;
+  const toggles = description.data[16] ?? 0;
+  let label: string | null = null;
+  if (toggles & LABEL_PRESENT) {
+    const end = description.data.indexOf(0, 17);
+    label = decodeUtf8(
+      description.data.subarray(17, end < 0 ? undefined : end),
+    );
+  }
+  return { label, boxes };
+}
+
+function getSuperboxes({ boxes }: Superbox): Superbox[] {
+  return boxes.flatMap((box) => {
+    const superbox = readSuperbox(box);
+    return superbox ? [superbox] : [];
+  });
+}
+
+/**
+ * Decodes the first CBOR or JSON content box of a superbox.
+ */
+function readContent({ boxes }: Superbox): unknown {
+  const box = boxes.find(({ type }) => type === "cbor" || type === "json");
+  if (!box) return null;
+  return box.type === "cbor"
+    ? decodeCbor(box.data)
+    : JSON.parse(decodeUtf8(box.data));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value != null && !Array.isArray(value);
+}
+
+/**
+ * Version 1 claims name the generator in a single string, version 2 claims
+ * in a map with a name and version.
+ */
+function getClaimGenerator(claim: unknown): string | null {
+  if (!isRecord(claim)) return null;
+  if (typeof claim.claim_generator === "string") return claim.claim_generator;
+  const info = claim.claim_generator_info;
+  const generator = Array.isArray(info) ? info[0] : info;
+  if (!isRecord(generator) || typeof generator.name !== "string") return null;
+  return typeof generator.version === "string"
+    ? `${generator.name} ${generator.version}`
+    : generator.name;
+}
+
+function readDer(bytes: Uint8Array, offset: number): DerNode {
+  const tag = bytes[offset] ?? 0;
+  let length = bytes[offset + 1] ?? 0;
+  let start = offset + 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      length = length * 256 + (bytes[start + i] ?? 0);
+    }
+    start += count;
+  }
+  const end = start + length;
+  if (end > bytes.length) {
+    throw new Error(`Invalid DER length at offset ${offset}`);
+  }
+  return { tag, start, end };
+}
+
+function readDerChildren(bytes: Uint8Array, { start, end }: DerNode) {
+  const children: DerNode[] = [];
+  for (let offset = start; offset < end; ) {
+    const child = readDer(bytes, offset);
+    children.push(child);
+    offset = child.end;
+  }
+  return children;
+}
+
+/**
+ * Reads the organisation, or else the common name, from the subject of a
+ * DER-encoded X.509 certificate.
+ */
+function readCertificateSubject(certificate: Uint8Array): string | null {
+  try {
+    const [tbs] = readDerChildren(certificate, readDer(certificate, 0));
+    if (!tbs) return null;
+    const fields = readDerChildren(certificate, tbs);
+    // An explicit version comes first, then serial number, signature
+    // algorithm, issuer, validity and subject
+    const version = fields[0]?.tag === 0xa0 ? 1 : 0;
+    const subject = fields[version + 4];
+    if (!subject) return null;
+
+    const names = new Map<string, string>();
+    for (const set of readDerChildren(certificate, subject)) {
+      for (const attribute of readDerChildren(certificate, set)) {
+        const [oid, value] = readDerChildren(certificate, attribute);
+        if (!oid || !value) continue;
+        names.set(
+          certificate.subarray(oid.start, oid.end).join(),
+          decodeUtf8(certificate.subarray(value.start, value.end)),
+        );
+      }
+    }
+    return (
+      names.get(OID_ORGANIZATION.join()) ??
+      names.get(OID_COMMON_NAME.join()) ??
+      null
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The signature is a COSE_Sign1 structure: protected headers (CBOR in a byte
+ * string), unprotected headers, payload and signature. The certificate chain
+ * may sit in either header map, and the signer's certificate comes first.
+ */
+function getSigner(signature: unknown): string | null {
+  if (!Array.isArray(signature)) return null;
+  const [protectedBytes, unprotectedHeaders] = signature;
+  const protectedHeaders =
+    protectedBytes instanceof Uint8Array && protectedBytes.length > 0
+      ? decodeCbor(protectedBytes)
+      : null;
+  const chain = [protectedHeaders, unprotectedHeaders]
+    .filter(isRecord)
+    .map((headers) => headers[X5CHAIN] ?? headers.x5chain)
+    .find((value) => value != null);
+  const certificate = Array.isArray(chain) ? chain[0] : chain;
+  return certificate instanceof Uint8Array
+    ? readCertificateSubject(certificate)
+    : null;
+}
+
+function getActions(assertion: unknown): Record<string, unknown>[] {
+  if (!isRecord(assertion) || !Array.isArray(assertion.actions)) return [];
+  return assertion.actions.filter(isRecord);
+}
+
+function findByLabel(superboxes: Superbox[], prefix: string) {
+  return superboxes.filter(({ label }) => label?.startsWith(prefix));
+}
+
+/**
+ * Summarises the active manifest of a C2PA manifest store. Returns null when
+ * the box is not a manifest store or cannot be parsed.
+ */
+export function readContentCredentials(
+  box: Uint8Array,
+): ContentCredentials | null {
+  try {
+    const [storeBox] = readBoxes(box);
+    const store = storeBox && readSuperbox(storeBox);
+    if (store?.label !== STORE_LABEL) return null;
+    const manifests = getSuperboxes(store);
+    const active = manifests[manifests.length - 1];
+    if (!active) return null;
+
+    const parts = getSuperboxes(active);
+    const [claim] = findByLabel(parts, "c2pa.claim");
+    const [signature] = findByLabel(parts, "c2pa.signature");
+    const assertions = findByLabel(parts, "c2pa.assertions").flatMap(
+      getSuperboxes,
+    );
+    const actions = findByLabel(assertions, "c2pa.actions").flatMap(
+      (assertion) => getActions(readContent(assertion)),
+    );
+
+    return {
+      claimGenerator: claim ? getClaimGenerator(readContent(claim)) : null,
+      actions: actions.flatMap(({ action }) =>
+        typeof action === "string" ? [action] : [],
+      ),
+      signer: signature ? getSigner(readContent(signature)) : null,
+      aiGenerated: actions.some(
+        ({ digitalSourceType }) =>
+          typeof digitalSourceType === "string" &&
+          AI_SOURCE_TYPE.test(digitalSourceType),
+      ),
+      manifestCount: manifests.length,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,241 @@
+// Canvas re-encode fallback. Drawing the decoded pixels onto a fresh canvas and
+// exporting them discards every metadata block, at the cost of re-encoding.
+// The image worker has no DOM, so there the canvases are OffscreenCanvas.
+
+export type Canvas = HTMLCanvasElement | OffscreenCanvas;
+
+export type CanvasContext =
+  | CanvasRenderingContext2D
+  | OffscreenCanvasRenderingContext2D;
+
+export function loadImage(blob: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(blob);
+  const img = new Image();
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+}
+
+/**
+ * Reads an image's pixel size. createImageBitmap decodes off the main thread,
+ * so it is preferred over an <img> element where available.
+ */
+export async function measureImage(
+  blob: Blob,
+): Promise<{ width: number; height: number }> {
+  if (typeof createImageBitmap !== "undefined") {
+    try {
+      const bitmap = await createImageBitmap(blob);
+      const { width, height } = bitmap;
+      bitmap.close();
+      return { width, height };
+    } catch {
+      // Fall back to an <img> element, which some formats decode better
+    }
+  }
+  const img = await loadImage(blob);
+  return { width: img.naturalWidth, height: img.naturalHeight };
+}
+
+/**
+ * Decodes an image ready to be drawn: with an <img> element on the main
+ * thread, or createImageBitmap in the worker. Both apply EXIF orientation.
+ */
+export async function decodeImage(
+  blob: Blob,
+): Promise<{ image: CanvasImageSource; width: number; height: number }> {
+  if (typeof document === "undefined") {
+    const bitmap = await createImageBitmap(blob, {
+      imageOrientation: "from-image",
+    });
+    return { image: bitmap, width: bitmap.width, height: bitmap.height };
+  }
+  const img = await loadImage(blob);
+  return { image: img, width: img.naturalWidth, height: img.naturalHeight };
+}
+
+/**
+ * Creates a canvas of the given size and returns its 2D context.
+ */
+export function createCanvasContext({
+  width,
+  height,
+}: {
+  width: number;
+  height: number;
+}): CanvasContext {
+  let ctx: CanvasContext | null;
+  if (typeof document === "undefined") {
+    ctx = new OffscreenCanvas(width, height).getContext("2d");
+  } else {
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    ctx = canvas.getContext("2d");
+  }
+  if (!ctx) {
+    throw new Error("Failed to get canvas context");
+  }
+  return ctx;
+}
+
+export function canvasToBlob(
+  canvas: Canvas,
+  mimeType: string,
+  quality?: number,
+): Promise<Blob> {
+  if (!("toBlob" in canvas)) {
+    return canvas.convertToBlob({ type: mimeType, quality });
+  }
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error("Failed to create cleaned image"));
+        }
+      },
+      mimeType,
+      quality,
+    );
+  });
+}
+
+/**
+ * Encodes decoded RGBA pixels (for formats the browser cannot display).
+ */
+export async function encodePixels(
+  image: { width: number; height: number; data: Uint8ClampedArray },
+  mimeType: string,
+): Promise<Blob> {
+  const ctx = createCanvasContext(image);
+  ctx.putImageData(
+    new ImageData(
+      image.data as Uint8ClampedArray<ArrayBuffer>,
+      image.width,
+      image.height,
+    ),
+    0,
+    0,
+  );
+
+  return canvasToBlob(ctx.canvas, mimeType, 0.95);
+}
+
+export async function reencodeWithCanvas(
+  source: Blob,
+  mimeType: string,
+  quality = 0.95,
+): Promise<{ blob: Blob; width: number; height: number }> {
+  const { image, width, height } = await decodeImage(source);
+  const ctx = createCanvasContext({ width, height });
+  ctx.drawImage(image, 0, 0);
+
+  const blob = await canvasToBlob(ctx.canvas, mimeType, quality);
+  return { blob, width, height };
+}
+
+// Pixels darker than this count as border when trimming letterboxing
+const BORDER_LUMINANCE = 16;
+
+/**
+ * Converts RGBA pixels to their luminance (0-255), ignoring alpha.
+ */
+export function toLuminance(rgba: Uint8ClampedArray): Uint8Array {
+  const luminance = new Uint8Array(rgba.length / 4);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = Math.round(
+      0.299 * (rgba[i * 4] ?? 0) +
+        0.587 * (rgba[i * 4 + 1] ?? 0) +
+        0.114 * (rgba[i * 4 + 2] ?? 0),
+    );
+  }
+  return luminance;
+}
+
+/**
+ * Finds the box inside the black bars that cameras add when a thumbnail's
+ * aspect ratio differs from the photo's. Returns the whole image when it is
+ * black throughout.
+ */
+export function findContentBounds(
+  luminance: Uint8Array,
+  width: number,
+  height: number,
+): { x: number; y: number; width: number; height: number } {
+  let left = width;
+  let right = -1;
+  let top = height;
+  let bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if ((luminance[y * width + x] ?? 0) <= BORDER_LUMINANCE) continue;
+      left = Math.min(left, x);
+      right = Math.max(right, x);
+      top = Math.min(top, y);
+      bottom = Math.max(bottom, y);
+    }
+  }
+  if (right < 0) return { x: 0, y: 0, width, height };
+  return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+/**
+ * Decodes an image and shrinks it to a `gridSize` x `gridSize` grid of
+ * luminance values, stretching it to fill the grid. With `trimBorders`, black
+ * bars around the picture are cut off first. Also returns the size of the
+ * picture that was sampled.
+ */
+export async function sampleLuminance(
+  blob: Blob,
+  gridSize: number,
+  trimBorders = false,
+): Promise<{ width: number; height: number; cells: Uint8Array }> {
+  const img = await loadImage(blob);
+  const { naturalWidth, naturalHeight } = img;
+
+  const source = document.createElement("canvas");
+  source.width = naturalWidth;
+  source.height = naturalHeight;
+  const sourceCtx = source.getContext("2d");
+  if (!sourceCtx) {
+    throw new Error("Failed to get canvas context");
+  }
+  sourceCtx.drawImage(img, 0, 0);
+  const bounds = trimBorders
+    ? findContentBounds(
+        toLuminance(
+          sourceCtx.getImageData(0, 0, naturalWidth, naturalHeight).data,
+        ),
+        naturalWidth,
+        naturalHeight,
+      )
+    : { x: 0, y: 0, width: naturalWidth, height: naturalHeight };
+
+  const grid = document.createElement("canvas");
+  grid.width = gridSize;
+  grid.height = gridSize;
+  const ctx = grid.getContext("2d");
+  if (!ctx) {
+    throw new Error("Failed to get canvas context");
+  }
+  ctx.drawImage(
+    source,
+    bounds.x,
+    bounds.y,
+    bounds.width,
+    bounds.height,
+    0,
+    0,
+    gridSize,
+    gridSize,
+  );
+  return {
+    width: bounds.width,
+    height: bounds.height,
+    cells: toLuminance(ctx.getImageData(0, 0, gridSize, gridSize).data),
+  };
+}
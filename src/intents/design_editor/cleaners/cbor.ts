@@ -0,0 +1,161 @@
+// Minimal CBOR (RFC 8949) decoder for the C2PA claim, assertion and signature
+// boxes. Maps become plain objects with stringified keys, tags are dropped in
+// favour of the value they wrap, and byte strings stay Uint8Arrays.
+
+import { concatBytes, decodeUtf8 } from "./bytes";
+
+const BREAK = 0xff;
+
+interface Reader {
+  bytes: Uint8Array;
+  view: DataView;
+  offset: number;
+}
+
+function readArgument(reader: Reader, info: number): number {
+  const { view, offset } = reader;
+  if (info < 24) return info;
+  if (info === 24) {
+    reader.offset += 1;
+    return view.getUint8(offset);
+  }
+  if (info === 25) {
+    reader.offset += 2;
+    return view.getUint16(offset);
+  }
+  if (info === 26) {
+    reader.offset += 4;
+    return view.getUint32(offset);
+  }
+  if (info === 27) {
+    reader.offset += 8;
+    return view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+  }
+  throw new Error(`Unsupported CBOR argument ${info}`);
+}
+
+function readHalfFloat(bits: number): number {
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+  const sign = bits & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+function readSimple(reader: Reader, info: number): unknown {
+  const { view, offset } = reader;
+  const simple: Record<number, unknown> = {
+    20: false,
+    21: true,
+    22: null,
+    23: undefined,
+  };
+  if (info in simple) return simple[info];
+  if (info === 25) {
+    reader.offset += 2;
+    return readHalfFloat(view.getUint16(offset));
+  }
+  if (info === 26) {
+    reader.offset += 4;
+    return view.getFloat32(offset);
+  }
+  if (info === 27) {
+    reader.offset += 8;
+    return view.getFloat64(offset);
+  }
+  throw new Error(`Unsupported CBOR simple value ${info}`);
+}
+
+function readBytes(reader: Reader, length: number): Uint8Array {
+  const end = reader.offset + length;
+  if (end > reader.bytes.length) {
+    throw new Error("CBOR string runs past the end of the data");
+  }
+  const bytes = reader.bytes.subarray(reader.offset, end);
+  reader.offset = end;
+  return bytes;
+}
+
+/**
+ * Reads the chunks of an indefinite-length string up to the break code. Each
+ * chunk is a definite-length string of the same major type.
+ */
+function readChunks(reader: Reader, major: number): Uint8Array[] {
+  const chunks: Uint8Array[] = [];
+  while (reader.bytes[reader.offset] !== BREAK) {
+    const initial = reader.bytes[reader.offset++] ?? BREAK;
+    if (initial >> 5 !== major) {
+      throw new Error("Invalid chunk in an indefinite-length CBOR string");
+    }
+    chunks.push(readBytes(reader, readArgument(reader, initial & 0x1f)));
+  }
+  reader.offset++;
+  return chunks;
+}
+
+function readItem(reader: Reader): unknown {
+  if (reader.offset >= reader.bytes.length) {
+    throw new Error("CBOR data ended early");
+  }
+  const initial = reader.bytes[reader.offset++] as number;
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+  const indefinite = info === 31 && major >= 2 && major <= 5;
+  const argument = major === 7 || indefinite ? 0 : readArgument(reader, info);
+
+  switch (major) {
+    case 0:
+      return argument;
+    case 1:
+      return -1 - argument;
+    case 2:
+    case 3: {
+      const bytes = indefinite
+        ? concatBytes(readChunks(reader, major))
+        : readBytes(reader, argument);
+      return major === 2 ? bytes : decodeUtf8(bytes);
+    }
+    case 4: {
+      const items: unknown[] = [];
+      while (
+        indefinite
+          ? reader.bytes[reader.offset] !== BREAK
+          : items.length < argument
+      ) {
+        items.push(readItem(reader));
+      }
+      if (indefinite) reader.offset++;
+      return items;
+    }
+    case 5: {
+      const map: Record<string, unknown> = {};
+      for (
+        let i = 0;
+        indefinite ? reader.bytes[reader.offset] !== BREAK : i < argument;
+        i++
+      ) {
+        const key = readItem(reader);
+        map[String(key)] = readItem(reader);
+      }
+      if (indefinite) reader.offset++;
+      return map;
+    }
+    case 6:
+      return readItem(reader);
+    default:
+      return readSimple(reader, info);
+  }
+}
+
+/**
+ * Decodes the first CBOR data item in `bytes`. Throws on malformed or
+ * truncated data.
+ */
+export function decodeCbor(bytes: Uint8Array): unknown {
+  return readItem({
+    bytes,
+    view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+    offset: 0,
+  });
+}
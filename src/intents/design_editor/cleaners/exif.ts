@@ -0,0 +1,223 @@
+// Minimal EXIF writer. Builds a big-endian TIFF structure holding only the
+// fields the caller asks for, so that chosen tags can be written back into an
+// otherwise clean file.
+
+import { concatBytes, encodeUtf8, matchesAscii } from "./bytes";
+
+export interface ExifFields {
+  make?: string;
+  model?: string;
+  software?: string;
+  artist?: string;
+  copyright?: string;
+  orientation?: number;
+  dateTime?: Date | string;
+  dateTimeOriginal?: Date | string;
+  latitude?: number;
+  longitude?: number;
+}
+
+const TYPE_BYTE = 1;
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_SOFTWARE = 0x0131;
+const TAG_DATE_TIME = 0x0132;
+const TAG_ARTIST = 0x013b;
+const TAG_COPYRIGHT = 0x8298;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_VERSION = 0x0000;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  value: Uint8Array;
+}
+
+function ascii(tag: number, text: string): IfdEntry {
+  const bytes = encodeUtf8(text);
+  const value = new Uint8Array(bytes.length + 1);
+  value.set(bytes);
+  return { tag, type: TYPE_ASCII, count: value.length, value };
+}
+
+function short(tag: number, values: number[]): IfdEntry {
+  const value = new Uint8Array(values.length * 2);
+  const view = new DataView(value.buffer);
+  values.forEach((v, i) => view.setUint16(i * 2, v));
+  return { tag, type: TYPE_SHORT, count: values.length, value };
+}
+
+function long(tag: number, values: number[]): IfdEntry {
+  const value = new Uint8Array(values.length * 4);
+  const view = new DataView(value.buffer);
+  values.forEach((v, i) => view.setUint32(i * 4, v));
+  return { tag, type: TYPE_LONG, count: values.length, value };
+}
+
+function rational(tag: number, values: [number, number][]): IfdEntry {
+  const value = new Uint8Array(values.length * 8);
+  const view = new DataView(value.buffer);
+  values.forEach(([numerator, denominator], i) => {
+    view.setUint32(i * 8, numerator);
+    view.setUint32(i * 8 + 4, denominator);
+  });
+  return { tag, type: TYPE_RATIONAL, count: values.length, value };
+}
+
+function byte(tag: number, values: number[]): IfdEntry {
+  return {
+    tag,
+    type: TYPE_BYTE,
+    count: values.length,
+    value: new Uint8Array(values),
+  };
+}
+
+/**
+ * Removes the "Exif\0\0" header some containers put before the TIFF
+ * structure, e.g. WebP EXIF chunks written by older encoders.
+ */
+export function stripExifHeader(data: Uint8Array): Uint8Array {
+  return matchesAscii(data, 0, "Exif\0\0") ? data.subarray(6) : data;
+}
+
+/**
+ * Formats a date the way EXIF expects it: "YYYY:MM:DD HH:MM:SS". Strings are
+ * assumed to be in EXIF form already.
+ */
+export function formatExifDate(date: Date | string): string {
+  if (typeof date === "string") return date;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return (
+    `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+}
+
+// Seconds are stored in thousandths. Rounding the whole angle in those
+// units carries a rounded-up 60 seconds into the minutes and degrees
+function toDegreesMinutesSeconds(decimal: number): [number, number][] {
+  const thousandths = Math.round(Math.abs(decimal) * 3600 * 1000);
+  const degrees = Math.floor(thousandths / 3600000);
+  const minutes = Math.floor((thousandths % 3600000) / 60000);
+  const seconds = thousandths % 60000;
+  return [
+    [degrees, 1],
+    [minutes, 1],
+    [seconds, 1000],
+  ];
+}
+
+/**
+ * Serialises one IFD at `offset` (relative to the TIFF header). Values longer
+ * than four bytes are stored right after the entry table.
+ */
+function writeIfd(entries: IfdEntry[], offset: number): Uint8Array {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  const tableSize = 2 + sorted.length * 12 + 4;
+  const overflow = sorted.reduce(
+    (sum, { value }) =>
+      sum + (value.length > 4 ? value.length + (value.length & 1) : 0),
+    0,
+  );
+
+  const output = new Uint8Array(tableSize + overflow);
+  const view = new DataView(output.buffer);
+  view.setUint16(0, sorted.length);
+
+  let dataOffset = tableSize;
+  sorted.forEach(({ tag, type, count, value }, i) => {
+    const entry = 2 + i * 12;
+    view.setUint16(entry, tag);
+    view.setUint16(entry + 2, type);
+    view.setUint32(entry + 4, count);
+    if (value.length <= 4) {
+      output.set(value, entry + 8);
+    } else {
+      view.setUint32(entry + 8, offset + dataOffset);
+      output.set(value, dataOffset);
+      dataOffset += value.length + (value.length & 1);
+    }
+  });
+  // The next-IFD offset stays 0: there is no thumbnail IFD
+  return output;
+}
+
+function ifdSize(entries: IfdEntry[]): number {
+  return writeIfd(entries, 0).length;
+}
+
+/**
+ * Builds a TIFF-structured EXIF block containing only the given fields, or
+ * returns null when there is nothing to write.
+ */
+export function buildExif(fields: ExifFields): Uint8Array<ArrayBuffer> | null {
+  const ifd0: IfdEntry[] = [];
+  if (fields.make) ifd0.push(ascii(TAG_MAKE, fields.make));
+  if (fields.model) ifd0.push(ascii(TAG_MODEL, fields.model));
+  if (fields.orientation) {
+    ifd0.push(short(TAG_ORIENTATION, [fields.orientation]));
+  }
+  if (fields.software) ifd0.push(ascii(TAG_SOFTWARE, fields.software));
+  if (fields.dateTime) {
+    ifd0.push(ascii(TAG_DATE_TIME, formatExifDate(fields.dateTime)));
+  }
+  if (fields.artist) ifd0.push(ascii(TAG_ARTIST, fields.artist));
+  if (fields.copyright) ifd0.push(ascii(TAG_COPYRIGHT, fields.copyright));
+
+  const exifIfd: IfdEntry[] = [];
+  if (fields.dateTimeOriginal) {
+    exifIfd.push(
+      ascii(TAG_DATE_TIME_ORIGINAL, formatExifDate(fields.dateTimeOriginal)),
+    );
+  }
+
+  const gpsIfd: IfdEntry[] = [];
+  if (fields.latitude !== undefined && fields.longitude !== undefined) {
+    gpsIfd.push(
+      byte(TAG_GPS_VERSION, [2, 3, 0, 0]),
+      ascii(TAG_GPS_LATITUDE_REF, fields.latitude < 0 ? "S" : "N"),
+      rational(TAG_GPS_LATITUDE, toDegreesMinutesSeconds(fields.latitude)),
+      ascii(TAG_GPS_LONGITUDE_REF, fields.longitude < 0 ? "W" : "E"),
+      rational(TAG_GPS_LONGITUDE, toDegreesMinutesSeconds(fields.longitude)),
+    );
+  }
+
+  if (ifd0.length + exifIfd.length + gpsIfd.length === 0) return null;
+
+  // Pointer entries are added with placeholder offsets first so that the
+  // size of IFD0 is known before the sub-IFDs are laid out behind it
+  if (exifIfd.length > 0) ifd0.push(long(TAG_EXIF_IFD, [0]));
+  if (gpsIfd.length > 0) ifd0.push(long(TAG_GPS_IFD, [0]));
+
+  const header = new Uint8Array([0x4d, 0x4d, 0x00, 0x2a, 0, 0, 0, 8]);
+  let offset = header.length + ifdSize(ifd0);
+  const subIfds: Uint8Array[] = [];
+
+  for (const [tag, entries] of [
+    [TAG_EXIF_IFD, exifIfd],
+    [TAG_GPS_IFD, gpsIfd],
+  ] as const) {
+    if (entries.length === 0) continue;
+    const index = ifd0.findIndex((entry) => entry.tag === tag);
+    ifd0[index] = long(tag, [offset]);
+    const written = writeIfd(entries, offset);
+    subIfds.push(written);
+    offset += written.length;
+  }
+
+  return concatBytes([header, writeIfd(ifd0, header.length), ...subIfds]);
+}
@@ -0,0 +1,102 @@
+// ICC profile reader. Only the header and the description tag are parsed,
+// which is enough to tell the user which colour space the image is in.
+
+import { matchesAscii } from "./bytes";
+
+const HEADER_SIZE = 128;
+const TAG_ENTRY_SIZE = 12;
+
+export interface IccProfileInfo {
+  // Human-readable name, e.g. "Display P3" or "Adobe RGB (1998)"
+  description?: string;
+  // Data colour space signature, e.g. "RGB", "GRAY" or "CMYK"
+  colorSpace: string;
+  // Size of the embedded profile in bytes
+  size: number;
+}
+
+function readAscii(bytes: Uint8Array, start: number, end: number): string {
+  let text = "";
+  for (let i = start; i < end && i < bytes.length; i++) {
+    const code = bytes[i] as number;
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+}
+
+function readUtf16(view: DataView, start: number, length: number): string {
+  let text = "";
+  for (let i = 0; i + 1 < length && start + i + 2 <= view.byteLength; i += 2) {
+    const code = view.getUint16(start + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+}
+
+/**
+ * Reads the text of a "desc" tag, which is either the ICC v2 textDescription
+ * type or the v4 multiLocalizedUnicode type (the first record is used).
+ */
+function readDescription(
+  bytes: Uint8Array,
+  view: DataView,
+  offset: number,
+  size: number,
+): string | undefined {
+  const end = Math.min(offset + size, bytes.length);
+  if (matchesAscii(bytes, offset, "desc", end) && offset + 12 <= end) {
+    const count = view.getUint32(offset + 8);
+    return readAscii(bytes, offset + 12, Math.min(offset + 12 + count, end));
+  }
+  if (matchesAscii(bytes, offset, "mluc", end) && offset + 28 <= end) {
+    const length = view.getUint32(offset + 20);
+    const start = offset + view.getUint32(offset + 24);
+    return readUtf16(view, start, Math.min(length, end - start));
+  }
+  return undefined;
+}
+
+/**
+ * Summarises an ICC profile. Returns null when the bytes are too short to be
+ * one.
+ */
+export function describeIccProfile(profile: Uint8Array): IccProfileInfo | null {
+  if (profile.length < HEADER_SIZE + 4) return null;
+
+  const view = new DataView(
+    profile.buffer,
+    profile.byteOffset,
+    profile.byteLength,
+  );
+  const info: IccProfileInfo = {
+    colorSpace: readAscii(profile, 16, 20).trim(),
+    size: profile.length,
+  };
+
+  const tagCount = view.getUint32(HEADER_SIZE);
+  for (let i = 0; i < tagCount; i++) {
+    const entry = HEADER_SIZE + 4 + i * TAG_ENTRY_SIZE;
+    if (entry + TAG_ENTRY_SIZE > profile.length) break;
+    if (!matchesAscii(profile, entry, "desc")) continue;
+
+    const description = readDescription(
+      profile,
+      view,
+      view.getUint32(entry + 4),
+      view.getUint32(entry + 8),
+    );
+    if (description) info.description = description.trim();
+    break;
+  }
+  return info;
+}
+
+/**
+ * sRGB profiles describe what browsers assume for untagged images anyway, so
+ * converting to sRGB needs no re-encode.
+ */
+export function isSrgbProfile(info: IccProfileInfo): boolean {
+  return /\bsRGB\b/i.test(info.description ?? "");
+}
@@ -0,0 +1,963 @@
+import type { ImageMimeType } from "@canva/asset";
+import exifr from "exifr";
+import type { MetadataBlock, MetadataBlockType } from "./blocks";
+import { encodeUtf8 } from "./bytes";
+import type { ContentCredentials } from "./c2pa";
+import { readContentCredentials } from "./c2pa";
+import { encodePixels, measureImage, reencodeWithCanvas } from "./canvas";
+import type { ExifFields } from "./exif";
+import { buildExif, stripExifHeader } from "./exif";
+import type { IccProfileInfo } from "./icc";
+import { describeIccProfile, isSrgbProfile } from "./icc";
+import {
+  cleanJpeg,
+  insertJpegExif,
+  insertJpegJumbf,
+  insertJpegXmp,
+  isJpeg,
+  listJpegMetadataBlocks,
+  readJpegComments,
+  readJpegIccProfile,
+  readJpegJumbf,
+} from "./jpeg";
+import { isValidOrientation, orientImage } from "./orientation";
+import type { Redaction } from "./redaction";
+import {
+  estimateEncodedSize,
+  fitImage,
+  getScaledSize,
+  renderImage,
+} from "./render";
+import {
+  cleanPng,
+  insertPngExif,
+  insertPngIccProfile,
+  insertPngJumbf,
+  insertPngXmp,
+  isPng,
+  listPngMetadataBlocks,
+  readPngIccProfile,
+  readPngJumbf,
+  readPngText,
+} from "./png";
+import type { PngTextEntry } from "./png";
+import type { EmbeddedPreview, PreviewSource } from "./previews";
+import type { TiffPage } from "./tiff";
+import {
+  decodeTiff,
+  isTiff,
+  listTiffPages,
+  readTiffIccProfile,
+  selectTiffPage,
+} from "./tiff";
+import type { TrailerKind, TrailingData } from "./trailer";
+import { findTrailingData } from "./trailer";
+import {
+  cleanWebp,
+  insertWebpExif,
+  insertWebpXmp,
+  isWebp,
+  listWebpMetadataBlocks,
+  readWebpChunks,
+  readWebpIccProfile,
+} from "./webp";
+import { cleanInWorker, renderTiffPageInWorker } from "./worker";
+
+export type {
+  ContentCredentials,
+  EmbeddedPreview,
+  ExifFields,
+  IccProfileInfo,
+  MetadataBlock,
+  MetadataBlockType,
+  PreviewSource,
+  Redaction,
+  TiffPage,
+  TrailerKind,
+  TrailingData,
+};
+export { METADATA_BLOCK_TYPES } from "./blocks";
+export { sampleLuminance } from "./canvas";
+export { formatExifDate } from "./exif";
+export { isValidOrientation, orientImage } from "./orientation";
+export { PNG_XMP_KEYWORD } from "./png";
+export { extractEmbeddedPreviews } from "./previews";
+export type {
+  RedactionEffect,
+  RedactionPoint,
+  RedactionShape,
+} from "./redaction";
+export { applyRedactions, traceRedactionShape } from "./redaction";
+export { findTrailingData } from "./trailer";
+export type { WorkerRequest, WorkerResponse, WorkerResults } from "./worker";
+export { blobToDataUrl, readMetadataInWorker } from "./worker";
+
+// Free-form text stored outside EXIF, XMP and IPTC
+export type EmbeddedText = PngTextEntry;
+
+export type CleaningMethod = "lossless" | "reencoded";
+
+// What to do with an embedded ICC colour profile
+export type ColorProfileMode = "keep" | "convert";
+
+// What happened to the source profile: kept as is, baked into sRGB pixels, or
+// lost because the output could not carry it
+export type ColorProfileOutcome = "kept" | "converted" | "dropped";
+
+// What to do with C2PA Content Credentials
+export type ContentCredentialsMode = "keep" | "remove";
+
+// What happened to the source's Content Credentials: written back unchanged,
+// removed as asked, or lost because the output could not carry them or the
+// image was redacted
+export type ContentCredentialsOutcome = "kept" | "removed" | "dropped";
+
+// Format of the cleaned file: the source's own, or a conversion
+export type OutputFormat = "original" | "jpeg" | "png" | "webp";
+
+export interface OutputSettings {
+  format: OutputFormat;
+  // Encoder quality (0-1) for JPEG and WebP, used whenever the image is
+  // re-encoded
+  quality: number;
+  // Longest side of the output in pixels, or null for full resolution
+  maxSize: number | null;
+  // File size in bytes the output must fit under, or null for no limit
+  targetSize: number | null;
+}
+
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  format: "original",
+  quality: 0.95,
+  maxSize: null,
+  targetSize: null,
+};
+
+// Whether the output fits under `targetSize`, with the encoder quality it
+// settled on (null when the pixels were copied or are lossless), or why it
+// cannot fit: the metadata written back is over the target by itself, or
+// even the smallest size at the lowest quality is. `minimumSize` is the
+// smallest file that could be made
+export type SizeFit =
+  | { met: true; quality: number | null }
+  | { met: false; reason: "metadata" | "limit"; minimumSize: number };
+
+const OUTPUT_MIME_TYPES: Record<
+  Exclude<OutputFormat, "original">,
+  ImageMimeType
+> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+};
+
+// Output of estimateCleanedImage
+export interface OutputEstimate {
+  width: number;
+  height: number;
+  mimeType: ImageMimeType;
+  // Estimated file size in bytes, before any kept metadata is written back
+  size: number;
+}
+
+// Steps of cleanImage, reported through `onProgress`
+export type CleanStage = "stripping" | "redrawing" | "finishing" | "fitting";
+
+export interface CleanResult {
+  blob: Blob;
+  mimeType: ImageMimeType;
+  width: number;
+  height: number;
+  method: CleaningMethod;
+  // True when the fields passed in `keepExif` were written back
+  exifRewritten: boolean;
+  // True when the packet passed in `xmp` was written
+  xmpWritten: boolean;
+  // Null when the source had no colour profile
+  colorProfile: ColorProfileOutcome | null;
+  // Null when the source had no Content Credentials
+  contentCredentials: ContentCredentialsOutcome | null;
+  // Null when the output settings set no target size
+  sizeFit: SizeFit | null;
+}
+
+export interface CleanOptions {
+  // Page to extract from multi-page TIFF files
+  tiffPage?: number;
+  // Fields to write back into the cleaned file as a fresh EXIF block
+  keepExif?: ExifFields;
+  // XMP packet to write into the cleaned file
+  xmp?: string;
+  // EXIF orientation (1-8) of the source file, applied to the pixels
+  orientation?: number;
+  // Keep the embedded colour profile (default) or convert the pixels to sRGB
+  colorProfile?: ColorProfileMode;
+  // Remove C2PA Content Credentials (default) or write them back unchanged.
+  // They are always removed from redacted images
+  contentCredentials?: ContentCredentialsMode;
+  // Regions of the upright image to blur, pixelate or fill
+  redactions?: readonly Redaction[];
+  // Format, quality and size of the cleaned file
+  output?: OutputSettings;
+  onProgress?: (stage: CleanStage) => void;
+}
+
+type StrippedImage = Omit<
+  CleanResult,
+  | "exifRewritten"
+  | "xmpWritten"
+  | "colorProfile"
+  | "contentCredentials"
+  | "sizeFit"
+> & {
+  // False when the pixels are still in stored order and need rotating
+  upright: boolean;
+  // True once the browser has drawn the pixels, converting them to sRGB
+  colorManaged: boolean;
+  // True when the output still carries the source colour profile
+  hasIcc: boolean;
+};
+
+/**
+ * Formats that may hold transparency are re-encoded in a format that keeps it.
+ */
+function getReencodeMimeType(mimeType: string): ImageMimeType {
+  switch (mimeType) {
+    case "image/png":
+    case "image/webp":
+      return mimeType;
+    default:
+      return "image/jpeg";
+  }
+}
+
+/**
+ * Browsers that cannot encode the requested type fall back to PNG, so the
+ * blob's own type is the real output format.
+ */
+function getEncodedMimeType({ type }: { type: string }): ImageMimeType {
+  return type === "image/webp" || type === "image/jpeg" ? type : "image/png";
+}
+
+/**
+ * The type the cleaned file is encoded in, given the source's own type.
+ */
+function getOutputMimeType(
+  format: OutputFormat,
+  sourceMimeType: ImageMimeType,
+): ImageMimeType {
+  return format === "original" ? sourceMimeType : OUTPUT_MIME_TYPES[format];
+}
+
+/**
+ * Runs the byte-level cleaner matching the file's signature. Returns null when
+ * the format is not supported or its structure could not be parsed.
+ */
+function cleanLossless(
+  bytes: Uint8Array,
+  keepIcc = true,
+): { bytes: Uint8Array<ArrayBuffer>; mimeType: ImageMimeType } | null {
+  try {
+    if (isJpeg(bytes)) {
+      return { bytes: cleanJpeg(bytes, { keepIcc }), mimeType: "image/jpeg" };
+    }
+    if (isPng(bytes)) {
+      return { bytes: cleanPng(bytes, { keepIcc }), mimeType: "image/png" };
+    }
+    if (isWebp(bytes)) {
+      return { bytes: cleanWebp(bytes, { keepIcc }), mimeType: "image/webp" };
+    }
+  } catch {
+    // Malformed or unusual structure: the caller falls back to re-encoding
+  }
+  return null;
+}
+
+/**
+ * Returns the pages of a TIFF file, or an empty list for any other format.
+ */
+export async function getTiffPages(file: Blob): Promise<TiffPage[]> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isTiff(bytes)) return [];
+  try {
+    return listTiffPages(bytes);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Returns the file with the given TIFF page moved to the front, so metadata
+ * readers see that page's tags, since each page has its own. Any other
+ * format, or a page that cannot be found, returns the file unchanged.
+ */
+export async function getTiffPageFile(file: File, page: number): Promise<File> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isTiff(bytes)) return file;
+  try {
+    return new File([selectTiffPage(bytes, page)], file.name, {
+      type: file.type,
+      lastModified: file.lastModified,
+    });
+  } catch {
+    return file;
+  }
+}
+
+/**
+ * Extracts the embedded ICC profile, or returns null when there is none or it
+ * cannot be read.
+ */
+async function readIccProfile(
+  bytes: Uint8Array,
+  tiffPage: number,
+): Promise<Uint8Array | null> {
+  try {
+    if (isJpeg(bytes)) return readJpegIccProfile(bytes);
+    if (isPng(bytes)) return await readPngIccProfile(bytes);
+    if (isWebp(bytes)) return readWebpIccProfile(bytes);
+    if (isTiff(bytes)) return readTiffIccProfile(bytes, tiffPage);
+  } catch {
+    // Treat an unreadable profile as no profile
+  }
+  return null;
+}
+
+/**
+ * Describes the embedded colour profile of a file's bytes, or returns null
+ * when it has none.
+ */
+export async function describeColorProfile(
+  bytes: Uint8Array,
+  tiffPage = 0,
+): Promise<IccProfileInfo | null> {
+  const profile = await readIccProfile(bytes, tiffPage);
+  return profile ? describeIccProfile(profile) : null;
+}
+
+/**
+ * Describes the file's embedded colour profile, or returns null when it has
+ * none.
+ */
+export async function getColorProfile(
+  file: Blob,
+  tiffPage = 0,
+): Promise<IccProfileInfo | null> {
+  return describeColorProfile(
+    new Uint8Array(await file.arrayBuffer()),
+    tiffPage,
+  );
+}
+
+/**
+ * Reads free-form text that exifr does not report: JPEG comments (under the
+ * keyword "Comment") and PNG tEXt, zTXt and iTXt chunks.
+ */
+export async function readEmbeddedText(
+  bytes: Uint8Array,
+): Promise<EmbeddedText[]> {
+  try {
+    if (isJpeg(bytes)) {
+      return readJpegComments(bytes).map((text) => ({
+        keyword: "Comment",
+        text,
+      }));
+    }
+    if (isPng(bytes)) return await readPngText(bytes);
+  } catch {
+    // Malformed files have no readable text
+  }
+  return [];
+}
+
+/**
+ * Returns the EXIF and XMP chunk payloads of a WebP file, since exifr has no
+ * WebP parser. The EXIF payload is a bare TIFF structure, without any "Exif"
+ * header, which exifr can parse. Other formats give an empty object.
+ */
+export function readWebpMetadata(bytes: Uint8Array): {
+  exif?: Uint8Array;
+  xmp?: Uint8Array;
+} {
+  if (!isWebp(bytes)) return {};
+  try {
+    const chunks = readWebpChunks(bytes);
+    const exif = chunks.find(({ type }) => type === "EXIF")?.data;
+    return {
+      exif: exif && stripExifHeader(exif),
+      xmp: chunks.find(({ type }) => type === "XMP ")?.data,
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Returns the JUMBF boxes of a JPEG (APP11) or PNG (caBX) file, or an empty
+ * list for any other format.
+ */
+function readJumbfBoxes(bytes: Uint8Array): Uint8Array[] {
+  try {
+    if (isJpeg(bytes)) return readJpegJumbf(bytes);
+    if (isPng(bytes)) return readPngJumbf(bytes);
+  } catch {
+    // Malformed files have no readable boxes
+  }
+  return [];
+}
+
+/**
+ * Returns the JUMBF box holding the file's C2PA manifest store, with its
+ * summary, or null when the file has none.
+ */
+function findManifestStore(
+  bytes: Uint8Array,
+): { box: Uint8Array; credentials: ContentCredentials } | null {
+  for (const box of readJumbfBoxes(bytes)) {
+    const credentials = readContentCredentials(box);
+    if (credentials) return { box, credentials };
+  }
+  return null;
+}
+
+/**
+ * Summarises the C2PA Content Credentials of a file's bytes, or returns null
+ * when it has none.
+ */
+export function describeContentCredentials(
+  bytes: Uint8Array,
+): ContentCredentials | null {
+  return findManifestStore(bytes)?.credentials ?? null;
+}
+
+/**
+ * Summarises the file's C2PA Content Credentials, or returns null when it has
+ * none.
+ */
+export async function getContentCredentials(
+  file: Blob,
+): Promise<ContentCredentials | null> {
+  return describeContentCredentials(new Uint8Array(await file.arrayBuffer()));
+}
+
+/**
+ * Estimates the format, pixel size and file size cleanImage would give with
+ * these output settings, without cleaning the file. `redrawn` says the image
+ * is redrawn anyway, e.g. to rotate it or burn in redactions. Returns null
+ * when the browser cannot decode the image, e.g. a TIFF.
+ */
+export async function estimateCleanedImage(
+  file: Blob,
+  output: OutputSettings,
+  redrawn = false,
+): Promise<OutputEstimate | null> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const lossless = cleanLossless(bytes);
+  try {
+    const { width, height } = await measureImage(file);
+    const scaled = getScaledSize(width, height, output.maxSize);
+    const mimeType = getOutputMimeType(
+      output.format,
+      lossless?.mimeType ?? getReencodeMimeType(file.type),
+    );
+    // Unchanged pixels are copied as they are, so the size is known exactly
+    if (
+      lossless &&
+      !redrawn &&
+      mimeType === lossless.mimeType &&
+      !isOversized({ width, height }, output.maxSize)
+    ) {
+      return { ...scaled, mimeType, size: lossless.bytes.length };
+    }
+    const encoded = await estimateEncodedSize(
+      file,
+      scaled,
+      mimeType,
+      output.quality,
+    );
+    return {
+      ...scaled,
+      mimeType: getEncodedMimeType(encoded),
+      size: encoded.bytes,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function listContainerBlocks(bytes: Uint8Array): MetadataBlock[] {
+  try {
+    if (isJpeg(bytes)) return listJpegMetadataBlocks(bytes);
+    if (isPng(bytes)) return listPngMetadataBlocks(bytes);
+    if (isWebp(bytes)) return listWebpMetadataBlocks(bytes);
+  } catch {
+    // Fall through to an empty list
+  }
+  return [];
+}
+
+/**
+ * Lists the metadata segments or chunks of a JPEG, PNG or WebP file with their
+ * sizes, followed by any data appended after the image. TIFF keeps its
+ * metadata in the image's own tag directory, so it and malformed files give
+ * an empty list.
+ */
+export function listMetadataBlocks(bytes: Uint8Array): MetadataBlock[] {
+  const blocks = listContainerBlocks(bytes);
+  const trailer = findTrailingData(bytes);
+  return trailer
+    ? [...blocks, { type: "trailer", size: trailer.size }]
+    : blocks;
+}
+
+/**
+ * Renders a TIFF page to PNG, since browsers cannot display TIFF previews.
+ * The page is decoded in the image worker where possible.
+ */
+export async function renderTiffPage(file: Blob, page: number): Promise<Blob> {
+  return (
+    (await renderTiffPageInWorker(file, page)) ??
+    renderTiffPageLocally(file, page)
+  );
+}
+
+/**
+ * Runs renderTiffPage on the current thread. The image worker calls this
+ * directly.
+ */
+export async function renderTiffPageLocally(
+  file: Blob,
+  page: number,
+): Promise<Blob> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return encodePixels(await decodeTiff(bytes, page), "image/png");
+}
+
+/**
+ * TIFF pages are decoded from their image tags only and written out as PNG,
+ * so none of the EXIF, GPS, XMP, IPTC or private tags carry over. The page's
+ * colour profile, if any, is carried over as an iCCP chunk.
+ */
+async function cleanTiff(
+  bytes: Uint8Array,
+  page: number,
+  profile: Uint8Array | null,
+): Promise<StrippedImage> {
+  const decoded = await decodeTiff(bytes, page);
+  let blob = await encodePixels(decoded, "image/png");
+  let hasIcc = false;
+  if (profile) {
+    try {
+      const png = new Uint8Array(await blob.arrayBuffer());
+      blob = new Blob([await insertPngIccProfile(png, profile)], {
+        type: "image/png",
+      });
+      hasIcc = true;
+    } catch {
+      // Without CompressionStream the profile cannot be written
+    }
+  }
+  return {
+    blob,
+    mimeType: "image/png",
+    width: decoded.width,
+    height: decoded.height,
+    method: "reencoded",
+    upright: false,
+    colorManaged: false,
+    hasIcc,
+  };
+}
+
+/**
+ * Rewrites the file at byte level when its container is understood, so the
+ * encoded pixel data is copied untouched. Anything the byte-level cleaners
+ * cannot handle is decoded and re-encoded through a canvas instead.
+ */
+async function stripImage(
+  file: Blob,
+  bytes: Uint8Array,
+  tiffPage: number,
+  profile: Uint8Array | null,
+  output: OutputSettings,
+): Promise<StrippedImage> {
+  if (isTiff(bytes)) {
+    try {
+      return await cleanTiff(bytes, tiffPage, profile);
+    } catch {
+      // Some browsers (Safari) can decode TIFF natively: try re-encoding
+    }
+  }
+
+  const lossless = cleanLossless(bytes);
+  if (lossless) {
+    try {
+      const blob = new Blob([lossless.bytes], { type: lossless.mimeType });
+      const { width, height } = await measureImage(blob);
+      return {
+        blob,
+        mimeType: lossless.mimeType,
+        width,
+        height,
+        method: "lossless",
+        upright: false,
+        colorManaged: false,
+        hasIcc: profile != null,
+      };
+    } catch {
+      // The rewritten file did not decode: fall through to re-encoding
+    }
+  }
+
+  const { blob, width, height } = await reencodeWithCanvas(
+    file,
+    getOutputMimeType(output.format, getReencodeMimeType(file.type)),
+    output.quality,
+  );
+  return {
+    blob,
+    mimeType: getEncodedMimeType(blob),
+    width,
+    height,
+    method: "reencoded",
+    // exifr reports whether this browser leaves rotation to the caller
+    upright: !exifr.rotateCanvas,
+    colorManaged: true,
+    hasIcc: false,
+  };
+}
+
+function isOversized(
+  { width, height }: { width: number; height: number },
+  maxSize: number | null,
+): boolean {
+  return maxSize != null && Math.max(width, height) > maxSize;
+}
+
+/**
+ * Redraws the stripped pixels through a canvas, rotating and flipping them for
+ * the given orientation, burning in any redactions and shrinking and encoding
+ * them as the output settings ask. Browsers colour-manage images drawn onto a
+ * canvas, so this also converts the pixels from the embedded profile to sRGB.
+ */
+async function redrawImage(
+  image: StrippedImage,
+  orientation: number,
+  redactions: readonly Redaction[],
+  { format, quality, maxSize }: OutputSettings,
+): Promise<StrippedImage> {
+  const mimeType = getOutputMimeType(format, image.mimeType);
+  // A plain rotation only turns the pixels; anything more is a full render
+  const { blob, width, height } =
+    redactions.length === 0 &&
+    mimeType === image.mimeType &&
+    !isOversized(image, maxSize)
+      ? await orientImage(image.blob, orientation, mimeType, quality)
+      : await renderImage(image.blob, {
+          orientation,
+          redactions,
+          maxSize,
+          mimeType,
+          quality,
+        });
+  return {
+    blob,
+    mimeType: getEncodedMimeType(blob),
+    width,
+    height,
+    method: "reencoded",
+    upright: true,
+    colorManaged: true,
+    hasIcc: false,
+  };
+}
+
+/**
+ * Removes any colour profile from the output, e.g. one a browser's encoder
+ * added, so that no profile contradicts pixels that are already sRGB.
+ */
+async function dropIccProfile(image: StrippedImage): Promise<StrippedImage> {
+  const bytes = new Uint8Array(await image.blob.arrayBuffer());
+  const cleaned = cleanLossless(bytes, false);
+  if (!cleaned) return image;
+  return {
+    ...image,
+    blob: new Blob([cleaned.bytes], { type: cleaned.mimeType }),
+    hasIcc: false,
+  };
+}
+
+type MetadataWriter = (
+  bytes: Uint8Array,
+  payload: Uint8Array,
+) => Uint8Array<ArrayBuffer>;
+
+const EXIF_WRITERS: Partial<Record<ImageMimeType, MetadataWriter>> = {
+  "image/jpeg": insertJpegExif,
+  "image/png": insertPngExif,
+  "image/webp": insertWebpExif,
+};
+
+const XMP_WRITERS: Partial<Record<ImageMimeType, MetadataWriter>> = {
+  "image/jpeg": insertJpegXmp,
+  "image/png": insertPngXmp,
+  "image/webp": insertWebpXmp,
+};
+
+const JUMBF_WRITERS: Partial<Record<ImageMimeType, MetadataWriter>> = {
+  "image/jpeg": insertJpegJumbf,
+  "image/png": insertPngJumbf,
+};
+
+/**
+ * Writes a fresh metadata block into an already stripped file. Returns null
+ * when the output format cannot carry it.
+ */
+async function embedMetadata(
+  image: Pick<CleanResult, "blob" | "mimeType">,
+  writers: Partial<Record<ImageMimeType, MetadataWriter>>,
+  payload: Uint8Array,
+): Promise<Blob | null> {
+  const write = writers[image.mimeType];
+  if (!write) return null;
+
+  try {
+    const bytes = new Uint8Array(await image.blob.arrayBuffer());
+    return new Blob([write(bytes, payload)], { type: image.mimeType });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * C2PA manifests usually embed a thumbnail of the original image, and
+ * sometimes of its ingredients, so keeping them in a redacted image would
+ * carry an unredacted copy of the picture.
+ */
+export function canKeepContentCredentials(
+  redactions: readonly Redaction[],
+): boolean {
+  return redactions.length === 0;
+}
+
+// What finishImage writes back into the stripped image
+interface FinishOptions {
+  profile: Uint8Array | null;
+  convert: boolean;
+  keepExif?: ExifFields;
+  xmp?: string;
+  manifestStore: ReturnType<typeof findManifestStore>;
+  contentCredentials: ContentCredentialsMode;
+  redactions: readonly Redaction[];
+}
+
+/**
+ * Writes the kept EXIF fields, XMP packet and Content Credentials into the
+ * stripped image and reports what became of each.
+ */
+async function finishImage(
+  image: StrippedImage,
+  {
+    profile,
+    convert,
+    keepExif,
+    xmp,
+    manifestStore,
+    contentCredentials,
+    redactions,
+  }: FinishOptions,
+): Promise<Omit<CleanResult, "sizeFit">> {
+  const { upright: _upright, colorManaged, hasIcc, ...stripped } = image;
+  const colorProfileOutcome: ColorProfileOutcome | null = !profile
+    ? null
+    : colorManaged || convert
+      ? "converted"
+      : hasIcc
+        ? "kept"
+        : "dropped";
+
+  const tiff = keepExif
+    ? buildExif({ ...keepExif, orientation: undefined })
+    : null;
+  const withExif = tiff
+    ? await embedMetadata(stripped, EXIF_WRITERS, tiff)
+    : null;
+  const withXmp = xmp
+    ? await embedMetadata(
+        { ...stripped, blob: withExif ?? stripped.blob },
+        XMP_WRITERS,
+        encodeUtf8(xmp),
+      )
+    : null;
+  // The manifest is copied as is. Its signature covers the original bytes,
+  // so C2PA validators will report the file as changed after signing
+  const withCredentials =
+    manifestStore &&
+    contentCredentials === "keep" &&
+    canKeepContentCredentials(redactions)
+      ? await embedMetadata(
+          { ...stripped, blob: withXmp ?? withExif ?? stripped.blob },
+          JUMBF_WRITERS,
+          manifestStore.box,
+        )
+      : null;
+  const contentCredentialsOutcome: ContentCredentialsOutcome | null =
+    !manifestStore
+      ? null
+      : contentCredentials === "remove"
+        ? "removed"
+        : withCredentials
+          ? "kept"
+          : "dropped";
+  return {
+    ...stripped,
+    blob: withCredentials ?? withXmp ?? withExif ?? stripped.blob,
+    exifRewritten: withExif != null,
+    xmpWritten: withXmp != null,
+    colorProfile: colorProfileOutcome,
+    contentCredentials: contentCredentialsOutcome,
+  };
+}
+
+/**
+ * Removes all metadata from the file, then writes back only the fields listed
+ * in `keepExif`, the packet in `xmp` and, when asked to keep them and nothing
+ * is redacted, the C2PA Content Credentials, so nothing the caller did not
+ * choose to keep survives.
+ * The source orientation is baked into the pixels, so the output never
+ * carries an Orientation tag.
+ *
+ * Rotating the pixels, converting them to sRGB or burning in redactions costs
+ * a re-encode, but the Orientation tag is gone after stripping, so leaving
+ * the pixels in stored order would show the photo sideways.
+ *
+ * When the output settings set a target size and the cleaned file is larger,
+ * the image is encoded again from the stripped pixels, lowering the quality
+ * and then the size until the file, metadata included, fits.
+ *
+ * All of this runs in the image worker where possible, and on the main
+ * thread otherwise.
+ */
+export async function cleanImage(
+  file: Blob,
+  options: CleanOptions = {},
+): Promise<CleanResult> {
+  return (
+    (await cleanInWorker(file, options)) ?? cleanImageLocally(file, options)
+  );
+}
+
+/**
+ * Runs cleanImage on the current thread. The image worker calls this
+ * directly.
+ */
+export async function cleanImageLocally(
+  file: Blob,
+  {
+    tiffPage = 0,
+    keepExif,
+    xmp,
+    orientation,
+    colorProfile = "keep",
+    contentCredentials = "remove",
+    redactions = [],
+    output = DEFAULT_OUTPUT_SETTINGS,
+    onProgress,
+  }: CleanOptions = {},
+): Promise<CleanResult> {
+  onProgress?.("stripping");
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const profile = await readIccProfile(bytes, tiffPage);
+  const profileInfo = profile ? describeIccProfile(profile) : null;
+  const convert = colorProfile === "convert" && profile != null;
+  const finishOptions: FinishOptions = {
+    profile,
+    convert,
+    keepExif,
+    xmp,
+    manifestStore: findManifestStore(bytes),
+    contentCredentials,
+    redactions,
+  };
+
+  // Kept so a target size is fitted from these pixels, not a lossy redraw
+  const source = await stripImage(file, bytes, tiffPage, profile, output);
+  let image = source;
+  const rotate =
+    !image.upright && isValidOrientation(orientation) && orientation !== 1;
+  const redrawOrientation = rotate ? (orientation as number) : 1;
+  // Pixels tagged as sRGB are already what an untagged file means
+  const srgb = profileInfo != null && isSrgbProfile(profileInfo);
+  // Redactions are drawn on the full-resolution pixels, never a preview
+  const redact = redactions.length > 0;
+  const reshape =
+    getOutputMimeType(output.format, image.mimeType) !== image.mimeType ||
+    isOversized(image, output.maxSize);
+  if (
+    rotate ||
+    redact ||
+    reshape ||
+    (convert && !srgb && !image.colorManaged)
+  ) {
+    onProgress?.("redrawing");
+    image = await redrawImage(image, redrawOrientation, redactions, output);
+  }
+  if (image.colorManaged || convert) {
+    image = await dropIccProfile(image);
+  }
+  onProgress?.("finishing");
+  const result = await finishImage(image, finishOptions);
+
+  const { targetSize } = output;
+  if (targetSize == null) return { ...result, sizeFit: null };
+  if (result.blob.size <= targetSize) {
+    const copied =
+      image.method === "lossless" || image.mimeType === "image/png";
+    return {
+      ...result,
+      sizeFit: { met: true, quality: copied ? null : output.quality },
+    };
+  }
+
+  onProgress?.("fitting");
+  // Metadata written back does not shrink with the image
+  const overhead = result.blob.size - image.blob.size;
+  const budget = targetSize - overhead;
+  if (budget <= 0) {
+    return {
+      ...result,
+      sizeFit: { met: false, reason: "metadata", minimumSize: overhead },
+    };
+  }
+  const fitted = await fitImage(source.blob, budget, {
+    orientation: redrawOrientation,
+    redactions,
+    maxSize: output.maxSize,
+    mimeType: getOutputMimeType(output.format, source.mimeType),
+    quality: output.quality,
+  });
+  if (!fitted.fits) {
+    return {
+      ...result,
+      sizeFit: {
+        met: false,
+        reason: "limit",
+        minimumSize: fitted.blob.size + overhead,
+      },
+    };
+  }
+  const refitted = await dropIccProfile({
+    blob: fitted.blob,
+    mimeType: getEncodedMimeType(fitted.blob),
+    width: fitted.width,
+    height: fitted.height,
+    method: "reencoded",
+    upright: true,
+    colorManaged: true,
+    hasIcc: false,
+  });
+  return {
+    ...(await finishImage(refitted, finishOptions)),
+    sizeFit: { met: true, quality: fitted.quality },
+  };
+}
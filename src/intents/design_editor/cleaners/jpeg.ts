@@ -0,0 +1,516 @@
+// Byte-level JPEG cleaner. Walks the marker stream and rebuilds the file from
+// the segments that are needed to decode the image, copying the entropy-coded
+// scan data untouched so the pixels are never re-encoded.
+
+import type { MetadataBlock, MetadataBlockType } from "./blocks";
+import { concatBytes, decodeLatin1, matchesAscii } from "./bytes";
+
+const MARKER_PREFIX = 0xff;
+const SOI = 0xd8;
+const EOI = 0xd9;
+const SOS = 0xda;
+const TEM = 0x01;
+const RST0 = 0xd0;
+const RST7 = 0xd7;
+const APP0 = 0xe0;
+const APP1 = 0xe1;
+const APP2 = 0xe2;
+const APP11 = 0xeb;
+const APP13 = 0xed;
+const APP14 = 0xee;
+const APP15 = 0xef;
+const COM = 0xfe;
+
+const JFIF_ID = "JFIF\0";
+const EXIF_ID = "Exif\0\0";
+const XMP_ID = "http://ns.adobe.com/xap/1.0/\0";
+const XMP_EXTENSION_ID = "http://ns.adobe.com/xmp/extension/\0";
+const PHOTOSHOP_ID = "Photoshop 3.0\0";
+const ICC_ID = "ICC_PROFILE\0";
+const ADOBE_ID = "Adobe";
+// Common identifier of APP11 segments carrying JUMBF boxes, such as C2PA
+// manifest stores
+const JUMBF_ID = "JP";
+// "JP", box instance number (2 bytes) and packet sequence number (4 bytes)
+const JUMBF_SEGMENT_HEADER = 8;
+
+// Length of an APP0 JFIF segment payload without its embedded thumbnail:
+// identifier (5), version (2), units (1), densities (4), thumbnail size (2).
+const JFIF_PAYLOAD_LENGTH = 14;
+
+export interface JpegCleanOptions {
+  // Keeps the APP2 ICC profile segments (on by default)
+  keepIcc?: boolean;
+}
+
+export function isJpeg(bytes: Uint8Array): boolean {
+  return (
+    bytes.length > 3 &&
+    bytes[0] === MARKER_PREFIX &&
+    bytes[1] === SOI &&
+    bytes[2] === MARKER_PREFIX
+  );
+}
+
+function isStandalone(marker: number): boolean {
+  return marker === TEM || (marker >= RST0 && marker <= RST7);
+}
+
+/**
+ * Decides whether an APPn or COM segment survives cleaning. APP0 JFIF and
+ * APP14 Adobe are kept because decoders need them to interpret the colour
+ * data, and APP2 is kept only when it carries an ICC profile chunk and the
+ * caller wants the profile.
+ */
+function keepSegment(
+  marker: number,
+  bytes: Uint8Array,
+  payloadStart: number,
+  payloadEnd: number,
+  keepIcc: boolean,
+): boolean {
+  if (marker === COM) return false;
+  if (marker < APP0 || marker > APP15) return true;
+
+  switch (marker) {
+    case APP0:
+      return matchesAscii(bytes, payloadStart, JFIF_ID, payloadEnd);
+    case APP2:
+      return keepIcc && matchesAscii(bytes, payloadStart, ICC_ID, payloadEnd);
+    case APP14:
+      return matchesAscii(bytes, payloadStart, ADOBE_ID, payloadEnd);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Returns the offset of the first marker after entropy-coded scan data that
+ * starts at `offset`. Stuffed bytes (FF00) and restart markers belong to the
+ * scan and are skipped over.
+ */
+function findScanEnd(bytes: Uint8Array, offset: number): number {
+  let i = offset;
+  while (i < bytes.length - 1) {
+    if (bytes[i] === MARKER_PREFIX) {
+      const next = bytes[i + 1] as number;
+      if (next === 0x00 || isStandalone(next) || next === MARKER_PREFIX) {
+        i += next === MARKER_PREFIX ? 1 : 2;
+        continue;
+      }
+      return i;
+    }
+    i++;
+  }
+  throw new Error("JPEG scan data is not terminated by a marker");
+}
+
+/**
+ * Removes metadata segments (EXIF, XMP, IPTC/Photoshop, comments and any other
+ * APPn payload) from a JPEG file. Throws if the marker stream is malformed, in
+ * which case callers should fall back to re-encoding.
+ */
+export function cleanJpeg(
+  bytes: Uint8Array,
+  { keepIcc = true }: JpegCleanOptions = {},
+): Uint8Array<ArrayBuffer> {
+  if (!isJpeg(bytes)) {
+    throw new Error("Not a JPEG file");
+  }
+
+  const chunks: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+
+  for (;;) {
+    if (offset >= bytes.length) {
+      throw new Error("JPEG ended before the EOI marker");
+    }
+    if (bytes[offset] !== MARKER_PREFIX) {
+      throw new Error(`Expected a JPEG marker at offset ${offset}`);
+    }
+
+    // Any number of 0xFF fill bytes may precede a marker
+    while (bytes[offset + 1] === MARKER_PREFIX) offset++;
+    const marker = bytes[offset + 1];
+    if (marker === undefined) {
+      throw new Error("JPEG ended inside a marker");
+    }
+
+    if (marker === EOI) {
+      chunks.push(bytes.subarray(offset, offset + 2));
+      break;
+    }
+    if (isStandalone(marker)) {
+      chunks.push(bytes.subarray(offset, offset + 2));
+      offset += 2;
+      continue;
+    }
+
+    const length = ((bytes[offset + 2] ?? 0) << 8) | (bytes[offset + 3] ?? 0);
+    const segmentEnd = offset + 2 + length;
+    if (length < 2 || segmentEnd > bytes.length) {
+      throw new Error(`Invalid JPEG segment length at offset ${offset}`);
+    }
+
+    if (keepSegment(marker, bytes, offset + 4, segmentEnd, keepIcc)) {
+      const segment = bytes.subarray(offset, segmentEnd);
+      chunks.push(marker === APP0 ? stripJfifThumbnail(segment) : segment);
+    }
+    offset = segmentEnd;
+
+    if (marker === SOS) {
+      const scanEnd = findScanEnd(bytes, offset);
+      chunks.push(bytes.subarray(offset, scanEnd));
+      offset = scanEnd;
+    }
+  }
+
+  return concatBytes(chunks);
+}
+
+/**
+ * Returns the offset just past the EOI marker, where the image ends and any
+ * appended data begins. Throws if the marker stream is malformed.
+ */
+export function findJpegEnd(bytes: Uint8Array): number {
+  if (!isJpeg(bytes)) {
+    throw new Error("Not a JPEG file");
+  }
+
+  let offset = 2;
+  for (;;) {
+    if (bytes[offset] !== MARKER_PREFIX) {
+      throw new Error(`Expected a JPEG marker at offset ${offset}`);
+    }
+    while (bytes[offset + 1] === MARKER_PREFIX) offset++;
+    const marker = bytes[offset + 1];
+    if (marker === undefined) {
+      throw new Error("JPEG ended inside a marker");
+    }
+
+    if (marker === EOI) return offset + 2;
+    if (isStandalone(marker)) {
+      offset += 2;
+      continue;
+    }
+
+    const length = ((bytes[offset + 2] ?? 0) << 8) | (bytes[offset + 3] ?? 0);
+    if (length < 2 || offset + 2 + length > bytes.length) {
+      throw new Error(`Invalid JPEG segment length at offset ${offset}`);
+    }
+    offset += 2 + length;
+    if (marker === SOS) offset = findScanEnd(bytes, offset);
+  }
+}
+
+/**
+ * Lists the marker segments ahead of the first scan, which is where all
+ * metadata lives. Stops quietly at anything malformed.
+ */
+function readHeaderSegments(
+  bytes: Uint8Array,
+): { marker: number; payload: number; end: number }[] {
+  const segments: { marker: number; payload: number; end: number }[] = [];
+  if (!isJpeg(bytes)) return segments;
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === MARKER_PREFIX) {
+    const marker = bytes[offset + 1] as number;
+    if (marker === MARKER_PREFIX) {
+      offset++;
+      continue;
+    }
+    if (marker === SOS || marker === EOI) break;
+
+    const length = ((bytes[offset + 2] ?? 0) << 8) | (bytes[offset + 3] ?? 0);
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) break;
+
+    segments.push({ marker, payload: offset + 4, end });
+    offset = end;
+  }
+  return segments;
+}
+
+/**
+ * Reassembles the ICC profile from its APP2 chunks, which may be split across
+ * several segments and carry their own sequence numbers. Returns null when the
+ * file has no profile.
+ */
+export function readJpegIccProfile(bytes: Uint8Array): Uint8Array | null {
+  const chunks = readHeaderSegments(bytes)
+    .filter(
+      ({ marker, payload, end }) =>
+        marker === APP2 && matchesAscii(bytes, payload, ICC_ID, end),
+    )
+    .map(({ payload, end }) => ({
+      // Sequence number (1-based) and chunk count follow the identifier
+      sequence: bytes[payload + ICC_ID.length] ?? 0,
+      data: bytes.subarray(payload + ICC_ID.length + 2, end),
+    }));
+
+  if (chunks.length === 0) return null;
+  chunks.sort((a, b) => a.sequence - b.sequence);
+  return concatBytes(chunks.map(({ data }) => data));
+}
+
+/**
+ * Returns the payload of the first APPn segment with the given marker whose
+ * payload starts with `id`, without the identifier, or null when there is
+ * none.
+ */
+function readAppPayload(
+  bytes: Uint8Array,
+  appMarker: number,
+  id: string,
+): Uint8Array | null {
+  const segment = readHeaderSegments(bytes).find(
+    ({ marker, payload, end }) =>
+      marker === appMarker && matchesAscii(bytes, payload, id, end),
+  );
+  return segment
+    ? bytes.subarray(segment.payload + id.length, segment.end)
+    : null;
+}
+
+// The TIFF data of the EXIF segment
+export function readJpegExif(bytes: Uint8Array): Uint8Array | null {
+  return readAppPayload(bytes, APP1, EXIF_ID);
+}
+
+// The main XMP packet, without any extended XMP
+export function readJpegXmp(bytes: Uint8Array): Uint8Array | null {
+  return readAppPayload(bytes, APP1, XMP_ID);
+}
+
+// The Photoshop image resource blocks, which hold IPTC and previews
+export function readJpegPhotoshop(bytes: Uint8Array): Uint8Array | null {
+  return readAppPayload(bytes, APP13, PHOTOSHOP_ID);
+}
+
+/**
+ * Returns the text of every COM segment, which cameras and editors use for
+ * free-form comments.
+ */
+export function readJpegComments(bytes: Uint8Array): string[] {
+  return readHeaderSegments(bytes)
+    .filter(({ marker }) => marker === COM)
+    .map(({ payload, end }) => decodeLatin1(bytes.subarray(payload, end)));
+}
+
+/**
+ * Classifies an APPn or COM segment, or returns null for segments that hold
+ * no metadata: JFIF and Adobe headers and the image's own tables.
+ */
+function getBlockType(
+  marker: number,
+  bytes: Uint8Array,
+  payload: number,
+  end: number,
+): MetadataBlockType | null {
+  const startsWith = (id: string) => matchesAscii(bytes, payload, id, end);
+  if (marker === COM) return "text";
+  if (marker < APP0 || marker > APP15) return null;
+  if (marker === APP0 && startsWith(JFIF_ID)) return null;
+  if (marker === APP14 && startsWith(ADOBE_ID)) return null;
+  if (marker === APP1 && startsWith(EXIF_ID)) return "exif";
+  if (marker === APP1 && (startsWith(XMP_ID) || startsWith(XMP_EXTENSION_ID))) {
+    return "xmp";
+  }
+  if (marker === APP2 && startsWith(ICC_ID)) return "icc";
+  if (marker === APP13 && startsWith(PHOTOSHOP_ID)) return "iptc";
+  if (marker === APP11 && startsWith(JUMBF_ID)) return "c2pa";
+  return "other";
+}
+
+/**
+ * Lists the metadata segments ahead of the first scan with their full size,
+ * marker and length field included.
+ */
+export function listJpegMetadataBlocks(bytes: Uint8Array): MetadataBlock[] {
+  return readHeaderSegments(bytes).flatMap(({ marker, payload, end }) => {
+    const type = getBlockType(marker, bytes, payload, end);
+    return type ? [{ type, size: end - payload + 4 }] : [];
+  });
+}
+
+/**
+ * JFIF segments may carry an uncompressed RGB thumbnail after the density
+ * fields. The thumbnail is dropped and its declared size reset to 0x0.
+ */
+function stripJfifThumbnail(segment: Uint8Array): Uint8Array {
+  const payloadLength = segment.length - 4;
+  if (payloadLength <= JFIF_PAYLOAD_LENGTH) return segment;
+
+  const trimmed = segment.slice(0, 4 + JFIF_PAYLOAD_LENGTH);
+  const length = JFIF_PAYLOAD_LENGTH + 2;
+  trimmed[2] = length >> 8;
+  trimmed[3] = length & 0xff;
+  trimmed[trimmed.length - 2] = 0;
+  trimmed[trimmed.length - 1] = 0;
+  return trimmed;
+}
+
+/**
+ * Returns the offset just past SOI and any APP0 and APP1 segments, where new
+ * metadata segments go.
+ */
+function findInsertOffset(bytes: Uint8Array): number {
+  let offset = 2;
+  while (
+    bytes[offset] === MARKER_PREFIX &&
+    (bytes[offset + 1] === APP0 || bytes[offset + 1] === APP1)
+  ) {
+    offset += 2 + (((bytes[offset + 2] ?? 0) << 8) | (bytes[offset + 3] ?? 0));
+  }
+  return offset;
+}
+
+/**
+ * Inserts an APP1 segment holding `id` and `payload` after SOI and any APP0
+ * and APP1 segments, so EXIF stays ahead of XMP.
+ */
+function insertApp1(
+  bytes: Uint8Array,
+  id: string,
+  payload: Uint8Array,
+): Uint8Array<ArrayBuffer> {
+  if (!isJpeg(bytes)) {
+    throw new Error("Not a JPEG file");
+  }
+  const length = 2 + id.length + payload.length;
+  if (length > 0xffff) {
+    throw new Error("Metadata is too large for a JPEG segment");
+  }
+
+  const offset = findInsertOffset(bytes);
+  const header = new Uint8Array([
+    MARKER_PREFIX,
+    APP1,
+    length >> 8,
+    length & 0xff,
+  ]);
+  return concatBytes([
+    bytes.subarray(0, offset),
+    header,
+    Uint8Array.from(id, (c) => c.charCodeAt(0)),
+    payload,
+    bytes.subarray(offset),
+  ]);
+}
+
+/**
+ * Inserts an EXIF APP1 segment holding `tiff` after SOI and any APP0 segments.
+ * Expects a file that has already been cleaned.
+ */
+export function insertJpegExif(
+  bytes: Uint8Array,
+  tiff: Uint8Array,
+): Uint8Array<ArrayBuffer> {
+  return insertApp1(bytes, EXIF_ID, tiff);
+}
+
+/**
+ * Inserts an XMP APP1 segment holding the UTF-8 `packet`, after any EXIF
+ * segment. Expects a file that has already been cleaned.
+ */
+export function insertJpegXmp(
+  bytes: Uint8Array,
+  packet: Uint8Array,
+): Uint8Array<ArrayBuffer> {
+  return insertApp1(bytes, XMP_ID, packet);
+}
+
+/**
+ * Length of the header of the JUMBF box starting at `offset`: 16 bytes when
+ * it uses the extended 64-bit length, 8 otherwise.
+ */
+function getBoxHeaderLength(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] === 0 &&
+    bytes[offset + 1] === 0 &&
+    bytes[offset + 2] === 0 &&
+    bytes[offset + 3] === 1
+    ? 16
+    : 8;
+}
+
+/**
+ * Reassembles the JUMBF boxes stored in APP11 segments. A box too large for
+ * one segment is split across several with the same box instance number,
+ * ordered by their sequence numbers, and every segment after the first
+ * repeats the box header.
+ */
+export function readJpegJumbf(bytes: Uint8Array): Uint8Array[] {
+  const instances = new Map<number, { sequence: number; data: Uint8Array }[]>();
+  for (const { marker, payload, end } of readHeaderSegments(bytes)) {
+    if (
+      marker !== APP11 ||
+      end - payload <= JUMBF_SEGMENT_HEADER ||
+      !matchesAscii(bytes, payload, JUMBF_ID, end)
+    ) {
+      continue;
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset + payload);
+    const instance = view.getUint16(2);
+    const parts = instances.get(instance) ?? [];
+    parts.push({
+      sequence: view.getUint32(4),
+      data: bytes.subarray(payload + JUMBF_SEGMENT_HEADER, end),
+    });
+    instances.set(instance, parts);
+  }
+
+  return [...instances.values()].map((parts) => {
+    const data = parts
+      .sort((a, b) => a.sequence - b.sequence)
+      .map((part) => part.data);
+    const headerLength = getBoxHeaderLength(data[0] as Uint8Array, 0);
+    return concatBytes(
+      data.map((chunk, i) => (i === 0 ? chunk : chunk.subarray(headerLength))),
+    );
+  });
+}
+
+/**
+ * Inserts a JUMBF `box` as APP11 segments after any APP0 and APP1 segments,
+ * splitting it where it does not fit in one. Expects a file that has already
+ * been cleaned, so the box gets instance number 1.
+ */
+export function insertJpegJumbf(
+  bytes: Uint8Array,
+  box: Uint8Array,
+): Uint8Array<ArrayBuffer> {
+  if (!isJpeg(bytes)) {
+    throw new Error("Not a JPEG file");
+  }
+  const headerLength = getBoxHeaderLength(box, 0);
+  if (box.length <= headerLength) {
+    throw new Error("JUMBF box is empty");
+  }
+
+  const segments: Uint8Array[] = [];
+  let offset = 0;
+  for (let sequence = 1; offset < box.length; sequence++) {
+    // Segments after the first repeat the box header
+    const repeated = sequence === 1 ? 0 : headerLength;
+    const room = 0xffff - 2 - JUMBF_SEGMENT_HEADER - repeated;
+    const data = box.subarray(offset, offset + room);
+    const length = 2 + JUMBF_SEGMENT_HEADER + repeated + data.length;
+    const header = new Uint8Array(4 + JUMBF_SEGMENT_HEADER);
+    const view = new DataView(header.buffer);
+    view.setUint16(0, (MARKER_PREFIX << 8) | APP11);
+    view.setUint16(2, length);
+    header.set([JUMBF_ID.charCodeAt(0), JUMBF_ID.charCodeAt(1)], 4);
+    view.setUint16(6, 1);
+    view.setUint32(8, sequence);
+    segments.push(header, box.subarray(0, repeated), data);
+    offset += data.length;
+  }
+
+  const insertAt = findInsertOffset(bytes);
+  return concatBytes([
+    bytes.subarray(0, insertAt),
+    ...segments,
+    bytes.subarray(insertAt),
+  ]);
+}
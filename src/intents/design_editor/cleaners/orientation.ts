@@ -0,0 +1,127 @@
+// Applies EXIF orientation to the pixels themselves, so the cleaned image
+// looks right without an Orientation tag.
+
+import type { CanvasContext } from "./canvas";
+import { canvasToBlob, createCanvasContext, decodeImage } from "./canvas";
+import { drawInWorker } from "./worker";
+
+export function isValidOrientation(orientation?: number): boolean {
+  return (
+    orientation !== undefined &&
+    Number.isInteger(orientation) &&
+    orientation >= 1 &&
+    orientation <= 8
+  );
+}
+
+/**
+ * Orientations 5 to 8 include a quarter turn, which swaps width and height.
+ */
+export function getOrientedSize(
+  width: number,
+  height: number,
+  orientation: number,
+): { width: number; height: number } {
+  return orientation >= 5 && orientation <= 8
+    ? { width: height, height: width }
+    : { width, height };
+}
+
+/**
+ * Returns the canvas transform (a, b, c, d, e, f) that maps stored pixels of
+ * size `width` x `height` to their displayed position for the given EXIF
+ * orientation.
+ */
+export function getOrientationTransform(
+  orientation: number,
+  width: number,
+  height: number,
+): [number, number, number, number, number, number] {
+  switch (orientation) {
+    case 2: // Mirror horizontal
+      return [-1, 0, 0, 1, width, 0];
+    case 3: // Rotate 180
+      return [-1, 0, 0, -1, width, height];
+    case 4: // Mirror vertical
+      return [1, 0, 0, -1, 0, height];
+    case 5: // Mirror horizontal and rotate 270 CW
+      return [0, 1, 1, 0, 0, 0];
+    case 6: // Rotate 90 CW
+      return [0, 1, -1, 0, height, 0];
+    case 7: // Mirror horizontal and rotate 90 CW
+      return [0, -1, -1, 0, height, width];
+    case 8: // Rotate 270 CW
+      return [0, -1, 1, 0, 0, width];
+    default:
+      return [1, 0, 0, 1, 0, 0];
+  }
+}
+
+export function applyOrientationTransform(
+  ctx: CanvasContext,
+  orientation: number,
+  width: number,
+  height: number,
+) {
+  ctx.transform(...getOrientationTransform(orientation, width, height));
+}
+
+/**
+ * Decodes with createImageBitmap, which browsers do off the main thread, and
+ * draws and encodes in the worker. Returns null when either is unavailable.
+ */
+async function orientInWorker(
+  blob: Blob,
+  orientation: number,
+  mimeType: string,
+  quality: number,
+): Promise<{ blob: Blob; width: number; height: number } | null> {
+  if (typeof createImageBitmap === "undefined") return null;
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const { width, height } = bitmap;
+    const size = getOrientedSize(width, height, orientation);
+    const drawn = await drawInWorker(
+      bitmap,
+      size,
+      getOrientationTransform(orientation, width, height),
+      mimeType,
+      quality,
+    );
+    if (!drawn) {
+      bitmap.close();
+      return null;
+    }
+    return { blob: drawn, ...size };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decodes an image whose pixels are in stored order and redraws it upright,
+ * in a worker where possible. The input must not carry an Orientation tag
+ * itself, or browsers that honour it would rotate the pixels twice.
+ */
+export async function orientImage(
+  blob: Blob,
+  orientation: number,
+  mimeType: string,
+  quality = 0.95,
+): Promise<{ blob: Blob; width: number; height: number }> {
+  const oriented = await orientInWorker(blob, orientation, mimeType, quality);
+  if (oriented) return oriented;
+
+  const { image, width, height } = await decodeImage(blob);
+  const size = getOrientedSize(width, height, orientation);
+
+  const ctx = createCanvasContext(size);
+  applyOrientationTransform(ctx, orientation, width, height);
+  ctx.drawImage(image, 0, 0);
+
+  return {
+    blob: await canvasToBlob(ctx.canvas, mimeType, quality),
+    width: size.width,
+    height: size.height,
+  };
+}
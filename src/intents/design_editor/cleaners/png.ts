@@ -0,0 +1,355 @@
+// Byte-level PNG cleaner. Rebuilds the file from its chunk list, keeping only
+// the chunks needed to reproduce the pixels exactly, so bit depth, palettes
+// and transparency survive untouched.
+
+import type { MetadataBlock, MetadataBlockType } from "./blocks";
+import {
+  concatBytes,
+  decodeLatin1,
+  decodeUtf8,
+  deflate,
+  encodeUtf8,
+  inflate,
+} from "./bytes";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Chunks that are always kept: the critical chunks, transparency and the
+// APNG animation chunks, none of which carry metadata.
+const REQUIRED_CHUNKS = new Set([
+  "IHDR",
+  "PLTE",
+  "IDAT",
+  "IEND",
+  "tRNS",
+  "acTL",
+  "fcTL",
+  "fdAT",
+]);
+
+/**
+ * Ancillary chunks that only affect how the pixels are displayed and are kept
+ * unless the caller passes its own allow-list.
+ */
+export const DEFAULT_PNG_ALLOWED_CHUNKS: readonly string[] = [
+  "gAMA",
+  "sRGB",
+  "pHYs",
+];
+
+export interface PngCleanOptions {
+  allowedChunks?: readonly string[];
+  // Keeps the iCCP colour profile chunk (on by default)
+  keepIcc?: boolean;
+}
+
+export interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+export interface PngTextEntry {
+  keyword: string;
+  text: string;
+}
+
+export function isPng(bytes: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((value, i) => bytes[i] === value);
+}
+
+let crcTable: Uint32Array | undefined;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+export function crc32(bytes: Uint8Array): number {
+  const table = getCrcTable();
+  let c = 0xffffffff;
+  for (const byte of bytes) {
+    c = (table[(c ^ byte) & 0xff] as number) ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Splits a PNG file into its chunks, stopping at IEND. Throws if the
+ * signature is missing or a chunk runs past the end of the file.
+ */
+export function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  if (!isPng(bytes)) {
+    throw new Error("Not a PNG file");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  for (;;) {
+    if (offset + 12 > bytes.length) {
+      throw new Error("PNG ended before the IEND chunk");
+    }
+    const length = view.getUint32(offset);
+    const dataStart = offset + 8;
+    const dataEnd = dataStart + length;
+    if (dataEnd + 4 > bytes.length) {
+      throw new Error(`Invalid PNG chunk length at offset ${offset}`);
+    }
+
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, dataStart));
+    chunks.push({ type, data: bytes.subarray(dataStart, dataEnd) });
+    offset = dataEnd + 4;
+
+    if (type === "IEND") break;
+  }
+
+  if (chunks[0]?.type !== "IHDR") {
+    throw new Error("PNG does not start with an IHDR chunk");
+  }
+  return chunks;
+}
+
+/**
+ * Returns the offset just past the IEND chunk, where the image ends and any
+ * appended data begins.
+ */
+export function findPngEnd(bytes: Uint8Array): number {
+  return readPngChunks(bytes).reduce(
+    (end, { data }) => end + data.length + 12,
+    PNG_SIGNATURE.length,
+  );
+}
+
+/**
+ * Serialises a chunk with its length prefix and a freshly computed CRC.
+ */
+export function writePngChunk({ type, data }: PngChunk): Uint8Array {
+  const output = new Uint8Array(data.length + 12);
+  const view = new DataView(output.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    output[4 + i] = type.charCodeAt(i);
+  }
+  output.set(data, 8);
+  view.setUint32(data.length + 8, crc32(output.subarray(4, data.length + 8)));
+  return output;
+}
+
+export function writePng(chunks: PngChunk[]): Uint8Array<ArrayBuffer> {
+  return concatBytes([
+    new Uint8Array(PNG_SIGNATURE),
+    ...chunks.map(writePngChunk),
+  ]);
+}
+
+/**
+ * Removes textual metadata (tEXt, zTXt, iTXt), EXIF (eXIf), timestamps (tIME)
+ * and every unknown ancillary chunk from a PNG file. Only the required chunks,
+ * those in `allowedChunks` and, unless `keepIcc` is false, the iCCP colour
+ * profile are written back.
+ */
+export function cleanPng(
+  bytes: Uint8Array,
+  {
+    allowedChunks = DEFAULT_PNG_ALLOWED_CHUNKS,
+    keepIcc = true,
+  }: PngCleanOptions = {},
+): Uint8Array<ArrayBuffer> {
+  const allowed = new Set(allowedChunks);
+  if (keepIcc) allowed.add("iCCP");
+  const kept = readPngChunks(bytes).filter(
+    ({ type }) => REQUIRED_CHUNKS.has(type) || allowed.has(type),
+  );
+  return writePng(kept);
+}
+
+/**
+ * Inserts an eXIf chunk holding `tiff` straight after IHDR, ahead of the
+ * image data as the PNG specification requires.
+ */
+export function insertPngExif(
+  bytes: Uint8Array,
+  tiff: Uint8Array,
+): Uint8Array<ArrayBuffer> {
+  const [header, ...rest] = readPngChunks(bytes).filter(
+    ({ type }) => type !== "eXIf",
+  );
+  return writePng([header as PngChunk, { type: "eXIf", data: tiff }, ...rest]);
+}
+
+// iTXt keyword under which XMP packets are stored
+export const PNG_XMP_KEYWORD = "XML:com.adobe.xmp";
+
+function isXmpChunk({ type, data }: PngChunk): boolean {
+  return (
+    type === "iTXt" &&
+    decodeLatin1(data.subarray(0, data.indexOf(0))) === PNG_XMP_KEYWORD
+  );
+}
+
+/**
+ * Inserts an uncompressed iTXt chunk holding the UTF-8 XMP `packet` straight
+ * after IHDR, replacing any XMP chunk already there.
+ */
+export function insertPngXmp(
+  bytes: Uint8Array,
+  packet: Uint8Array,
+): Uint8Array<ArrayBuffer> {
+  const [header, ...rest] = readPngChunks(bytes).filter(
+    (chunk) => !isXmpChunk(chunk),
+  );
+  // Keyword, then no compression, empty language tag and translated keyword
+  const data = concatBytes([
+    encodeUtf8(PNG_XMP_KEYWORD),
+    new Uint8Array([0, 0, 0, 0, 0]),
+    packet,
+  ]);
+  return writePng([header as PngChunk, { type: "iTXt", data }, ...rest]);
+}
+
+/**
+ * Returns the decompressed profile from the iCCP chunk, or null when the file
+ * has none.
+ */
+export async function readPngIccProfile(
+  bytes: Uint8Array,
+): Promise<Uint8Array | null> {
+  const chunk = readPngChunks(bytes).find(({ type }) => type === "iCCP");
+  if (!chunk) return null;
+  // Profile name, null separator and compression method precede the data
+  const nameEnd = chunk.data.indexOf(0);
+  if (nameEnd < 0) return null;
+  return inflate(chunk.data.subarray(nameEnd + 2));
+}
+
+/**
+ * Inserts an iCCP chunk holding `profile` straight after IHDR. An sRGB chunk
+ * would contradict the profile, so it is dropped.
+ */
+export async function insertPngIccProfile(
+  bytes: Uint8Array,
+  profile: Uint8Array,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const [header, ...rest] = readPngChunks(bytes).filter(
+    ({ type }) => type !== "iCCP" && type !== "sRGB",
+  );
+  const data = concatBytes([
+    encodeUtf8("ICC profile\0\0"),
+    await deflate(profile),
+  ]);
+  return writePng([header as PngChunk, { type: "iCCP", data }, ...rest]);
+}
+
+async function inflateText(data: Uint8Array): Promise<Uint8Array> {
+  try {
+    return await inflate(data);
+  } catch {
+    // The keyword alone still shows that the chunk is there
+    return new Uint8Array(0);
+  }
+}
+
+/**
+ * Reads the keyword and text of every tEXt, zTXt and iTXt chunk, inflating
+ * compressed text where the browser can.
+ */
+export async function readPngText(bytes: Uint8Array): Promise<PngTextEntry[]> {
+  const entries: PngTextEntry[] = [];
+  for (const { type, data } of readPngChunks(bytes)) {
+    const keywordEnd = data.indexOf(0);
+    if (keywordEnd < 0) continue;
+    const keyword = decodeLatin1(data.subarray(0, keywordEnd));
+
+    if (type === "tEXt") {
+      entries.push({
+        keyword,
+        text: decodeLatin1(data.subarray(keywordEnd + 1)),
+      });
+    } else if (type === "zTXt") {
+      // A compression method byte follows the separator
+      const text = await inflateText(data.subarray(keywordEnd + 2));
+      entries.push({ keyword, text: decodeLatin1(text) });
+    } else if (type === "iTXt") {
+      // Compression flag and method, then language tag and translated
+      // keyword, each null-terminated
+      const compressed = data[keywordEnd + 1] === 1;
+      const languageEnd = data.indexOf(0, keywordEnd + 3);
+      const translatedEnd =
+        languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+      if (translatedEnd < 0) continue;
+      const raw = data.subarray(translatedEnd + 1);
+      const text = compressed ? await inflateText(raw) : raw;
+      entries.push({ keyword, text: decodeUtf8(text) });
+    }
+  }
+  return entries;
+}
+
+// Chunk holding a JUMBF box, used for C2PA manifest stores
+const JUMBF_CHUNK = "caBX";
+
+// The JUMBF boxes of the caBX chunks
+export function readPngJumbf(bytes: Uint8Array): Uint8Array[] {
+  return readPngChunks(bytes)
+    .filter(({ type }) => type === JUMBF_CHUNK)
+    .map(({ data }) => data);
+}
+
+/**
+ * Inserts a caBX chunk holding the JUMBF `box` straight after IHDR, ahead of
+ * the image data, replacing any caBX chunk already there.
+ */
+export function insertPngJumbf(
+  bytes: Uint8Array,
+  box: Uint8Array,
+): Uint8Array<ArrayBuffer> {
+  const [header, ...rest] = readPngChunks(bytes).filter(
+    ({ type }) => type !== JUMBF_CHUNK,
+  );
+  return writePng([
+    header as PngChunk,
+    { type: JUMBF_CHUNK, data: box },
+    ...rest,
+  ]);
+}
+
+const BLOCK_TYPES: Record<string, MetadataBlockType> = {
+  [JUMBF_CHUNK]: "c2pa",
+  eXIf: "exif",
+  iCCP: "icc",
+  tEXt: "text",
+  zTXt: "text",
+  iTXt: "text",
+};
+
+/**
+ * Lists the chunks that hold metadata with their full size, length, type and
+ * CRC included. Ancillary chunks the cleaner would drop count as "other".
+ */
+export function listPngMetadataBlocks(bytes: Uint8Array): MetadataBlock[] {
+  return readPngChunks(bytes).flatMap((chunk) => {
+    const { type, data } = chunk;
+    if (
+      REQUIRED_CHUNKS.has(type) ||
+      DEFAULT_PNG_ALLOWED_CHUNKS.includes(type)
+    ) {
+      return [];
+    }
+    return [
+      {
+        type: isXmpChunk(chunk) ? "xmp" : (BLOCK_TYPES[type] ?? "other"),
+        size: data.length + 12,
+      },
+    ];
+  });
+}
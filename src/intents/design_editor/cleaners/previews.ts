@@ -0,0 +1,200 @@
+// Extracts the JPEG previews that editors and cameras embed in a file: the
+// EXIF IFD1 thumbnail, the Photoshop thumbnail resource and XMP thumbnails.
+// They are rendered once and not updated by every editor, so they can still
+// show what was later cropped or painted out of the main image.
+
+import { decodeLatin1, matchesAscii } from "./bytes";
+import { stripExifHeader } from "./exif";
+import { isJpeg, readJpegExif, readJpegPhotoshop, readJpegXmp } from "./jpeg";
+import { isPng, PNG_XMP_KEYWORD, readPngChunks, readPngText } from "./png";
+import { isTiff } from "./tiff";
+import { isWebp, readWebpChunks } from "./webp";
+
+export type PreviewSource = "exif" | "photoshop" | "xmp";
+
+export interface EmbeddedPreview {
+  source: PreviewSource;
+  // A complete JPEG file
+  data: Uint8Array;
+}
+
+const TAG_JPEG_OFFSET = 0x0201;
+const TAG_JPEG_LENGTH = 0x0202;
+
+// Photoshop image resources holding a thumbnail: 0x0409 from Photoshop 4.0
+// (BGR) and 0x040C from 5.0 onwards (RGB)
+const PHOTOSHOP_THUMBNAIL_IDS = [0x0409, 0x040c];
+// Format, width, height, row bytes, total size, compressed size, bit depth
+// and planes precede the JPEG data
+const PHOTOSHOP_THUMBNAIL_HEADER = 28;
+const PHOTOSHOP_FORMAT_JPEG = 1;
+
+/**
+ * Reads the JPEG thumbnail that IFD1 of an EXIF block points to.
+ */
+export function readExifThumbnail(tiff: Uint8Array): Uint8Array | null {
+  if (!isTiff(tiff)) return null;
+  try {
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    const littleEndian = tiff[0] === 0x49;
+    const ifd0 = view.getUint32(4, littleEndian);
+    const ifd0Count = view.getUint16(ifd0, littleEndian);
+    const ifd1 = view.getUint32(ifd0 + 2 + ifd0Count * 12, littleEndian);
+    if (ifd1 === 0) return null;
+
+    let offset: number | undefined;
+    let length: number | undefined;
+    const count = view.getUint16(ifd1, littleEndian);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd1 + 2 + i * 12;
+      const tag = view.getUint16(entry, littleEndian);
+      if (tag === TAG_JPEG_OFFSET) {
+        offset = view.getUint32(entry + 8, littleEndian);
+      } else if (tag === TAG_JPEG_LENGTH) {
+        length = view.getUint32(entry + 8, littleEndian);
+      }
+    }
+    if (offset === undefined || !length || offset + length > tiff.length) {
+      return null;
+    }
+    const data = tiff.subarray(offset, offset + length);
+    return isJpeg(data) ? data : null;
+  } catch {
+    // An IFD that runs past the end of the block has no usable thumbnail
+    return null;
+  }
+}
+
+/**
+ * Reads the JPEG thumbnail from Photoshop image resource blocks ("8BIM"
+ * records, as stored in a JPEG APP13 segment).
+ */
+export function readPhotoshopThumbnail(
+  resources: Uint8Array,
+): Uint8Array | null {
+  const view = new DataView(
+    resources.buffer,
+    resources.byteOffset,
+    resources.byteLength,
+  );
+  let offset = 0;
+  while (
+    offset + 12 <= resources.length &&
+    matchesAscii(resources, offset, "8BIM")
+  ) {
+    const id = view.getUint16(offset + 4);
+    // Pascal string name, length byte included, padded to an even size
+    const nameLength = resources[offset + 6] ?? 0;
+    const sizeOffset = offset + 6 + ((nameLength + 2) & ~1);
+    if (sizeOffset + 4 > resources.length) break;
+    const size = view.getUint32(sizeOffset);
+    const dataStart = sizeOffset + 4;
+    if (dataStart + size > resources.length) break;
+
+    if (
+      PHOTOSHOP_THUMBNAIL_IDS.includes(id) &&
+      size > PHOTOSHOP_THUMBNAIL_HEADER &&
+      view.getUint32(dataStart) === PHOTOSHOP_FORMAT_JPEG
+    ) {
+      const data = resources.subarray(
+        dataStart + PHOTOSHOP_THUMBNAIL_HEADER,
+        dataStart + size,
+      );
+      if (isJpeg(data)) return data;
+    }
+    // Resource data is padded to an even size
+    offset = dataStart + size + (size & 1);
+  }
+  return null;
+}
+
+function decodeBase64(text: string): Uint8Array | null {
+  try {
+    return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the base64 JPEG thumbnails of an XMP packet (xmpGImg:image, written
+ * as an element or an attribute). Line breaks inside the data are stored as
+ * "&#xA;" character references.
+ */
+export function readXmpThumbnails(packet: string): Uint8Array[] {
+  const thumbnails: Uint8Array[] = [];
+  for (const match of packet.matchAll(
+    /xmpGImg:image(?:>([^<]*)<|="([^"]*)")/g,
+  )) {
+    const base64 = (match[1] ?? match[2] ?? "").replace(
+      /&#x[aAdD];|&#1[03];|\s/g,
+      "",
+    );
+    const data = decodeBase64(base64);
+    if (data && isJpeg(data)) thumbnails.push(data);
+  }
+  return thumbnails;
+}
+
+// The blocks of a file that may hold previews
+interface PreviewContainers {
+  exif?: Uint8Array | null;
+  photoshop?: Uint8Array | null;
+  xmp?: string | null;
+}
+
+async function readContainers(bytes: Uint8Array): Promise<PreviewContainers> {
+  if (isJpeg(bytes)) {
+    const xmp = readJpegXmp(bytes);
+    return {
+      exif: readJpegExif(bytes),
+      photoshop: readJpegPhotoshop(bytes),
+      xmp: xmp && decodeLatin1(xmp),
+    };
+  }
+  if (isPng(bytes)) {
+    const exif = readPngChunks(bytes).find(({ type }) => type === "eXIf");
+    const xmp = (await readPngText(bytes)).find(
+      ({ keyword }) => keyword === PNG_XMP_KEYWORD,
+    );
+    return { exif: exif?.data, xmp: xmp?.text };
+  }
+  if (isWebp(bytes)) {
+    const chunks = readWebpChunks(bytes);
+    const exif = chunks.find(({ type }) => type === "EXIF");
+    const xmp = chunks.find(({ type }) => type === "XMP ");
+    return {
+      exif: exif && stripExifHeader(exif.data),
+      xmp: xmp && decodeLatin1(xmp.data),
+    };
+  }
+  return {};
+}
+
+/**
+ * Extracts every embedded JPEG preview of a JPEG, PNG or WebP file. TIFF and
+ * malformed files give an empty list.
+ */
+export async function extractEmbeddedPreviews(
+  bytes: Uint8Array,
+): Promise<EmbeddedPreview[]> {
+  let containers: PreviewContainers;
+  try {
+    containers = await readContainers(bytes);
+  } catch {
+    return [];
+  }
+
+  const { exif, photoshop, xmp } = containers;
+  const previews: EmbeddedPreview[] = [];
+  const exifThumbnail = exif && readExifThumbnail(exif);
+  if (exifThumbnail) previews.push({ source: "exif", data: exifThumbnail });
+  const photoshopThumbnail = photoshop && readPhotoshopThumbnail(photoshop);
+  if (photoshopThumbnail) {
+    previews.push({ source: "photoshop", data: photoshopThumbnail });
+  }
+  for (const data of xmp ? readXmpThumbnails(xmp) : []) {
+    previews.push({ source: "xmp", data });
+  }
+  return previews;
+}
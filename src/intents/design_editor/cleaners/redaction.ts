@@ -0,0 +1,261 @@
+// Burns redactions into the pixels. Regions are given as fractions of the
+// upright image, so the same redactions apply to a small preview and to the
+// full-resolution image.
+
+import type { CanvasContext } from "./canvas";
+import { createCanvasContext } from "./canvas";
+
+// A point as fractions (0-1) of the image's width and height
+export interface RedactionPoint {
+  x: number;
+  y: number;
+}
+
+export type RedactionShape =
+  | { type: "rect"; x: number; y: number; width: number; height: number }
+  // A closed outline drawn by hand
+  | { type: "freehand"; points: RedactionPoint[] };
+
+export type RedactionEffect = "blur" | "pixelate" | "fill";
+
+export interface Redaction {
+  shape: RedactionShape;
+  effect: RedactionEffect;
+}
+
+// Pixel box of a region, clipped to the image
+export interface PixelBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const FILL_COLOR = "#000000";
+
+// Blur radius and pixel block size as fractions of the image's long edge, so
+// the preview looks like the result at any size
+const BLUR_RADIUS = 1 / 50;
+const BLOCK_SIZE = 1 / 40;
+
+// Box blur passes; three approximate a Gaussian blur
+const BLUR_PASSES = 3;
+
+function getEffectSize(width: number, height: number, fraction: number) {
+  return Math.max(2, Math.round(Math.max(width, height) * fraction));
+}
+
+/**
+ * Returns the pixel box that holds a shape in an image of the given size, or
+ * null when the shape covers no pixels.
+ */
+export function getRedactionBounds(
+  shape: RedactionShape,
+  width: number,
+  height: number,
+): PixelBounds | null {
+  const xs =
+    shape.type === "rect"
+      ? [shape.x, shape.x + shape.width]
+      : shape.points.map(({ x }) => x);
+  const ys =
+    shape.type === "rect"
+      ? [shape.y, shape.y + shape.height]
+      : shape.points.map(({ y }) => y);
+  if (xs.length === 0) return null;
+
+  // Rounded outwards, allowing for floating-point error in the fractions
+  const toPixel = (
+    value: number,
+    size: number,
+    round: (value: number) => number,
+  ) => Math.min(size, Math.max(0, round(Number((value * size).toFixed(6)))));
+  const left = toPixel(Math.min(...xs), width, Math.floor);
+  const right = toPixel(Math.max(...xs), width, Math.ceil);
+  const top = toPixel(Math.min(...ys), height, Math.floor);
+  const bottom = toPixel(Math.max(...ys), height, Math.ceil);
+  if (right <= left || bottom <= top) return null;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Replaces each `blockSize` square of RGBA pixels with its average colour.
+ */
+export function pixelateRgba(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  blockSize: number,
+) {
+  for (let top = 0; top < height; top += blockSize) {
+    for (let left = 0; left < width; left += blockSize) {
+      const right = Math.min(width, left + blockSize);
+      const bottom = Math.min(height, top + blockSize);
+      const sum = [0, 0, 0, 0];
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+          for (let channel = 0; channel < 4; channel++) {
+            sum[channel] =
+              (sum[channel] ?? 0) + (data[(y * width + x) * 4 + channel] ?? 0);
+          }
+        }
+      }
+      const count = (right - left) * (bottom - top);
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+          for (let channel = 0; channel < 4; channel++) {
+            data[(y * width + x) * 4 + channel] = (sum[channel] ?? 0) / count;
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * One box blur pass along rows or columns. Pixels past the edge repeat the
+ * edge pixel, so colour from outside the region never leaks in.
+ */
+function boxBlur(
+  source: Uint8ClampedArray,
+  target: Uint8ClampedArray,
+  width: number,
+  height: number,
+  radius: number,
+  horizontal: boolean,
+) {
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const step = horizontal ? 4 : width * 4;
+  const lineStep = horizontal ? width * 4 : 4;
+  const span = radius * 2 + 1;
+
+  for (let line = 0; line < lines; line++) {
+    const start = line * lineStep;
+    for (let channel = 0; channel < 4; channel++) {
+      const at = (i: number) =>
+        source[start + Math.min(length - 1, Math.max(0, i)) * step + channel] ??
+        0;
+      let sum = 0;
+      for (let i = -radius; i <= radius; i++) sum += at(i);
+      for (let i = 0; i < length; i++) {
+        target[start + i * step + channel] = sum / span;
+        sum += at(i + radius + 1) - at(i - radius);
+      }
+    }
+  }
+}
+
+/**
+ * Blurs RGBA pixels in place with repeated box blurs of the given radius.
+ */
+export function blurRgba(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  radius: number,
+) {
+  if (radius < 1 || width === 0 || height === 0) return;
+  const buffer = new Uint8ClampedArray(data.length);
+  for (let pass = 0; pass < BLUR_PASSES; pass++) {
+    boxBlur(data, buffer, width, height, radius, true);
+    boxBlur(buffer, data, width, height, radius, false);
+  }
+}
+
+/**
+ * Starts a new canvas path along the outline of a shape.
+ */
+export function traceRedactionShape(
+  ctx: CanvasContext,
+  shape: RedactionShape,
+  width: number,
+  height: number,
+) {
+  ctx.beginPath();
+  if (shape.type === "rect") {
+    ctx.rect(
+      shape.x * width,
+      shape.y * height,
+      shape.width * width,
+      shape.height * height,
+    );
+    return;
+  }
+  shape.points.forEach(({ x, y }, index) => {
+    if (index === 0) {
+      ctx.moveTo(x * width, y * height);
+    } else {
+      ctx.lineTo(x * width, y * height);
+    }
+  });
+  ctx.closePath();
+}
+
+/**
+ * Blurs or pixelates the pixels of one region. The effect is worked out on
+ * the region's bounding box, then drawn back clipped to the shape.
+ */
+function obscureRegion(
+  ctx: CanvasContext,
+  { shape, effect }: Redaction,
+  width: number,
+  height: number,
+) {
+  const bounds = getRedactionBounds(shape, width, height);
+  if (!bounds) return;
+
+  const pixels = ctx.getImageData(
+    bounds.x,
+    bounds.y,
+    bounds.width,
+    bounds.height,
+  );
+  if (effect === "blur") {
+    blurRgba(
+      pixels.data,
+      bounds.width,
+      bounds.height,
+      getEffectSize(width, height, BLUR_RADIUS),
+    );
+  } else {
+    pixelateRgba(
+      pixels.data,
+      bounds.width,
+      bounds.height,
+      getEffectSize(width, height, BLOCK_SIZE),
+    );
+  }
+
+  const region = createCanvasContext(bounds);
+  region.putImageData(pixels, 0, 0);
+
+  ctx.save();
+  traceRedactionShape(ctx, shape, width, height);
+  ctx.clip();
+  ctx.drawImage(region.canvas, bounds.x, bounds.y);
+  ctx.restore();
+}
+
+/**
+ * Draws the redactions, in order, over an upright image of the given size
+ * already drawn on the canvas.
+ */
+export function applyRedactions(
+  ctx: CanvasContext,
+  width: number,
+  height: number,
+  redactions: readonly Redaction[],
+) {
+  for (const redaction of redactions) {
+    if (redaction.effect === "fill") {
+      ctx.save();
+      traceRedactionShape(ctx, redaction.shape, width, height);
+      ctx.fillStyle = FILL_COLOR;
+      ctx.fill();
+      ctx.restore();
+    } else {
+      obscureRegion(ctx, redaction, width, height);
+    }
+  }
+}
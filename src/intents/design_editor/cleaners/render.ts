@@ -0,0 +1,282 @@
+// Full redraw of an image: burning in redactions, high-quality downscaling,
+// converting between formats and fitting a target file size.
+
+import type { CanvasContext } from "./canvas";
+import { canvasToBlob, createCanvasContext, decodeImage } from "./canvas";
+import { applyOrientationTransform, getOrientedSize } from "./orientation";
+import type { Redaction } from "./redaction";
+import { applyRedactions } from "./redaction";
+
+type Size = { width: number; height: number };
+
+// Side of the window, in output pixels, encoded to estimate the whole file
+const SAMPLE_SIZE = 256;
+
+// JPEG has no alpha channel, so transparent pixels are laid on white
+const JPEG_BACKGROUND = "#ffffff";
+
+// Lowest encoder quality, in percent, tried before the image is shrunk
+const MIN_FIT_QUALITY = 30;
+
+// Smallest longest side, in pixels, the image is shrunk to when fitting
+const MIN_FIT_SIZE = 64;
+
+export interface RenderOptions {
+  // EXIF orientation of the pixels, applied while drawing
+  orientation: number;
+  redactions: readonly Redaction[];
+  // Longest side of the output in pixels, or null for full size
+  maxSize: number | null;
+  mimeType: string;
+  quality: number;
+}
+
+export interface FittedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  // Encoder quality the search settled on, or null for lossless PNG
+  quality: number | null;
+  // False when even the smallest attempt, returned instead, is over budget
+  fits: boolean;
+}
+
+/**
+ * Shrinks a size so its longest side is at most `maxSize`, keeping the aspect
+ * ratio. Images are never enlarged.
+ */
+export function getScaledSize(
+  width: number,
+  height: number,
+  maxSize: number | null,
+): Size {
+  const longEdge = Math.max(width, height);
+  if (maxSize == null || longEdge <= maxSize) return { width, height };
+  const scale = maxSize / longEdge;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Sizes to shrink through, halving each time and ending at the target.
+ * Browsers sample only a few source pixels for each output pixel, so
+ * shrinking by more than half in one step skips detail and aliases.
+ */
+export function getDownscaleSteps(from: Size, to: Size): Size[] {
+  const steps: Size[] = [];
+  let { width, height } = from;
+  while (width / 2 >= to.width && height / 2 >= to.height) {
+    width = Math.round(width / 2);
+    height = Math.round(height / 2);
+    steps.push({ width, height });
+  }
+  if (width !== to.width || height !== to.height) steps.push(to);
+  return steps;
+}
+
+function createContext(size: Size): CanvasContext {
+  const ctx = createCanvasContext(size);
+  ctx.imageSmoothingQuality = "high";
+  return ctx;
+}
+
+function downscale(ctx: CanvasContext, target: Size): CanvasContext {
+  let source = ctx;
+  for (const step of getDownscaleSteps(ctx.canvas, target)) {
+    const next = createContext(step);
+    next.drawImage(source.canvas, 0, 0, step.width, step.height);
+    source = next;
+  }
+  return source;
+}
+
+function flattenForJpeg(ctx: CanvasContext, mimeType: string) {
+  if (mimeType !== "image/jpeg") return;
+  ctx.globalCompositeOperation = "destination-over";
+  ctx.fillStyle = JPEG_BACKGROUND;
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+}
+
+/**
+ * Decodes an image whose pixels are in stored order, draws it upright and
+ * burns in any redactions at full resolution.
+ */
+async function drawUpright(
+  blob: Blob,
+  orientation: number,
+  redactions: readonly Redaction[],
+): Promise<CanvasContext> {
+  const { image, width, height } = await decodeImage(blob);
+  const size = getOrientedSize(width, height, orientation);
+
+  const ctx = createContext(size);
+  applyOrientationTransform(ctx, orientation, width, height);
+  ctx.drawImage(image, 0, 0);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  applyRedactions(ctx, size.width, size.height, redactions);
+  return ctx;
+}
+
+/**
+ * Redraws an image upright with any redactions, shrinks it to `maxSize` and
+ * encodes it in the given format.
+ */
+export async function renderImage(
+  blob: Blob,
+  { orientation, redactions, maxSize, mimeType, quality }: RenderOptions,
+): Promise<{ blob: Blob; width: number; height: number }> {
+  const upright = await drawUpright(blob, orientation, redactions);
+  const output = downscale(
+    upright,
+    getScaledSize(upright.canvas.width, upright.canvas.height, maxSize),
+  );
+  flattenForJpeg(output, mimeType);
+  return {
+    blob: await canvasToBlob(output.canvas, mimeType, quality),
+    width: output.canvas.width,
+    height: output.canvas.height,
+  };
+}
+
+/**
+ * Estimates the encoded size of an image drawn at `size` by encoding a window
+ * from its centre at that scale, then scaling the bytes up to the whole
+ * image. Also returns the type the browser actually encoded.
+ */
+export async function estimateEncodedSize(
+  blob: Blob,
+  size: Size,
+  mimeType: string,
+  quality: number,
+): Promise<{ bytes: number; type: string }> {
+  const {
+    image,
+    width: naturalWidth,
+    height: naturalHeight,
+  } = await decodeImage(blob);
+  const scale =
+    Math.max(size.width, size.height) / Math.max(naturalWidth, naturalHeight);
+  const sample = {
+    width: Math.min(SAMPLE_SIZE, size.width),
+    height: Math.min(SAMPLE_SIZE, size.height),
+  };
+
+  const ctx = createContext(sample);
+  const sourceWidth = sample.width / scale;
+  const sourceHeight = sample.height / scale;
+  ctx.drawImage(
+    image,
+    (naturalWidth - sourceWidth) / 2,
+    (naturalHeight - sourceHeight) / 2,
+    sourceWidth,
+    sourceHeight,
+    0,
+    0,
+    sample.width,
+    sample.height,
+  );
+  flattenForJpeg(ctx, mimeType);
+
+  const encoded = await canvasToBlob(ctx.canvas, mimeType, quality);
+  const pixels = size.width * size.height;
+  return {
+    bytes: Math.round((encoded.size * pixels) / (sample.width * sample.height)),
+    type: encoded.type,
+  };
+}
+
+// Encodes the image at a size, with a quality in percent
+type Encoder = (size: Size, quality: number) => Promise<Blob>;
+
+/**
+ * Finds the encoding of an image that takes at most `budget` bytes. The
+ * quality is lowered first, searching for the highest that fits, and only
+ * when even the lowest quality is too large is the image shrunk and the
+ * search repeated. Lossless formats have no quality, so they are only
+ * shrunk.
+ */
+export async function searchFit(
+  start: Size,
+  budget: number,
+  { lossy, quality }: { lossy: boolean; quality: number },
+  encode: Encoder,
+): Promise<FittedImage> {
+  const maxQuality = Math.round(quality * 100);
+  let size = start;
+
+  for (;;) {
+    const attempt = async (percent: number) => ({
+      blob: await encode(size, percent),
+      ...size,
+      quality: lossy ? percent / 100 : null,
+    });
+
+    let smallest = await attempt(maxQuality);
+    if (smallest.blob.size <= budget) return { ...smallest, fits: true };
+    if (lossy && maxQuality > MIN_FIT_QUALITY) {
+      smallest = await attempt(MIN_FIT_QUALITY);
+      if (smallest.blob.size <= budget) {
+        // The lowest quality fits and the highest does not
+        let fitted = smallest;
+        let low = MIN_FIT_QUALITY;
+        let high = maxQuality;
+        while (high - low > 1) {
+          const middle = Math.floor((low + high) / 2);
+          const encoded = await attempt(middle);
+          if (encoded.blob.size <= budget) {
+            fitted = encoded;
+            low = middle;
+          } else {
+            high = middle;
+          }
+        }
+        return { ...fitted, fits: true };
+      }
+    }
+
+    const longEdge = Math.max(size.width, size.height);
+    if (longEdge <= MIN_FIT_SIZE) return { ...smallest, fits: false };
+    // File size grows roughly with the pixel count, so with the square of
+    // the sides. Each step shrinks by at least a tenth and at most a half
+    const shrink = Math.min(
+      0.9,
+      Math.max(0.5, Math.sqrt(budget / smallest.blob.size)),
+    );
+    size = getScaledSize(
+      size.width,
+      size.height,
+      Math.max(MIN_FIT_SIZE, Math.floor(longEdge * shrink)),
+    );
+  }
+}
+
+/**
+ * Redraws an image upright with any redactions and encodes it in at most
+ * `budget` bytes, lowering the quality and then the size as needed. The
+ * image is decoded once and every size is drawn from the full-size pixels.
+ */
+export async function fitImage(
+  blob: Blob,
+  budget: number,
+  { orientation, redactions, maxSize, mimeType, quality }: RenderOptions,
+): Promise<FittedImage> {
+  const upright = await drawUpright(blob, orientation, redactions);
+  flattenForJpeg(upright, mimeType);
+  let ctx = upright;
+  return searchFit(
+    getScaledSize(upright.canvas.width, upright.canvas.height, maxSize),
+    budget,
+    { lossy: mimeType !== "image/png", quality },
+    (size, percent) => {
+      if (
+        ctx.canvas.width !== size.width ||
+        ctx.canvas.height !== size.height
+      ) {
+        ctx = downscale(upright, size);
+      }
+      return canvasToBlob(ctx.canvas, mimeType, percent / 100);
+    },
+  );
+}
@@ -0,0 +1,558 @@
+// TIFF reader. Browsers cannot display TIFF, so pages are decoded to RGBA
+// pixels here and re-encoded by the caller. Only the baseline tags needed to
+// rebuild the pixels are read; EXIF, GPS, XMP, IPTC, Photoshop and private
+// tags are never looked at and so never reach the output. The ICC profile tag
+// is read as well, so that colours can be kept or converted.
+
+import { inflate } from "./bytes";
+
+const TAG_NEW_SUBFILE_TYPE = 254;
+const TAG_IMAGE_WIDTH = 256;
+const TAG_IMAGE_LENGTH = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_PHOTOMETRIC = 262;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_PLANAR_CONFIGURATION = 284;
+const TAG_PREDICTOR = 317;
+const TAG_COLOR_MAP = 320;
+const TAG_TILE_WIDTH = 322;
+const TAG_TILE_LENGTH = 323;
+const TAG_TILE_OFFSETS = 324;
+const TAG_TILE_BYTE_COUNTS = 325;
+const TAG_EXTRA_SAMPLES = 338;
+const TAG_SAMPLE_FORMAT = 339;
+const TAG_ICC_PROFILE = 34675;
+
+const IMAGE_TAGS = new Set([
+  TAG_NEW_SUBFILE_TYPE,
+  TAG_IMAGE_WIDTH,
+  TAG_IMAGE_LENGTH,
+  TAG_BITS_PER_SAMPLE,
+  TAG_COMPRESSION,
+  TAG_PHOTOMETRIC,
+  TAG_STRIP_OFFSETS,
+  TAG_SAMPLES_PER_PIXEL,
+  TAG_ROWS_PER_STRIP,
+  TAG_STRIP_BYTE_COUNTS,
+  TAG_PLANAR_CONFIGURATION,
+  TAG_PREDICTOR,
+  TAG_COLOR_MAP,
+  TAG_TILE_WIDTH,
+  TAG_TILE_LENGTH,
+  TAG_TILE_OFFSETS,
+  TAG_TILE_BYTE_COUNTS,
+  TAG_EXTRA_SAMPLES,
+  TAG_SAMPLE_FORMAT,
+  TAG_ICC_PROFILE,
+]);
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_ADOBE_DEFLATE = 32946;
+const COMPRESSION_PACKBITS = 32773;
+
+const PHOTOMETRIC_WHITE_IS_ZERO = 0;
+const PHOTOMETRIC_BLACK_IS_ZERO = 1;
+const PHOTOMETRIC_RGB = 2;
+const PHOTOMETRIC_PALETTE = 3;
+
+const EXTRA_SAMPLE_ASSOCIATED_ALPHA = 1;
+
+// Byte size of each TIFF field type, indexed by type id
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  6: 1, // SBYTE
+  7: 1, // UNDEFINED
+  8: 2, // SSHORT
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+  11: 4, // FLOAT
+  12: 8, // DOUBLE
+};
+
+export interface TiffPage {
+  index: number;
+  width: number;
+  height: number;
+}
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+type TiffTags = Map<number, number[]>;
+
+interface TiffFile {
+  view: DataView;
+  littleEndian: boolean;
+  pages: TiffTags[];
+  // Where each page's IFD starts, in the same order as the pages
+  offsets: number[];
+}
+
+export function isTiff(bytes: Uint8Array): boolean {
+  return (
+    (bytes[0] === 0x49 &&
+      bytes[1] === 0x49 &&
+      bytes[2] === 42 &&
+      bytes[3] === 0) ||
+    (bytes[0] === 0x4d &&
+      bytes[1] === 0x4d &&
+      bytes[2] === 0 &&
+      bytes[3] === 42)
+  );
+}
+
+function readTagValues(
+  view: DataView,
+  littleEndian: boolean,
+  type: number,
+  count: number,
+  offset: number,
+): number[] {
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    switch (type) {
+      case 1:
+      case 7:
+        values.push(view.getUint8(offset + i));
+        break;
+      case 3:
+        values.push(view.getUint16(offset + i * 2, littleEndian));
+        break;
+      case 4:
+        values.push(view.getUint32(offset + i * 4, littleEndian));
+        break;
+      default:
+        throw new Error(`Unsupported TIFF field type ${type}`);
+    }
+  }
+  return values;
+}
+
+function readIfd(
+  view: DataView,
+  littleEndian: boolean,
+  offset: number,
+): { tags: TiffTags; next: number } {
+  const count = view.getUint16(offset, littleEndian);
+  const tags: TiffTags = new Map();
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    if (!IMAGE_TAGS.has(tag)) continue;
+
+    const type = view.getUint16(entry + 2, littleEndian);
+    const valueCount = view.getUint32(entry + 4, littleEndian);
+    const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+    const valueOffset =
+      size <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+    if (valueOffset + size > view.byteLength) {
+      throw new Error(`TIFF tag ${tag} points outside the file`);
+    }
+    tags.set(
+      tag,
+      readTagValues(view, littleEndian, type, valueCount, valueOffset),
+    );
+  }
+
+  const next = view.getUint32(offset + 2 + count * 12, littleEndian);
+  return { tags, next };
+}
+
+function readTiff(bytes: Uint8Array): TiffFile {
+  if (!isTiff(bytes)) {
+    throw new Error("Not a TIFF file");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = bytes[0] === 0x49;
+  const pages: TiffTags[] = [];
+  const offsets: number[] = [];
+  const visited = new Set<number>();
+  let offset = view.getUint32(4, littleEndian);
+
+  while (offset !== 0 && !visited.has(offset)) {
+    visited.add(offset);
+    const { tags, next } = readIfd(view, littleEndian, offset);
+    // Reduced-resolution images are previews of another page, not pages
+    const subfileType = tags.get(TAG_NEW_SUBFILE_TYPE)?.[0] ?? 0;
+    if ((subfileType & 1) === 0) {
+      pages.push(tags);
+      offsets.push(offset);
+    }
+    offset = next;
+  }
+
+  if (pages.length === 0) {
+    throw new Error("TIFF file has no pages");
+  }
+  return { view, littleEndian, pages, offsets };
+}
+
+function getTag(tags: TiffTags, tag: number, fallback?: number): number {
+  const value = tags.get(tag)?.[0] ?? fallback;
+  if (value === undefined) {
+    throw new Error(`TIFF page is missing required tag ${tag}`);
+  }
+  return value;
+}
+
+/**
+ * Lists the full-resolution pages of a TIFF file so the user can pick one.
+ */
+export function listTiffPages(bytes: Uint8Array): TiffPage[] {
+  return readTiff(bytes).pages.map((tags, index) => ({
+    index,
+    width: getTag(tags, TAG_IMAGE_WIDTH),
+    height: getTag(tags, TAG_IMAGE_LENGTH),
+  }));
+}
+
+/**
+ * Returns a copy of a TIFF file whose header points at the given page and
+ * whose page is the last in the chain. Metadata readers only parse the first
+ * IFD, so this lets them read the tags of any page. Values and sub-IFDs are
+ * found by absolute offsets, so they stay valid.
+ */
+export function selectTiffPage(
+  bytes: Uint8Array,
+  pageIndex: number,
+): Uint8Array<ArrayBuffer> {
+  const { view, littleEndian, offsets } = readTiff(bytes);
+  const offset = offsets[pageIndex];
+  if (offset === undefined) {
+    throw new Error(`TIFF page ${pageIndex} does not exist`);
+  }
+
+  const copy = bytes.slice();
+  const copyView = new DataView(copy.buffer);
+  const count = view.getUint16(offset, littleEndian);
+  copyView.setUint32(4, offset, littleEndian);
+  copyView.setUint32(offset + 2 + count * 12, 0, littleEndian);
+  return copy;
+}
+
+function decodePackBits(input: Uint8Array, expectedLength: number): Uint8Array {
+  const output = new Uint8Array(expectedLength);
+  let i = 0;
+  let o = 0;
+  while (i < input.length && o < expectedLength) {
+    const header = input[i++] as number;
+    if (header < 128) {
+      const count = header + 1;
+      output.set(input.subarray(i, i + count), o);
+      i += count;
+      o += count;
+    } else if (header > 128) {
+      const count = 257 - header;
+      output.fill(input[i++] ?? 0, o, o + count);
+      o += count;
+    }
+    // 128 is a no-op
+  }
+  return output;
+}
+
+/**
+ * TIFF flavoured LZW: codes are read MSB-first and the code width grows one
+ * entry earlier than in GIF ("early change").
+ */
+function decodeLzw(input: Uint8Array, expectedLength: number): Uint8Array {
+  const CLEAR = 256;
+  const END = 257;
+  const output = new Uint8Array(expectedLength);
+  let outputLength = 0;
+
+  let table: Uint8Array[] = [];
+  const resetTable = () => {
+    table = [];
+    for (let i = 0; i < 256; i++) table.push(new Uint8Array([i]));
+    table.push(new Uint8Array(0), new Uint8Array(0));
+  };
+  resetTable();
+
+  let codeWidth = 9;
+  let bitPosition = 0;
+  let previous: Uint8Array | null = null;
+
+  const readCode = (): number => {
+    let code = 0;
+    for (let i = 0; i < codeWidth; i++) {
+      const byte = input[bitPosition >> 3] ?? 0;
+      code = (code << 1) | ((byte >> (7 - (bitPosition & 7))) & 1);
+      bitPosition++;
+    }
+    return code;
+  };
+
+  const write = (entry: Uint8Array) => {
+    const length = Math.min(entry.length, expectedLength - outputLength);
+    output.set(entry.subarray(0, length), outputLength);
+    outputLength += length;
+  };
+
+  while (bitPosition + codeWidth <= input.length * 8) {
+    const code = readCode();
+    if (code === END) break;
+    if (code === CLEAR) {
+      resetTable();
+      codeWidth = 9;
+      previous = null;
+      continue;
+    }
+
+    let entry: Uint8Array;
+    const known = table[code];
+    if (known) {
+      entry = known;
+    } else if (previous && code === table.length) {
+      entry = new Uint8Array(previous.length + 1);
+      entry.set(previous);
+      entry[previous.length] = previous[0] as number;
+    } else {
+      throw new Error("Invalid LZW code in TIFF data");
+    }
+
+    write(entry);
+    if (previous) {
+      const added = new Uint8Array(previous.length + 1);
+      added.set(previous);
+      added[previous.length] = entry[0] as number;
+      table.push(added);
+    }
+    previous = entry;
+
+    if (table.length + 1 >= 1 << codeWidth && codeWidth < 12) {
+      codeWidth++;
+    }
+    if (outputLength >= expectedLength) break;
+  }
+
+  return output;
+}
+
+async function decompress(
+  compression: number,
+  input: Uint8Array,
+  expectedLength: number,
+): Promise<Uint8Array> {
+  switch (compression) {
+    case COMPRESSION_NONE:
+      return input;
+    case COMPRESSION_PACKBITS:
+      return decodePackBits(input, expectedLength);
+    case COMPRESSION_LZW:
+      return decodeLzw(input, expectedLength);
+    case COMPRESSION_DEFLATE:
+    case COMPRESSION_ADOBE_DEFLATE:
+      return inflate(input);
+    default:
+      throw new Error(`Unsupported TIFF compression ${compression}`);
+  }
+}
+
+/**
+ * Reads one block (strip or tile) of unsigned samples, undoing horizontal
+ * differencing when the page uses predictor 2.
+ */
+function readSamples(
+  block: Uint8Array,
+  bitsPerSample: number,
+  littleEndian: boolean,
+  rowSamples: number,
+  samplesPerPixel: number,
+  predictor: number,
+): Uint16Array {
+  const count = Math.floor((block.length * 8) / bitsPerSample);
+  const samples = new Uint16Array(count);
+  if (bitsPerSample === 8) {
+    samples.set(block.subarray(0, count));
+  } else {
+    const view = new DataView(block.buffer, block.byteOffset, block.byteLength);
+    for (let i = 0; i < count; i++) {
+      samples[i] = view.getUint16(i * 2, littleEndian);
+    }
+  }
+
+  if (predictor === 2) {
+    const mask = bitsPerSample === 8 ? 0xff : 0xffff;
+    for (let row = 0; row * rowSamples < count; row++) {
+      const start = row * rowSamples;
+      const end = Math.min(start + rowSamples, count);
+      for (let i = start + samplesPerPixel; i < end; i++) {
+        samples[i] =
+          ((samples[i] as number) + (samples[i - samplesPerPixel] as number)) &
+          mask;
+      }
+    }
+  }
+  return samples;
+}
+
+/**
+ * Returns the ICC profile embedded in a page, or null when it has none.
+ */
+export function readTiffIccProfile(
+  bytes: Uint8Array,
+  pageIndex = 0,
+): Uint8Array | null {
+  const profile = readTiff(bytes).pages[pageIndex]?.get(TAG_ICC_PROFILE);
+  return profile ? new Uint8Array(profile) : null;
+}
+
+/**
+ * Decodes one page of a TIFF file to 8-bit RGBA. Supports strips and tiles,
+ * uncompressed, LZW, Deflate and PackBits data, and 8 or 16-bit greyscale,
+ * RGB and palette images with an optional alpha channel.
+ */
+export async function decodeTiff(
+  bytes: Uint8Array,
+  pageIndex = 0,
+): Promise<DecodedImage> {
+  const { view, littleEndian, pages } = readTiff(bytes);
+  const tags = pages[pageIndex];
+  if (!tags) {
+    throw new Error(`TIFF page ${pageIndex} does not exist`);
+  }
+
+  const width = getTag(tags, TAG_IMAGE_WIDTH);
+  const height = getTag(tags, TAG_IMAGE_LENGTH);
+  const bitsPerSample = getTag(tags, TAG_BITS_PER_SAMPLE, 1);
+  const samplesPerPixel = getTag(tags, TAG_SAMPLES_PER_PIXEL, 1);
+  const compression = getTag(tags, TAG_COMPRESSION, COMPRESSION_NONE);
+  const photometric = getTag(tags, TAG_PHOTOMETRIC);
+  const predictor = getTag(tags, TAG_PREDICTOR, 1);
+  const sampleFormat = getTag(tags, TAG_SAMPLE_FORMAT, 1);
+  const planar = getTag(tags, TAG_PLANAR_CONFIGURATION, 1);
+  const extraSamples = tags.get(TAG_EXTRA_SAMPLES) ?? [];
+
+  if (bitsPerSample !== 8 && bitsPerSample !== 16) {
+    throw new Error(`Unsupported TIFF bit depth ${bitsPerSample}`);
+  }
+  if (sampleFormat !== 1 || planar !== 1) {
+    throw new Error("Only unsigned, interleaved TIFF samples are supported");
+  }
+
+  const colorChannels = photometric === PHOTOMETRIC_RGB ? 3 : 1;
+  if (samplesPerPixel < colorChannels) {
+    throw new Error("TIFF page has fewer samples than its colour model needs");
+  }
+  const hasAlpha = samplesPerPixel > colorChannels && extraSamples.length > 0;
+  const premultiplied = extraSamples[0] === EXTRA_SAMPLE_ASSOCIATED_ALPHA;
+
+  const tiled = tags.has(TAG_TILE_OFFSETS);
+  const blockWidth = tiled ? getTag(tags, TAG_TILE_WIDTH) : width;
+  const blockHeight = tiled
+    ? getTag(tags, TAG_TILE_LENGTH)
+    : Math.min(getTag(tags, TAG_ROWS_PER_STRIP, height), height);
+  const offsets = tags.get(tiled ? TAG_TILE_OFFSETS : TAG_STRIP_OFFSETS) ?? [];
+  const byteCounts =
+    tags.get(tiled ? TAG_TILE_BYTE_COUNTS : TAG_STRIP_BYTE_COUNTS) ?? [];
+  const blocksAcross = Math.ceil(width / blockWidth);
+  const rowSamples = blockWidth * samplesPerPixel;
+  const blockLength = (rowSamples * blockHeight * bitsPerSample) / 8;
+
+  // Samples for the whole page at the source bit depth
+  const samples = new Uint16Array(width * height * samplesPerPixel);
+
+  for (let b = 0; b < offsets.length; b++) {
+    const start = offsets[b] as number;
+    const end = start + (byteCounts[b] ?? 0);
+    if (end > view.byteLength) {
+      throw new Error("TIFF image data runs past the end of the file");
+    }
+    const raw = new Uint8Array(
+      view.buffer,
+      view.byteOffset + start,
+      end - start,
+    );
+    const block = readSamples(
+      await decompress(compression, raw, blockLength),
+      bitsPerSample,
+      littleEndian,
+      rowSamples,
+      samplesPerPixel,
+      predictor,
+    );
+
+    const x0 = (b % blocksAcross) * blockWidth;
+    const y0 = Math.floor(b / blocksAcross) * blockHeight;
+    const copyWidth = Math.min(blockWidth, width - x0) * samplesPerPixel;
+    for (let y = 0; y < blockHeight && y0 + y < height; y++) {
+      const from = y * rowSamples;
+      const to = ((y0 + y) * width + x0) * samplesPerPixel;
+      samples.set(block.subarray(from, from + copyWidth), to);
+    }
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  const shift = bitsPerSample - 8;
+  const colorMap = tags.get(TAG_COLOR_MAP);
+  const paletteSize = 1 << bitsPerSample;
+
+  for (let p = 0; p < width * height; p++) {
+    const s = p * samplesPerPixel;
+    const first = samples[s] as number;
+    let r: number;
+    let g: number;
+    let b: number;
+
+    switch (photometric) {
+      case PHOTOMETRIC_WHITE_IS_ZERO:
+        r = g = b = 255 - (first >> shift);
+        break;
+      case PHOTOMETRIC_BLACK_IS_ZERO:
+        r = g = b = first >> shift;
+        break;
+      case PHOTOMETRIC_RGB:
+        r = first >> shift;
+        g = (samples[s + 1] as number) >> shift;
+        b = (samples[s + 2] as number) >> shift;
+        break;
+      case PHOTOMETRIC_PALETTE:
+        if (!colorMap) {
+          throw new Error("Palette TIFF is missing its colour map");
+        }
+        // Colour map entries are 16-bit: all reds, then greens, then blues
+        r = (colorMap[first] ?? 0) >> 8;
+        g = (colorMap[paletteSize + first] ?? 0) >> 8;
+        b = (colorMap[paletteSize * 2 + first] ?? 0) >> 8;
+        break;
+      default:
+        throw new Error(
+          `Unsupported TIFF photometric interpretation ${photometric}`,
+        );
+    }
+
+    let a = 255;
+    if (hasAlpha) {
+      a = (samples[s + colorChannels] as number) >> shift;
+      if (premultiplied && a > 0 && a < 255) {
+        r = (r * 255) / a;
+        g = (g * 255) / a;
+        b = (b * 255) / a;
+      }
+    }
+
+    const o = p * 4;
+    data[o] = r;
+    data[o + 1] = g;
+    data[o + 2] = b;
+    data[o + 3] = a;
+  }
+
+  return { width, height, data };
+}
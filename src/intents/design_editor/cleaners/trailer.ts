@@ -0,0 +1,77 @@
+// Finds data appended after the end of a JPEG, PNG or WebP image. Decoders
+// stop at the end marker, so anything after it is invisible in a preview but
+// still travels with the file: Multi-Picture Format images, Google Motion
+// Photo videos, Samsung trailers or whole ZIP archives.
+
+import { indexOfAscii, matchesAscii } from "./bytes";
+import { findJpegEnd, isJpeg } from "./jpeg";
+import { findPngEnd, isPng } from "./png";
+import { findWebpEnd, isWebp } from "./webp";
+
+// What the appended bytes turned out to hold
+export type TrailerKind = "image" | "video" | "zip" | "samsung" | "unknown";
+
+export interface TrailingData {
+  // Offset at which the image ends and the appended data begins
+  offset: number;
+  // In bytes
+  size: number;
+  kinds: TrailerKind[];
+}
+
+const TRAILER_SIGNATURES: readonly {
+  kind: TrailerKind;
+  matches: (trailer: Uint8Array) => boolean;
+}[] = [
+  // Secondary JPEG images, e.g. MPF previews or depth maps
+  {
+    kind: "image",
+    matches: (trailer) =>
+      trailer[0] === 0xff && trailer[1] === 0xd8 && trailer[2] === 0xff,
+  },
+  // An MP4 file type box, as in Motion Photo and Live Photo videos
+  { kind: "video", matches: (trailer) => indexOfAscii(trailer, "ftyp") >= 4 },
+  // A ZIP local file header
+  {
+    kind: "zip",
+    matches: (trailer) => indexOfAscii(trailer, "PK\x03\x04") >= 0,
+  },
+  // Samsung's SEF trailer ends with its "SEFT" footer
+  {
+    kind: "samsung",
+    matches: (trailer) => matchesAscii(trailer, trailer.length - 4, "SEFT"),
+  },
+];
+
+function findImageEnd(bytes: Uint8Array): number | null {
+  try {
+    if (isJpeg(bytes)) return findJpegEnd(bytes);
+    if (isPng(bytes)) return findPngEnd(bytes);
+    if (isWebp(bytes)) return findWebpEnd(bytes);
+  } catch {
+    // A malformed file has no end to look past
+  }
+  return null;
+}
+
+/**
+ * Looks for bytes after the end of the image and names what they hold.
+ * Returns null when there are none, when they are only zero padding, and for
+ * TIFF and malformed files.
+ */
+export function findTrailingData(bytes: Uint8Array): TrailingData | null {
+  const offset = findImageEnd(bytes);
+  if (offset == null || offset >= bytes.length) return null;
+
+  const trailer = bytes.subarray(offset);
+  if (trailer.every((byte) => byte === 0)) return null;
+
+  const kinds = TRAILER_SIGNATURES.filter(({ matches }) =>
+    matches(trailer),
+  ).map(({ kind }) => kind);
+  return {
+    offset,
+    size: trailer.length,
+    kinds: kinds.length > 0 ? kinds : ["unknown"],
+  };
+}
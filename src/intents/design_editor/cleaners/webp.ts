@@ -0,0 +1,273 @@
+// Byte-level WebP cleaner. Rewrites the RIFF container without its EXIF and
+// XMP chunks and updates the VP8X feature flags to match, leaving the lossy,
+// lossless and alpha bitstreams untouched.
+
+import type { MetadataBlock, MetadataBlockType } from "./blocks";
+import { concatBytes, matchesAscii } from "./bytes";
+
+const RIFF_HEADER_SIZE = 12;
+const CHUNK_HEADER_SIZE = 8;
+
+// VP8X feature flags, stored in the first byte of the VP8X payload
+const ICC_FLAG = 0x20;
+const ALPHA_FLAG = 0x10;
+const EXIF_FLAG = 0x08;
+const XMP_FLAG = 0x04;
+
+// Chunks that describe the image itself. Everything else, including EXIF,
+// "XMP " and unknown chunks, is dropped.
+const IMAGE_CHUNKS = new Set([
+  "VP8X",
+  "VP8 ",
+  "VP8L",
+  "ALPH",
+  "ANIM",
+  "ANMF",
+  "ICCP",
+]);
+
+export interface WebpCleanOptions {
+  // Keeps the ICCP colour profile chunk (on by default)
+  keepIcc?: boolean;
+}
+
+export interface WebpChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+export function isWebp(bytes: Uint8Array): boolean {
+  return matchesAscii(bytes, 0, "RIFF") && matchesAscii(bytes, 8, "WEBP");
+}
+
+/**
+ * Splits a WebP file into its top-level RIFF chunks. Throws if the container
+ * header is missing or a chunk runs past the end of the file.
+ */
+export function readWebpChunks(bytes: Uint8Array): WebpChunk[] {
+  if (!isWebp(bytes)) {
+    throw new Error("Not a WebP file");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const riffEnd = Math.min(
+    CHUNK_HEADER_SIZE + view.getUint32(4, true),
+    bytes.length,
+  );
+  const chunks: WebpChunk[] = [];
+  let offset = RIFF_HEADER_SIZE;
+
+  while (offset + CHUNK_HEADER_SIZE <= riffEnd) {
+    const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const dataStart = offset + CHUNK_HEADER_SIZE;
+    const dataEnd = dataStart + size;
+    if (dataEnd > riffEnd) {
+      throw new Error(`Invalid WebP chunk size at offset ${offset}`);
+    }
+
+    chunks.push({ type, data: bytes.subarray(dataStart, dataEnd) });
+    // Chunk payloads are padded to an even length
+    offset = dataEnd + (size & 1);
+  }
+
+  if (chunks.length === 0) {
+    throw new Error("WebP file has no chunks");
+  }
+  return chunks;
+}
+
+/**
+ * Returns the offset where the RIFF container ends and any appended data
+ * begins.
+ */
+export function findWebpEnd(bytes: Uint8Array): number {
+  if (!isWebp(bytes)) {
+    throw new Error("Not a WebP file");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return Math.min(CHUNK_HEADER_SIZE + view.getUint32(4, true), bytes.length);
+}
+
+export function writeWebp(chunks: WebpChunk[]): Uint8Array<ArrayBuffer> {
+  const parts: Uint8Array[] = [];
+  for (const { type, data } of chunks) {
+    const header = new Uint8Array(CHUNK_HEADER_SIZE);
+    for (let i = 0; i < 4; i++) {
+      header[i] = type.charCodeAt(i);
+    }
+    new DataView(header.buffer).setUint32(4, data.length, true);
+    parts.push(header, data);
+    if (data.length & 1) parts.push(new Uint8Array(1));
+  }
+
+  const body = concatBytes(parts);
+  const output = new Uint8Array(RIFF_HEADER_SIZE + body.length);
+  output.set([0x52, 0x49, 0x46, 0x46], 0);
+  new DataView(output.buffer).setUint32(4, body.length + 4, true);
+  output.set([0x57, 0x45, 0x42, 0x50], 8);
+  output.set(body, RIFF_HEADER_SIZE);
+  return output;
+}
+
+/**
+ * Recomputes the metadata bits of the VP8X feature flags from the chunks that
+ * are actually present so decoders never look for metadata that has been
+ * removed. The alpha and animation bits describe image chunks that are always
+ * kept, so they are left as they were.
+ */
+function updateVp8xFlags(chunks: WebpChunk[]): WebpChunk[] {
+  const types = new Set(chunks.map(({ type }) => type));
+  return chunks.map((chunk) => {
+    if (chunk.type !== "VP8X" || chunk.data.length < 1) return chunk;
+
+    const data = chunk.data.slice();
+    let flags = (data[0] as number) & ~(ICC_FLAG | EXIF_FLAG | XMP_FLAG);
+    if (types.has("ICCP")) flags |= ICC_FLAG;
+    data[0] = flags;
+    return { type: chunk.type, data };
+  });
+}
+
+/**
+ * Removes the EXIF and XMP chunks (and any unknown chunk) from a WebP file,
+ * keeping the VP8X header consistent with what remains.
+ */
+export function cleanWebp(
+  bytes: Uint8Array,
+  { keepIcc = true }: WebpCleanOptions = {},
+): Uint8Array<ArrayBuffer> {
+  const kept = readWebpChunks(bytes).filter(
+    ({ type }) => IMAGE_CHUNKS.has(type) && (keepIcc || type !== "ICCP"),
+  );
+  const imageData = ["VP8 ", "VP8L", "ANMF"];
+  if (!kept.some(({ type }) => imageData.includes(type))) {
+    throw new Error("WebP file has no image data");
+  }
+  return writeWebp(updateVp8xFlags(kept));
+}
+
+/**
+ * Returns the payload of the ICCP chunk, or null when the file has none.
+ */
+export function readWebpIccProfile(bytes: Uint8Array): Uint8Array | null {
+  return (
+    readWebpChunks(bytes).find(({ type }) => type === "ICCP")?.data ?? null
+  );
+}
+
+/**
+ * Reads the canvas size and alpha usage from a simple-format bitstream, which
+ * is needed to add a VP8X header to files that do not have one.
+ */
+function readBitstreamInfo(chunk: WebpChunk): {
+  width: number;
+  height: number;
+  alpha: boolean;
+} {
+  const { type, data } = chunk;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (type === "VP8 " && data.length >= 10) {
+    return {
+      width: view.getUint16(6, true) & 0x3fff,
+      height: view.getUint16(8, true) & 0x3fff,
+      alpha: false,
+    };
+  }
+  if (type === "VP8L" && data.length >= 5) {
+    const bits = view.getUint32(1, true);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+      alpha: ((bits >> 28) & 1) === 1,
+    };
+  }
+  throw new Error("WebP file has no readable bitstream header");
+}
+
+function createVp8x(chunks: WebpChunk[]): WebpChunk {
+  const bitstream = chunks.find(
+    ({ type }) => type === "VP8 " || type === "VP8L",
+  );
+  if (!bitstream) {
+    throw new Error("WebP file has no image data");
+  }
+  const { width, height, alpha } = readBitstreamInfo(bitstream);
+  const data = new Uint8Array(10);
+  data[0] = alpha ? ALPHA_FLAG : 0;
+  for (let i = 0; i < 3; i++) {
+    data[4 + i] = ((width - 1) >> (i * 8)) & 0xff;
+    data[7 + i] = ((height - 1) >> (i * 8)) & 0xff;
+  }
+  return { type: "VP8X", data };
+}
+
+/**
+ * Appends a metadata chunk and sets its VP8X flag, upgrading simple-format
+ * files to the extended format when needed.
+ */
+function insertMetadataChunk(
+  bytes: Uint8Array,
+  type: string,
+  flag: number,
+  data: Uint8Array,
+): Uint8Array<ArrayBuffer> {
+  let chunks = readWebpChunks(bytes).filter((chunk) => chunk.type !== type);
+  if (chunks[0]?.type !== "VP8X") {
+    chunks = [createVp8x(chunks), ...chunks];
+  }
+
+  const [vp8x, ...rest] = chunks as [WebpChunk, ...WebpChunk[]];
+  const flags = vp8x.data.slice();
+  flags[0] = (flags[0] as number) | flag;
+  return writeWebp([{ type: "VP8X", data: flags }, ...rest, { type, data }]);
+}
+
+/**
+ * Appends an EXIF chunk holding `tiff` and sets the matching VP8X flag,
+ * upgrading simple-format files to the extended format when needed.
+ */
+export function insertWebpExif(
+  bytes: Uint8Array,
+  tiff: Uint8Array,
+): Uint8Array<ArrayBuffer> {
+  return insertMetadataChunk(bytes, "EXIF", EXIF_FLAG, tiff);
+}
+
+/**
+ * Appends an "XMP " chunk holding the UTF-8 `packet`. Call it after
+ * insertWebpExif, as the container expects XMP to come last.
+ */
+export function insertWebpXmp(
+  bytes: Uint8Array,
+  packet: Uint8Array,
+): Uint8Array<ArrayBuffer> {
+  return insertMetadataChunk(bytes, "XMP ", XMP_FLAG, packet);
+}
+
+const BLOCK_TYPES: Record<string, MetadataBlockType> = {
+  EXIF: "exif",
+  "XMP ": "xmp",
+  ICCP: "icc",
+};
+
+/**
+ * Lists the chunks that hold metadata with their full size, header and
+ * padding included. Unknown chunks count as "other".
+ */
+export function listWebpMetadataBlocks(bytes: Uint8Array): MetadataBlock[] {
+  return readWebpChunks(bytes).flatMap(({ type, data }) => {
+    const blockType =
+      type === "ICCP" || !IMAGE_CHUNKS.has(type)
+        ? (BLOCK_TYPES[type] ?? "other")
+        : null;
+    return blockType
+      ? [
+          {
+            type: blockType,
+            size: CHUNK_HEADER_SIZE + data.length + (data.length & 1),
+          },
+        ]
+      : [];
+  });
+}
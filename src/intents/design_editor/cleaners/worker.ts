@@ -0,0 +1,288 @@
+// Off-main-thread image work. Parsing metadata, stripping and decoding files
+// and redrawing large photos would otherwise freeze the side panel. Apps ship
+// as a single JS file, so the worker's entry point, worker_main.ts, is
+// bundled into a string at build time and loaded from a Blob URL. Files are
+// sent as ArrayBuffers and transferred rather than copied, both ways.
+
+import type { MetadataInfo } from "../metadata";
+import workerSource from "../worker_main?worker";
+import type { CleanOptions, CleanResult, CleanStage } from "./index";
+
+// Canvas transform matrix (a, b, c, d, e, f)
+type Transform = [number, number, number, number, number, number];
+
+type WorkerTask =
+  | {
+      type: "draw";
+      bitmap: ImageBitmap;
+      width: number;
+      height: number;
+      transform: Transform;
+      mimeType: string;
+      quality: number;
+    }
+  | { type: "dataUrl"; buffer: ArrayBuffer; mimeType: string }
+  | {
+      type: "readMetadata";
+      buffer: ArrayBuffer;
+      name: string;
+      mimeType: string;
+      lastModified: number;
+    }
+  | {
+      type: "clean";
+      buffer: ArrayBuffer;
+      mimeType: string;
+      options: Omit<CleanOptions, "onProgress">;
+    }
+  | { type: "renderTiffPage"; buffer: ArrayBuffer; page: number };
+
+// What the worker sends back for each task
+export interface WorkerResults {
+  draw: { buffer: ArrayBuffer; mimeType: string };
+  dataUrl: { dataUrl: string };
+  readMetadata: { metadata: MetadataInfo };
+  clean: { buffer: ArrayBuffer; result: Omit<CleanResult, "blob"> };
+  renderTiffPage: { buffer: ArrayBuffer; mimeType: string };
+}
+
+export type WorkerRequest = WorkerTask & { id: number };
+
+// Cleaning reports each stage as it starts, before its result
+export type WorkerResponse =
+  | { id: number; result: WorkerResults[keyof WorkerResults] }
+  | { id: number; stage: CleanStage }
+  | { id: number; error: string };
+
+let worker: Worker | null | undefined;
+let nextRequestId = 0;
+const pending = new Map<
+  number,
+  {
+    resolve: (result: unknown) => void;
+    reject: (e: Error) => void;
+    onProgress?: (stage: CleanStage) => void;
+  }
+>();
+
+function disableWorker(reason: string) {
+  worker?.terminate();
+  worker = null;
+  for (const { reject } of pending.values()) reject(new Error(reason));
+  pending.clear();
+}
+
+/**
+ * Rethrows an error from a worker task, unless the worker crashed while
+ * running it: the task is then run again on the main thread. Errors of the
+ * task itself, such as a file that cannot be decoded or running out of
+ * memory, would only happen again there.
+ */
+function rethrowTaskError(error: unknown): null {
+  if (worker == null) return null;
+  throw error;
+}
+
+/**
+ * Starts the worker on first use. Returns null where workers, OffscreenCanvas
+ * or createImageBitmap are missing, or the worker could not be started (for
+ * example when blob: workers are blocked), so callers use the main thread.
+ * Inside the worker itself, which has no DOM, it also returns null, so work
+ * runs where it is.
+ */
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker;
+  if (
+    typeof document === "undefined" ||
+    typeof Worker === "undefined" ||
+    typeof OffscreenCanvas === "undefined" ||
+    typeof createImageBitmap === "undefined"
+  ) {
+    worker = null;
+    return worker;
+  }
+
+  try {
+    const url = URL.createObjectURL(
+      new Blob([workerSource], { type: "text/javascript" }),
+    );
+    // The URL is kept alive: the worker lives for the rest of the session
+    worker = new Worker(url);
+    worker.onmessage = ({ data }: MessageEvent<WorkerResponse>) => {
+      const request = pending.get(data.id);
+      if (!request) return;
+      if ("stage" in data) {
+        request.onProgress?.(data.stage);
+        return;
+      }
+      pending.delete(data.id);
+      if ("error" in data) {
+        request.reject(new Error(data.error));
+      } else {
+        request.resolve(data.result);
+      }
+    };
+    worker.onerror = () => disableWorker("Image worker failed");
+  } catch {
+    worker = null;
+  }
+  return worker;
+}
+
+function runInWorker<T extends WorkerTask>(
+  target: Worker,
+  task: T,
+  transfer: Transferable[],
+  onProgress?: (stage: CleanStage) => void,
+): Promise<WorkerResults[T["type"]]> {
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, {
+      resolve: resolve as (result: unknown) => void,
+      reject,
+      onProgress,
+    });
+    const request: WorkerRequest = { ...task, id };
+    target.postMessage(request, transfer);
+  });
+}
+
+/**
+ * Draws a decoded bitmap with the given transform onto an OffscreenCanvas in
+ * the worker and encodes it. The bitmap is transferred, so it cannot be used
+ * afterwards. Returns null when the worker is not available.
+ */
+export async function drawInWorker(
+  bitmap: ImageBitmap,
+  size: { width: number; height: number },
+  transform: Transform,
+  mimeType: string,
+  quality: number,
+): Promise<Blob | null> {
+  const target = getWorker();
+  if (!target) return null;
+
+  const { buffer, mimeType: type } = await runInWorker(
+    target,
+    { type: "draw", bitmap, ...size, transform, mimeType, quality },
+    [bitmap],
+  );
+  return new Blob([buffer], { type });
+}
+
+function readWithFileReader(blob: Blob): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      if (typeof reader.result === "string") {
+        resolve(reader.result);
+      } else {
+        reject(new Error("Failed to read image data"));
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Converts a blob to a data URL, in the worker when possible. The blob's bytes
+ * are copied once and the copy is transferred rather than cloned.
+ */
+export async function blobToDataUrl(blob: Blob): Promise<string> {
+  const target = getWorker();
+  if (target) {
+    try {
+      const buffer = await blob.arrayBuffer();
+      const { dataUrl } = await runInWorker(
+        target,
+        { type: "dataUrl", buffer, mimeType: blob.type },
+        [buffer],
+      );
+      return dataUrl;
+    } catch {
+      // Fall back to the main thread below
+    }
+  }
+  return readWithFileReader(blob);
+}
+
+/**
+ * Parses a file's metadata in the worker. Returns null when the worker is not
+ * available or failed, so the caller parses it on the main thread.
+ */
+export async function readMetadataInWorker(
+  file: File,
+): Promise<MetadataInfo | null> {
+  const target = getWorker();
+  if (!target) return null;
+  try {
+    const buffer = await file.arrayBuffer();
+    const { metadata } = await runInWorker(
+      target,
+      {
+        type: "readMetadata",
+        buffer,
+        name: file.name,
+        mimeType: file.type,
+        lastModified: file.lastModified,
+      },
+      [buffer],
+    );
+    return metadata;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Cleans an image in the worker, which reports each stage as it starts.
+ * Returns null when the worker is not available or crashed, so the caller
+ * cleans the image on the main thread. Errors while cleaning are thrown.
+ */
+export async function cleanInWorker(
+  file: Blob,
+  { onProgress, ...options }: CleanOptions,
+): Promise<CleanResult | null> {
+  const target = getWorker();
+  if (!target) return null;
+  try {
+    const buffer = await file.arrayBuffer();
+    const cleaned = await runInWorker(
+      target,
+      { type: "clean", buffer, mimeType: file.type, options },
+      [buffer],
+      onProgress,
+    );
+    return {
+      ...cleaned.result,
+      blob: new Blob([cleaned.buffer], { type: cleaned.result.mimeType }),
+    };
+  } catch (error) {
+    return rethrowTaskError(error);
+  }
+}
+
+/**
+ * Decodes a TIFF page to PNG in the worker. Returns null when the worker is
+ * not available or crashed, so the caller decodes it on the main thread.
+ * Errors while decoding are thrown.
+ */
+export async function renderTiffPageInWorker(
+  file: Blob,
+  page: number,
+): Promise<Blob | null> {
+  const target = getWorker();
+  if (!target) return null;
+  try {
+    const buffer = await file.arrayBuffer();
+    const rendered = await runInWorker(
+      target,
+      { type: "renderTiffPage", buffer, page },
+      [buffer],
+    );
+    return new Blob([rendered.buffer], { type: rendered.mimeType });
+  } catch (error) {
+    return rethrowTaskError(error);
+  }
+}
@@ -0,0 +1,177 @@
+import type { AiDisclosure, ImageMimeType } from "@canva/asset";
+import type { AiSignal } from "./ai_provenance";
+import { getAiDisclosure, readAiSignals } from "./ai_provenance";
+import type {
+  CleanStage,
+  ColorProfileMode,
+  ColorProfileOutcome,
+  ContentCredentialsMode,
+  ContentCredentialsOutcome,
+  OutputSettings,
+  Redaction,
+  SizeFit,
+} from "./cleaners";
+import { blobToDataUrl, cleanImage } from "./cleaners";
+import type { GeneralisedValue, GeneraliseSettings } from "./generalise";
+import {
+  describeGeneralisation,
+  getGeneralisedExif,
+  getReplacedFields,
+  getWrittenFields,
+} from "./generalise";
+import type { MetadataInfo } from "./metadata";
+import type { MetadataField } from "./profiles";
+import { getKeptExif, getPresentFields } from "./profiles";
+import type { RightsInfo } from "./rights";
+import { buildRightsXmp, getRightsExif, hasRights, trimRights } from "./rights";
+import type { VerificationReport } from "./verification";
+import { verifyCleanedImage } from "./verification";
+
+// A cleaned image, ready to upload or drag into the design
+export interface CleanedImage {
+  url: string;
+  mimeType: ImageMimeType;
+  width: number;
+  height: number;
+  // Sent with the upload so Canva labels AI-generated images
+  aiDisclosure: AiDisclosure;
+}
+
+export interface CleanedFile {
+  image: CleanedImage;
+  // The cleaned file itself, e.g. for hashing it
+  blob: Blob;
+  kept: MetadataField[];
+  removed: MetadataField[];
+  // Fields written back with less detail, with their original values
+  generalised: GeneralisedValue[];
+  colorProfile: ColorProfileOutcome | null;
+  contentCredentials: ContentCredentialsOutcome | null;
+  // Null when the output settings set no target size
+  sizeFit: SizeFit | null;
+  // Attribution written into the cleaned file, or null when none was
+  rights: RightsInfo | null;
+  // Signs of AI generation found in the original before it was cleaned
+  aiSignals: AiSignal[];
+  verification: VerificationReport;
+}
+
+// cleanImage's stages, then the check of the cleaned file
+export type CleanFileStage = CleanStage | "verifying";
+
+export interface CleanFileOptions {
+  keptFields: readonly MetadataField[];
+  colorProfile: ColorProfileMode;
+  contentCredentials: ContentCredentialsMode;
+  tiffPage?: number;
+  // Attribution to re-stamp into the cleaned file
+  rights?: RightsInfo;
+  // Overrides the disclosure that follows from the AI signals found
+  aiDisclosure?: AiDisclosure;
+  // Regions to blur, pixelate or fill before the image is cleaned
+  redactions?: readonly Redaction[];
+  // Fields to write back with less detail, whatever the profile says
+  generalise?: GeneraliseSettings;
+  // Format, quality and size of the cleaned file
+  output?: OutputSettings;
+  onProgress?: (stage: CleanFileStage) => void;
+}
+
+/**
+ * Cleans one file with the chosen profile and reports which of its fields were
+ * kept, generalised and removed. Any rights given are then stamped into the
+ * clean file, replacing the original Artist and Copyright. The cleaned file is
+ * parsed again to prove that nothing else survived. Signs of AI generation
+ * are read first, as cleaning removes them, and set the upload's disclosure.
+ */
+export async function cleanFile(
+  file: File,
+  metadata: MetadataInfo,
+  {
+    keptFields,
+    colorProfile,
+    contentCredentials,
+    tiffPage = 0,
+    rights,
+    aiDisclosure,
+    redactions,
+    generalise,
+    output,
+    onProgress,
+  }: CleanFileOptions,
+): Promise<CleanedFile> {
+  const aiSignals = await readAiSignals(file, metadata);
+
+  const stamp = rights && hasRights(rights) ? trimRights(rights) : null;
+  const rightsExif = stamp ? getRightsExif(stamp) : {};
+  const xmp = stamp ? buildRightsXmp(stamp) : null;
+
+  // Only fields that are actually present can be kept or removed. Fields the
+  // stamp writes count as removed, as their original value is gone, and
+  // generalised fields are never kept at full detail
+  const generalisation = generalise
+    ? describeGeneralisation(metadata, generalise)
+    : [];
+  const replaced = getReplacedFields(generalisation);
+  const fields = getPresentFields(metadata);
+  const fieldsToKeep = fields.filter(
+    (field) =>
+      keptFields.includes(field) &&
+      !(field in rightsExif) &&
+      !replaced.includes(field),
+  );
+  const keepExif = {
+    ...(fieldsToKeep.length > 0 ? getKeptExif(metadata, fieldsToKeep) : {}),
+    ...(generalise ? getGeneralisedExif(metadata, generalise) : {}),
+    ...rightsExif,
+  };
+
+  // Strip metadata segments at byte level, re-encoding only as a fallback,
+  // then write back just the fields the chosen profile keeps
+  const cleaned = await cleanImage(file, {
+    tiffPage,
+    orientation: metadata.orientation,
+    colorProfile,
+    contentCredentials,
+    redactions,
+    output,
+    onProgress,
+    keepExif: Object.keys(keepExif).length > 0 ? keepExif : undefined,
+    xmp: xmp ?? undefined,
+  });
+  const kept = cleaned.exifRewritten ? fieldsToKeep : [];
+  const generalised = cleaned.exifRewritten ? generalisation : [];
+  const stamped = cleaned.xmpWritten ? stamp : null;
+
+  onProgress?.("verifying");
+  const verification = await verifyCleanedImage(cleaned.blob, {
+    keptFields: [...kept, ...getWrittenFields(generalised)],
+    rightsStamped: stamped != null,
+  });
+
+  // Convert blob to data URL for upload and draggable preview. This runs in
+  // the worker where possible, as it is slow for large images
+  return {
+    image: {
+      url: await blobToDataUrl(cleaned.blob),
+      mimeType: cleaned.mimeType,
+      width: cleaned.width,
+      height: cleaned.height,
+      aiDisclosure: aiDisclosure ?? getAiDisclosure(aiSignals),
+    },
+    blob: cleaned.blob,
+    kept,
+    removed: fields.filter(
+      (field) =>
+        !kept.includes(field) &&
+        !getReplacedFields(generalised).includes(field),
+    ),
+    generalised,
+    colorProfile: cleaned.colorProfile,
+    contentCredentials: cleaned.contentCredentials,
+    sizeFit: cleaned.sizeFit,
+    rights: stamped,
+    aiSignals,
+    verification,
+  };
+}
@@ -0,0 +1,150 @@
+import type { AiDisclosure } from "@canva/asset";
+import { Box, FormField, Rows, Select, Text } from "@canva/app-ui-kit";
+import { FormattedMessage, useIntl } from "react-intl";
+import type { AiSignal, AiSignalSource } from "../ai_provenance";
+import { MetadataRow } from "./metadata_row";
+
+/**
+ * Lists the signs of AI generation found in an image, with any prompt text.
+ * Prompts can describe people or places, so they are marked as a risk.
+ */
+export const AiProvenancePanel = ({
+  signals,
+}: {
+  signals: readonly AiSignal[];
+}) => {
+  const intl = useIntl();
+
+  const sourceLabels: Record<AiSignalSource, string> = {
+    parameters: intl.formatMessage({
+      defaultMessage: "Generator settings",
+      description:
+        "Label for the prompt and settings an AI image generator stored in the file",
+    }),
+    digitalSourceType: intl.formatMessage({
+      defaultMessage: "IPTC source type",
+      description:
+        "Label for the IPTC digital source type that declares an image as AI-generated",
+    }),
+    software: intl.formatMessage({
+      defaultMessage: "Made with",
+      description: "Label for an AI tool named as the software of an image",
+    }),
+    contentCredentials: intl.formatMessage({
+      defaultMessage: "Content Credentials",
+      description:
+        "Label for C2PA Content Credentials that declare an image as AI-generated",
+    }),
+  };
+  const prompts = signals.flatMap(({ prompt }) => (prompt ? [prompt] : []));
+
+  return (
+    <Box background="neutralLow" borderRadius="standard" padding="1.5u">
+      <Rows spacing="0.5u">
+        <Text size="small" variant="bold">
+          <FormattedMessage
+            defaultMessage="AI generation"
+            description="Heading for the signs of AI generation found in an image"
+          />
+        </Text>
+        {signals.map(({ source, detail }, index) => (
+          <MetadataRow
+            key={index}
+            label={sourceLabels[source]}
+            value={
+              detail ??
+              intl.formatMessage({
+                defaultMessage: "AI-generated",
+                description:
+                  "Shown when a sign of AI generation does not name the tool that made the image",
+              })
+            }
+          />
+        ))}
+        {[...new Set(prompts)].map((prompt, index) => (
+          <MetadataRow
+            key={`prompt-${index}`}
+            label={intl.formatMessage({
+              defaultMessage: "Prompt",
+              description:
+                "Label for the text prompt an AI image generator stored in the file",
+            })}
+            value={prompt}
+            isRisk
+          />
+        ))}
+      </Rows>
+    </Box>
+  );
+};
+
+/**
+ * Chooses the AI disclosure sent to Canva with the cleaned image. It starts
+ * from what was found in the file and can be overridden.
+ */
+export const AiDisclosurePicker = ({
+  disclosure,
+  detected,
+  disabled,
+  onChange,
+}: {
+  disclosure: AiDisclosure;
+  // True when the file holds signs of AI generation
+  detected: boolean;
+  disabled?: boolean;
+  onChange: (disclosure: AiDisclosure) => void;
+}) => {
+  const intl = useIntl();
+
+  return (
+    <FormField
+      label={intl.formatMessage({
+        defaultMessage: "AI disclosure",
+        description:
+          "Label for the picker that sets whether the uploaded image is disclosed as AI-generated",
+      })}
+      description={
+        detected
+          ? intl.formatMessage({
+              defaultMessage:
+                "This image's metadata says it was made with AI. Cleaning removes that record, so Canva is told here instead.",
+              description:
+                "Explains that the AI disclosure was set from the image's metadata before cleaning removes it",
+            })
+          : intl.formatMessage({
+              defaultMessage:
+                "No sign of AI generation was found. Change this if you know the image was made with AI.",
+              description:
+                "Explains that no AI generation metadata was found and the disclosure can still be changed",
+            })
+      }
+      value={disclosure}
+      control={(props) => (
+        <Select<AiDisclosure>
+          {...props}
+          options={[
+            {
+              value: "app_generated",
+              label: intl.formatMessage({
+                defaultMessage: "AI-generated",
+                description:
+                  "Option that discloses the uploaded image as AI-generated",
+              }),
+            },
+            {
+              value: "none",
+              label: intl.formatMessage({
+                defaultMessage: "Not AI-generated",
+                description:
+                  "Option that discloses the uploaded image as not AI-generated",
+              }),
+            },
+          ]}
+          onChange={onChange}
+          disabled={disabled}
+          stretch
+        />
+      )}
+    />
+  );
+};
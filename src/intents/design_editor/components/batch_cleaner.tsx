@@ -0,0 +1,524 @@
+import {
+  Alert,
+  Badge,
+  Box,
+  Button,
+  Column,
+  Columns,
+  FileInput,
+  ImageCard,
+  Rows,
+  Text,
+} from "@canva/app-ui-kit";
+import { useFeatureSupport } from "@canva/app-hooks";
+import { addElementAtCursor, addElementAtPoint, ui } from "@canva/design";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { FormattedMessage, useIntl } from "react-intl";
+import { getImageDragConfig, uploadCleanedImage } from "../assets";
+import type {
+  ColorProfileMode,
+  ContentCredentials,
+  ContentCredentialsMode,
+  IccProfileInfo,
+} from "../cleaners";
+import { getColorProfile, getContentCredentials } from "../cleaners";
+import type { CleanedFile, CleanedImage } from "../cleaning";
+import { cleanFile } from "../cleaning";
+import type { GeneraliseSettings } from "../generalise";
+import { NO_GENERALISATION } from "../generalise";
+import type { MetadataInfo } from "../metadata";
+import { readMetadata } from "../metadata";
+import type { MetadataField, RemovalProfile } from "../profiles";
+import {
+  getPresentFields,
+  METADATA_FIELDS,
+  PROFILE_KEPT_FIELDS,
+} from "../profiles";
+import type { RightsInfo } from "../rights";
+import { EMPTY_RIGHTS } from "../rights";
+import { getMetadataRisks } from "../risks";
+import { ColorProfilePicker } from "./color_profile_picker";
+import { ContentCredentialsPicker } from "./content_credentials";
+import { GeneralisePicker } from "./generalise_picker";
+import { RemovalProfilePicker } from "./removal_profile_picker";
+import { RightsForm } from "./rights_form";
+
+type BatchStatus = "reading" | "read" | "cleaning" | "cleaned" | "failed";
+
+interface BatchItem {
+  id: number;
+  file: File;
+  status: BatchStatus;
+  metadata?: MetadataInfo;
+  colorProfile?: IccProfileInfo | null;
+  contentCredentials?: ContentCredentials | null;
+  result?: CleanedFile;
+}
+
+/**
+ * Cleans several images in one go. Each file is read and cleaned in turn,
+ * one at a time, and shows its own status in the queue. A file that fails
+ * can be retried or removed from the queue. Output settings, redactions and
+ * the AI disclosure override are only offered for a single image: batch
+ * images keep their format and size, and their AI disclosure is detected
+ * from each file.
+ */
+export const BatchCleaner = ({
+  files,
+  onReset,
+}: {
+  files: File[];
+  onReset: () => void;
+}) => {
+  const intl = useIntl();
+  const isSupported = useFeatureSupport();
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [removalProfile, setRemovalProfile] =
+    useState<RemovalProfile>("stripAll");
+  const [customKeptFields, setCustomKeptFields] = useState<MetadataField[]>([]);
+  const [colorProfileMode, setColorProfileMode] =
+    useState<ColorProfileMode>("convert");
+  const [contentCredentialsMode, setContentCredentialsMode] =
+    useState<ContentCredentialsMode>("remove");
+  const [rights, setRights] = useState<RightsInfo>(EMPTY_RIGHTS);
+  const [generaliseSettings, setGeneraliseSettings] =
+    useState<GeneraliseSettings>(NO_GENERALISATION);
+  const nextId = useRef(0);
+  const addedFiles = useRef<File[] | null>(null);
+
+  const keptFields =
+    removalProfile === "custom"
+      ? customKeptFields
+      : PROFILE_KEPT_FIELDS[removalProfile];
+  const presentFields = METADATA_FIELDS.filter((field) =>
+    items.some(
+      ({ metadata }) => metadata && getPresentFields(metadata).includes(field),
+    ),
+  );
+  const hasColorProfiles = items.some(({ colorProfile }) => colorProfile);
+  const hasContentCredentials = items.some(
+    ({ contentCredentials }) => contentCredentials,
+  );
+  const readyItems = items.filter(({ status }) => status === "read");
+  const cleanedItems = items.filter(({ status }) => status === "cleaned");
+
+  const updateItem = useCallback((id: number, update: Partial<BatchItem>) => {
+    setItems((current) =>
+      current.map((item) => (item.id === id ? { ...item, ...update } : item)),
+    );
+  }, []);
+
+  const readItem = useCallback(
+    async (id: number, file: File) => {
+      updateItem(id, { status: "reading" });
+      try {
+        updateItem(id, {
+          status: "read",
+          colorProfile: await getColorProfile(file),
+          contentCredentials: await getContentCredentials(file),
+          metadata: await readMetadata(file),
+        });
+      } catch {
+        updateItem(id, { status: "failed" });
+      }
+    },
+    [updateItem],
+  );
+
+  const addFiles = useCallback(
+    async (newFiles: File[]) => {
+      const newItems = newFiles.map(
+        (file): BatchItem => ({
+          id: nextId.current++,
+          file,
+          status: "reading",
+        }),
+      );
+      setItems((current) => [...current, ...newItems]);
+
+      for (const { id, file } of newItems) {
+        await readItem(id, file);
+      }
+    },
+    [readItem],
+  );
+
+  useEffect(() => {
+    // Guards against effects running twice in development
+    if (addedFiles.current === files) return;
+    addedFiles.current = files;
+    addFiles(files);
+  }, [files, addFiles]);
+
+  const cleanItem = useCallback(
+    async ({ id, file, metadata }: BatchItem) => {
+      updateItem(id, { status: "cleaning" });
+      try {
+        const result = await cleanFile(file, metadata ?? {}, {
+          keptFields,
+          colorProfile: colorProfileMode,
+          contentCredentials: contentCredentialsMode,
+          rights,
+          generalise: generaliseSettings,
+        });
+        updateItem(id, { status: "cleaned", result });
+      } catch {
+        updateItem(id, { status: "failed" });
+      }
+    },
+    [
+      keptFields,
+      colorProfileMode,
+      contentCredentialsMode,
+      rights,
+      generaliseSettings,
+      updateItem,
+    ],
+  );
+
+  const handleCleanAll = useCallback(async () => {
+    setBusy(true);
+    setError(null);
+    for (const item of readyItems) {
+      await cleanItem(item);
+    }
+    setBusy(false);
+  }, [readyItems, cleanItem]);
+
+  // A file that failed to be read is read again; one that failed to be
+  // cleaned is cleaned again with the current settings
+  const handleRetry = useCallback(
+    async (item: BatchItem) => {
+      setBusy(true);
+      setError(null);
+      if (item.metadata) {
+        await cleanItem(item);
+      } else {
+        await readItem(item.id, item.file);
+      }
+      setBusy(false);
+    },
+    [cleanItem, readItem],
+  );
+
+  const handleRemove = useCallback((id: number) => {
+    setItems((current) => current.filter((item) => item.id !== id));
+  }, []);
+
+  // Determine which addElement method is supported
+  const addElement = [addElementAtPoint, addElementAtCursor].find((fn) =>
+    isSupported(fn),
+  );
+
+  const addToDesign = useCallback(
+    async (image: CleanedImage) => {
+      if (!addElement) return;
+      const asset = await uploadCleanedImage(image);
+      await addElement({
+        type: "image",
+        ref: asset.ref,
+        altText: {
+          text: intl.formatMessage({
+            defaultMessage: "Image with metadata removed",
+            description: "Alt text for cleaned image",
+          }),
+          decorative: false,
+        },
+      });
+    },
+    [addElement, intl],
+  );
+
+  const handleAdd = useCallback(
+    async (images: CleanedImage[]) => {
+      setBusy(true);
+      setError(null);
+      try {
+        for (const image of images) {
+          await addToDesign(image);
+        }
+      } catch {
+        setError(
+          intl.formatMessage({
+            defaultMessage: "Failed to add image to design. Please try again.",
+            description: "Error message when adding image fails",
+          }),
+        );
+      }
+      setBusy(false);
+    },
+    [addToDesign, intl],
+  );
+
+  const handleDragStart = useCallback(
+    (event: React.DragEvent<HTMLElement>, image: CleanedImage) => {
+      const dragData = getImageDragConfig(image);
+      if (isSupported(ui.startDragToPoint)) {
+        ui.startDragToPoint(event, dragData);
+      } else if (isSupported(ui.startDragToCursor)) {
+        ui.startDragToCursor(event, dragData);
+      }
+    },
+    [isSupported],
+  );
+
+  const getStatusBadge = (item: BatchItem) => {
+    switch (item.status) {
+      case "reading":
+        return {
+          tone: "info" as const,
+          text: intl.formatMessage({
+            defaultMessage: "Reading",
+            description: "Batch queue status while a file's metadata is read",
+          }),
+        };
+      case "read":
+        return item.metadata && getMetadataRisks(item.metadata).length > 0
+          ? {
+              tone: "warn" as const,
+              text: intl.formatMessage({
+                defaultMessage: "Risks found",
+                description:
+                  "Batch queue status for a file that contains personal data",
+              }),
+            }
+          : {
+              tone: "contrast" as const,
+              text: intl.formatMessage({
+                defaultMessage: "No risks found",
+                description:
+                  "Batch queue status for a file without personal data",
+              }),
+            };
+      case "cleaning":
+        return {
+          tone: "info" as const,
+          text: intl.formatMessage({
+            defaultMessage: "Cleaning",
+            description: "Batch queue status while a file is cleaned",
+          }),
+        };
+      case "cleaned":
+        return item.result?.verification.passed === false
+          ? {
+              tone: "critical" as const,
+              text: intl.formatMessage({
+                defaultMessage: "Check failed",
+                description:
+                  "Batch queue status for a cleaned file in which sensitive metadata was still found",
+              }),
+            }
+          : {
+              tone: "positive" as const,
+              text: intl.formatMessage({
+                defaultMessage: "Cleaned",
+                description: "Batch queue status for a cleaned file",
+              }),
+            };
+      default:
+        return {
+          tone: "critical" as const,
+          text: intl.formatMessage({
+            defaultMessage: "Failed",
+            description:
+              "Batch queue status for a file that could not be read or cleaned",
+          }),
+        };
+    }
+  };
+
+  return (
+    <Rows spacing="2u">
+      {error && <Alert tone="critical">{error}</Alert>}
+
+      <Text size="small" tone="secondary">
+        <FormattedMessage
+          defaultMessage="{cleaned} of {total} images cleaned"
+          description="Progress summary for a batch of images"
+          values={{ cleaned: cleanedItems.length, total: items.length }}
+        />
+      </Text>
+
+      <Rows spacing="1u">
+        {items.map((item) => {
+          const badge = getStatusBadge(item);
+          const image = item.result?.image;
+          return (
+            <Box
+              key={item.id}
+              background="neutralLow"
+              borderRadius="standard"
+              padding="1u"
+            >
+              <Rows spacing="1u">
+                <Columns spacing="1u" alignY="center">
+                  <Column>
+                    <Text size="small" lineClamp={1}>
+                      {item.file.name}
+                    </Text>
+                  </Column>
+                  <Column width="content">
+                    <Badge tone={badge.tone} text={badge.text} />
+                  </Column>
+                </Columns>
+                {item.status === "failed" && (
+                  <Columns spacing="1u">
+                    <Column>
+                      <Button
+                        variant="secondary"
+                        onClick={() => handleRetry(item)}
+                        disabled={busy}
+                        stretch
+                      >
+                        {intl.formatMessage({
+                          defaultMessage: "Retry",
+                          description:
+                            "Button to read or clean a file in the batch again after it failed",
+                        })}
+                      </Button>
+                    </Column>
+                    <Column>
+                      <Button
+                        variant="secondary"
+                        onClick={() => handleRemove(item.id)}
+                        disabled={busy}
+                        stretch
+                      >
+                        {intl.formatMessage({
+                          defaultMessage: "Remove",
+                          description:
+                            "Button to take a failed file out of the batch",
+                        })}
+                      </Button>
+                    </Column>
+                  </Columns>
+                )}
+                {image && (
+                  <ImageCard
+                    ariaLabel={intl.formatMessage(
+                      {
+                        defaultMessage:
+                          "Cleaned {fileName} - click or drag to add to your design",
+                        description:
+                          "Aria label for a draggable cleaned image in a batch",
+                      },
+                      { fileName: item.file.name },
+                    )}
+                    thumbnailUrl={image.url}
+                    onClick={() => handleAdd([image])}
+                    onDragStart={(event: React.DragEvent<HTMLElement>) =>
+                      handleDragStart(event, image)
+                    }
+                    borderRadius="standard"
+                    alt={intl.formatMessage({
+                      defaultMessage: "Image with metadata removed",
+                      description: "Alt text for cleaned image preview",
+                    })}
+                  />
+                )}
+              </Rows>
+            </Box>
+          );
+        })}
+      </Rows>
+
+      {readyItems.length > 0 && (
+        <Rows spacing="1u">
+          {presentFields.length > 0 && (
+            <RemovalProfilePicker
+              profile={removalProfile}
+              keptFields={customKeptFields}
+              availableFields={presentFields}
+              disabled={busy}
+              onProfileChange={setRemovalProfile}
+              onKeptFieldsChange={setCustomKeptFields}
+            />
+          )}
+          {presentFields.length > 0 && (
+            <GeneralisePicker
+              availableFields={presentFields}
+              settings={generaliseSettings}
+              disabled={busy}
+              onChange={setGeneraliseSettings}
+            />
+          )}
+          <RightsForm rights={rights} disabled={busy} onChange={setRights} />
+          {hasColorProfiles && (
+            <ColorProfilePicker
+              mode={colorProfileMode}
+              disabled={busy}
+              onModeChange={setColorProfileMode}
+            />
+          )}
+          {hasContentCredentials && (
+            <ContentCredentialsPicker
+              mode={contentCredentialsMode}
+              disabled={busy}
+              onModeChange={setContentCredentialsMode}
+            />
+          )}
+          <Text size="small" tone="tertiary">
+            <FormattedMessage
+              defaultMessage="Batch images keep their format and size, and AI disclosure is detected from each file. To change the output, redact areas or set the AI disclosure, clean images one at a time."
+              description="Explains which settings of the single-image cleaner do not apply to a batch"
+            />
+          </Text>
+          <Button
+            variant="primary"
+            onClick={handleCleanAll}
+            disabled={busy}
+            loading={busy}
+            stretch
+          >
+            {intl.formatMessage(
+              {
+                defaultMessage: "Clean all ({count})",
+                description:
+                  "Button to clean every image in the batch that has been read",
+              },
+              { count: readyItems.length },
+            )}
+          </Button>
+        </Rows>
+      )}
+
+      {cleanedItems.length > 1 && addElement && (
+        <Button
+          variant="primary"
+          onClick={() =>
+            handleAdd(
+              cleanedItems.flatMap(({ result }) =>
+                result ? [result.image] : [],
+              ),
+            )
+          }
+          disabled={busy}
+          stretch
+        >
+          {intl.formatMessage(
+            {
+              defaultMessage: "Add all to design ({count})",
+              description: "Button to add every cleaned image to the design",
+            },
+            { count: cleanedItems.length },
+          )}
+        </Button>
+      )}
+
+      <FileInput
+        accept={["image/jpeg", "image/png", "image/webp", "image/tiff"]}
+        onDropAcceptedFiles={addFiles}
+        multiple
+        stretchButton
+      />
+      <Button variant="secondary" onClick={onReset} stretch>
+        {intl.formatMessage({
+          defaultMessage: "Start over",
+          description: "Button to clear the batch and start again",
+        })}
+      </Button>
+    </Rows>
+  );
+};
@@ -0,0 +1,81 @@
+import { FormField, Select } from "@canva/app-ui-kit";
+import { useIntl } from "react-intl";
+import type { ColorProfileMode, IccProfileInfo } from "../cleaners";
+
+export const ColorProfilePicker = ({
+  mode,
+  profile,
+  disabled,
+  onModeChange,
+}: {
+  mode: ColorProfileMode;
+  // Omitted when several images with different profiles are cleaned together
+  profile?: IccProfileInfo;
+  disabled?: boolean;
+  onModeChange: (mode: ColorProfileMode) => void;
+}) => {
+  const intl = useIntl();
+
+  return (
+    <FormField
+      label={intl.formatMessage({
+        defaultMessage: "Colour profile",
+        description: "Label for the ICC colour profile handling picker",
+      })}
+      description={
+        profile
+          ? intl.formatMessage(
+              {
+                defaultMessage:
+                  "This image uses the {profileName} colour profile. It is not personal data.",
+                description:
+                  "Explains which ICC colour profile the image has and that it is not personal data",
+              },
+              { profileName: profile.description ?? profile.colorSpace },
+            )
+          : intl.formatMessage({
+              defaultMessage:
+                "Some of these images have a colour profile. It is not personal data.",
+              description:
+                "Explains that some images in a batch have an ICC colour profile and that it is not personal data",
+            })
+      }
+      value={mode}
+      control={(props) => (
+        <Select<ColorProfileMode>
+          {...props}
+          options={[
+            {
+              value: "convert",
+              label: intl.formatMessage({
+                defaultMessage: "Convert to sRGB",
+                description:
+                  "Option that converts the image colours to sRGB and removes the ICC profile",
+              }),
+              description: intl.formatMessage({
+                defaultMessage:
+                  "Removes the profile and adjusts the colours to match",
+                description: "Description of the convert to sRGB option",
+              }),
+            },
+            {
+              value: "keep",
+              label: intl.formatMessage({
+                defaultMessage: "Keep profile",
+                description:
+                  "Option that keeps the ICC colour profile in the cleaned image",
+              }),
+              description: intl.formatMessage({
+                defaultMessage: "Keeps wide-gamut colours exactly as they are",
+                description: "Description of the keep profile option",
+              }),
+            },
+          ]}
+          onChange={onModeChange}
+          disabled={disabled}
+          stretch
+        />
+      )}
+    />
+  );
+};
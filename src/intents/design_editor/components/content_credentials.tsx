@@ -0,0 +1,199 @@
+import {
+  Badge,
+  Box,
+  Column,
+  Columns,
+  FormField,
+  Rows,
+  Select,
+  Text,
+} from "@canva/app-ui-kit";
+import { FormattedMessage, useIntl } from "react-intl";
+import type { ContentCredentials, ContentCredentialsMode } from "../cleaners";
+import { MetadataRow } from "./metadata_row";
+
+/**
+ * Summarises the active C2PA manifest of an image: the tool that made it, the
+ * recorded actions, who signed it and whether it declares generative AI.
+ */
+export const ContentCredentialsSummary = ({
+  credentials,
+}: {
+  credentials: ContentCredentials;
+}) => {
+  const intl = useIntl();
+  const { claimGenerator, actions, signer, aiGenerated, manifestCount } =
+    credentials;
+
+  return (
+    <Box background="neutralLow" borderRadius="standard" padding="1.5u">
+      <Rows spacing="0.5u">
+        <Columns spacing="1u" alignY="center">
+          <Column>
+            <Text size="small" variant="bold">
+              <FormattedMessage
+                defaultMessage="Content Credentials"
+                description="Heading for the C2PA Content Credentials found in an image"
+              />
+            </Text>
+          </Column>
+          {aiGenerated && (
+            <Column width="content">
+              <Badge
+                tone="warn"
+                text={intl.formatMessage({
+                  defaultMessage: "AI-generated",
+                  description:
+                    "Badge when the Content Credentials declare the image as made with generative AI",
+                })}
+              />
+            </Column>
+          )}
+        </Columns>
+        {claimGenerator && (
+          <MetadataRow
+            label={intl.formatMessage({
+              defaultMessage: "Made with",
+              description:
+                "Label for the tool that wrote the Content Credentials",
+            })}
+            value={claimGenerator}
+          />
+        )}
+        {actions.length > 0 && (
+          <MetadataRow
+            label={intl.formatMessage({
+              defaultMessage: "Actions",
+              description:
+                "Label for the edits recorded in the Content Credentials",
+            })}
+            value={intl.formatList([...new Set(actions)])}
+          />
+        )}
+        <MetadataRow
+          label={intl.formatMessage({
+            defaultMessage: "Signed by",
+            description:
+              "Label for the organisation whose certificate signed the Content Credentials",
+          })}
+          value={
+            signer ??
+            intl.formatMessage({
+              defaultMessage: "Unknown",
+              description:
+                "Shown when the signer of the Content Credentials could not be read",
+            })
+          }
+          isRisk={signer != null}
+        />
+        <MetadataRow
+          label={intl.formatMessage({
+            defaultMessage: "AI-generated",
+            description:
+              "Label for whether the Content Credentials declare generative AI",
+          })}
+          value={
+            aiGenerated
+              ? intl.formatMessage({
+                  defaultMessage: "Yes",
+                  description:
+                    "The Content Credentials declare the image as made with generative AI",
+                })
+              : intl.formatMessage({
+                  defaultMessage: "Not declared",
+                  description:
+                    "The Content Credentials do not declare generative AI",
+                })
+          }
+        />
+        {manifestCount > 1 && (
+          <Text size="small" tone="tertiary">
+            <FormattedMessage
+              defaultMessage="The credentials record {count} signed versions of this image. Earlier versions may name other people or tools."
+              description="Note when the Content Credentials hold the history of several signed edits"
+              values={{ count: manifestCount }}
+            />
+          </Text>
+        )}
+      </Rows>
+    </Box>
+  );
+};
+
+/**
+ * Chooses whether cleaning keeps the C2PA Content Credentials or removes them
+ * with the rest of the metadata.
+ */
+export const ContentCredentialsPicker = ({
+  mode,
+  redacted,
+  disabled,
+  onModeChange,
+}: {
+  mode: ContentCredentialsMode;
+  // Redacted images never keep their credentials, see cleanImage
+  redacted?: boolean;
+  disabled?: boolean;
+  onModeChange: (mode: ContentCredentialsMode) => void;
+}) => {
+  const intl = useIntl();
+
+  return (
+    <FormField
+      label={intl.formatMessage({
+        defaultMessage: "Content Credentials",
+        description: "Label for the C2PA Content Credentials handling picker",
+      })}
+      description={intl.formatMessage({
+        defaultMessage:
+          "Provenance records that can name the author, their organisation and the tools used. Cleaning changes the file, so checkers will show it was edited after signing.",
+        description:
+          "Explains what C2PA Content Credentials hold and that keeping them through cleaning breaks their signature binding",
+      })}
+      value={redacted ? "remove" : mode}
+      control={(props) => (
+        <Select<ContentCredentialsMode>
+          {...props}
+          options={[
+            {
+              value: "remove",
+              label: intl.formatMessage({
+                defaultMessage: "Remove credentials",
+                description:
+                  "Option that removes the C2PA Content Credentials from the cleaned image",
+              }),
+              description: intl.formatMessage({
+                defaultMessage: "Removes the author and signer details",
+                description: "Description of the remove credentials option",
+              }),
+            },
+            {
+              value: "keep",
+              label: intl.formatMessage({
+                defaultMessage: "Keep credentials",
+                description:
+                  "Option that keeps the C2PA Content Credentials in the cleaned image",
+              }),
+              description: redacted
+                ? intl.formatMessage({
+                    defaultMessage:
+                      "Not available with redactions, as credentials can hold an unredacted thumbnail",
+                    description:
+                      "Explains why Content Credentials cannot be kept in a redacted image",
+                  })
+                : intl.formatMessage({
+                    defaultMessage:
+                      "Keeps the provenance record for clients who need it",
+                    description: "Description of the keep credentials option",
+                  }),
+              disabled: redacted,
+            },
+          ]}
+          onChange={onModeChange}
+          disabled={disabled}
+          stretch
+        />
+      )}
+    />
+  );
+};
@@ -0,0 +1,406 @@
+import {
+  Alert,
+  Badge,
+  Box,
+  Button,
+  Columns,
+  Column,
+  FormField,
+  ImageCard,
+  LoadingIndicator,
+  MultilineInput,
+  Rows,
+  Text,
+  Title,
+} from "@canva/app-ui-kit";
+import type { ImageRef } from "@canva/asset";
+import { useCallback, useState } from "react";
+import { FormattedMessage, useIntl } from "react-intl";
+import { downloadDesignImage, uploadCleanedImage } from "../assets";
+import type { AuditFlag, ImageAudit } from "../audit";
+import { auditImage, formatAuditReport, unreadableImage } from "../audit";
+import { readEmbeddedText } from "../cleaners";
+import { cleanFile } from "../cleaning";
+import { listDesignImages, replaceDesignImages } from "../design_images";
+import { readMetadata } from "../metadata";
+import { PROFILE_KEPT_FIELDS } from "../profiles";
+import { RiskSummary } from "./risk_summary";
+
+interface AuditedImage extends ImageAudit {
+  ref: ImageRef;
+  // Empty, and the file null, when the image could not be downloaded
+  url: string;
+  file: File | null;
+  uses: number;
+}
+
+async function auditDesignImage(
+  ref: ImageRef,
+  uses: number,
+): Promise<AuditedImage> {
+  try {
+    const { file, url } = await downloadDesignImage(ref);
+    const metadata = await readMetadata(file);
+    const embeddedText = await readEmbeddedText(
+      new Uint8Array(await file.arrayBuffer()),
+    );
+    return { ...auditImage(metadata, embeddedText), ref, url, file, uses };
+  } catch {
+    return { ...unreadableImage(), ref, url: "", file: null, uses };
+  }
+}
+
+type AuditState = "idle" | "scanning" | "cleaning";
+
+function isFlagged({ risks, flags, cleaned }: AuditedImage): boolean {
+  return !cleaned && (risks.length > 0 || flags.length > 0);
+}
+
+/**
+ * Audits every image on the current page of the design, reporting GPS data,
+ * serial numbers, author names and AI generation parameters. Flagged images
+ * can be cleaned one at a time or all at once, and the findings can be copied
+ * as a plain text report.
+ */
+export const DesignAudit = () => {
+  const intl = useIntl();
+  const [images, setImages] = useState<AuditedImage[] | null>(null);
+  const [scannedAt, setScannedAt] = useState<Date | null>(null);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [state, setState] = useState<AuditState>("idle");
+  const [cleaningRefs, setCleaningRefs] = useState<ImageRef[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const flagLabels: Record<AuditFlag, string> = {
+    gps: intl.formatMessage({
+      defaultMessage: "GPS",
+      description: "Audit badge for an image that contains GPS coordinates",
+    }),
+    serialNumbers: intl.formatMessage({
+      defaultMessage: "Serial number",
+      description:
+        "Audit badge for an image that contains a camera or lens serial number",
+    }),
+    authors: intl.formatMessage({
+      defaultMessage: "Author name",
+      description: "Audit badge for an image that names its author or owner",
+    }),
+    aiParameters: intl.formatMessage({
+      defaultMessage: "AI parameters",
+      description:
+        "Audit badge for an image that contains the prompt or settings of an AI image generator",
+    }),
+  };
+
+  const handleScan = useCallback(async () => {
+    setState("scanning");
+    setError(null);
+    setImages(null);
+
+    try {
+      const designImages = await listDesignImages();
+      setProgress({ done: 0, total: designImages.length });
+      const audited: AuditedImage[] = [];
+      // An image that cannot be read is listed as not checked, so one
+      // failure does not hide the findings for the rest
+      for (const { ref, uses } of designImages) {
+        audited.push(await auditDesignImage(ref, uses));
+        setProgress({ done: audited.length, total: designImages.length });
+      }
+      setImages(audited);
+      setScannedAt(new Date());
+    } catch {
+      setError(
+        intl.formatMessage({
+          defaultMessage: "Failed to scan the images in your design.",
+          description: "Error message when the design audit fails",
+        }),
+      );
+    }
+    setState("idle");
+  }, [intl]);
+
+  const handleClean = useCallback(
+    async (toClean: readonly AuditedImage[]) => {
+      setState("cleaning");
+      setCleaningRefs(toClean.map(({ ref }) => ref));
+      setError(null);
+
+      try {
+        const replacements = new Map<ImageRef, ImageRef>();
+        const cleanedImages = new Map<ImageRef, AuditedImage>();
+        for (const image of toClean) {
+          if (!image.file) continue;
+          const cleaned = await cleanFile(image.file, image.metadata, {
+            keptFields: PROFILE_KEPT_FIELDS.stripAll,
+            colorProfile: "convert",
+            contentCredentials: "remove",
+          });
+          const asset = await uploadCleanedImage(cleaned.image);
+          await asset.whenUploaded();
+          replacements.set(image.ref, asset.ref);
+          cleanedImages.set(image.ref, {
+            ...image,
+            ref: asset.ref,
+            url: cleaned.image.url,
+            cleaned: cleaned.verification,
+          });
+        }
+        // Replacing everything in one sync makes it a single undo step.
+        // Only images whose fill was swapped count as cleaned
+        const replaced = await replaceDesignImages(replacements);
+        setImages(
+          (current) =>
+            current?.map((image) =>
+              replaced.has(image.ref)
+                ? (cleanedImages.get(image.ref) ?? image)
+                : image,
+            ) ?? null,
+        );
+        const missed = toClean.length - replaced.size;
+        if (missed > 0) {
+          setError(
+            intl.formatMessage(
+              {
+                defaultMessage:
+                  "{count, plural, one {# image could not be replaced. It may have been moved or removed since the scan.} other {# images could not be replaced. They may have been moved or removed since the scan.}}",
+                description:
+                  "Error message when cleaned images could not be put back into the design",
+              },
+              { count: missed },
+            ),
+          );
+        }
+      } catch {
+        setError(
+          intl.formatMessage({
+            defaultMessage:
+              "Failed to clean the images. Your design was not changed.",
+            description:
+              "Error message when images found by the design audit cannot be cleaned",
+          }),
+        );
+      }
+      setCleaningRefs([]);
+      setState("idle");
+    },
+    [intl],
+  );
+
+  const flagged = images?.filter(isFlagged) ?? [];
+  const unreadable = images?.filter((image) => image.unreadable) ?? [];
+  const busy = state !== "idle";
+
+  return (
+    <Box background="neutralLow" borderRadius="standard" padding="1.5u">
+      <Rows spacing="1u">
+        <Title size="xsmall">
+          <FormattedMessage
+            defaultMessage="Design audit"
+            description="Section title for scanning every image in the design"
+          />
+        </Title>
+        <Text size="small" tone="secondary">
+          <FormattedMessage
+            defaultMessage="Check every image on this page for location, device, author and AI generation metadata."
+            description="Explains what the design audit checks"
+          />
+        </Text>
+
+        {error && <Alert tone="critical">{error}</Alert>}
+
+        <Button
+          variant="secondary"
+          onClick={handleScan}
+          disabled={busy}
+          loading={state === "scanning"}
+          stretch
+        >
+          {intl.formatMessage({
+            defaultMessage: "Scan this design",
+            description:
+              "Button to audit the metadata of every image in the design",
+          })}
+        </Button>
+
+        {state === "scanning" && progress.total > 0 && (
+          <Rows spacing="1u" align="center">
+            <LoadingIndicator size="medium" />
+            <Text size="small" tone="tertiary">
+              <FormattedMessage
+                defaultMessage="Checked {done} of {total} images..."
+                description="Progress of the design audit"
+                values={{ done: progress.done, total: progress.total }}
+              />
+            </Text>
+          </Rows>
+        )}
+
+        {images && images.length === 0 && (
+          <Text size="small" tone="tertiary">
+            <FormattedMessage
+              defaultMessage="There are no images on this page."
+              description="Message when the design audit finds no images"
+            />
+          </Text>
+        )}
+
+        {images && images.length > 0 && (
+          <Rows spacing="1u">
+            {flagged.length > 0 ? (
+              <Alert tone="warn">
+                <FormattedMessage
+                  defaultMessage="{flagged} of {total, plural, one {# image has} other {# images have}} metadata that could identify you."
+                  description="Summary of the design audit when some images have risky metadata"
+                  values={{ flagged: flagged.length, total: images.length }}
+                />
+              </Alert>
+            ) : unreadable.length > 0 ? null : (
+              <Alert tone="positive">
+                <FormattedMessage
+                  defaultMessage="No privacy risks found in the images on this page."
+                  description="Summary of the design audit when no image has risky metadata"
+                />
+              </Alert>
+            )}
+
+            {unreadable.length > 0 && (
+              <Alert tone="critical">
+                <FormattedMessage
+                  defaultMessage="{count, plural, one {# image could not be read and was not checked.} other {# images could not be read and were not checked.}}"
+                  description="Warning in the design audit for images that could not be downloaded or read"
+                  values={{ count: unreadable.length }}
+                />
+              </Alert>
+            )}
+
+            {images.map((image, index) => (
+              <Columns key={image.ref} spacing="1u" alignY="start">
+                <Column width="1/4">
+                  {image.url && (
+                    <ImageCard
+                      thumbnailUrl={image.url}
+                      thumbnailHeight={64}
+                      borderRadius="standard"
+                      alt={intl.formatMessage(
+                        {
+                          defaultMessage: "Image {number} in the design",
+                          description:
+                            "Alt text for an image listed by the design audit",
+                        },
+                        { number: index + 1 },
+                      )}
+                    />
+                  )}
+                </Column>
+                <Column>
+                  <Rows spacing="0.5u">
+                    <Text size="small" variant="bold">
+                      <FormattedMessage
+                        defaultMessage="Image {number}{uses, plural, one {} other { (used # times)}}"
+                        description="Name of an image listed by the design audit, with how often it is used on the page"
+                        values={{ number: index + 1, uses: image.uses }}
+                      />
+                    </Text>
+                    {image.unreadable ? (
+                      <Badge
+                        tone="critical"
+                        text={intl.formatMessage({
+                          defaultMessage: "Not checked",
+                          description:
+                            "Audit badge for an image that could not be downloaded or read",
+                        })}
+                      />
+                    ) : image.cleaned ? (
+                      <Badge
+                        tone={image.cleaned.passed ? "positive" : "critical"}
+                        text={
+                          image.cleaned.passed
+                            ? intl.formatMessage({
+                                defaultMessage: "Cleaned",
+                                description:
+                                  "Audit badge for an image that was cleaned and verified",
+                              })
+                            : intl.formatMessage({
+                                defaultMessage: "Check failed",
+                                description:
+                                  "Audit badge for a cleaned image in which sensitive metadata was still found",
+                              })
+                        }
+                      />
+                    ) : (
+                      image.flags.map((flag) => (
+                        <Badge key={flag} tone="warn" text={flagLabels[flag]} />
+                      ))
+                    )}
+                    {isFlagged(image) && (
+                      <>
+                        <RiskSummary findings={image.risks} />
+                        <Button
+                          variant="secondary"
+                          onClick={() => handleClean([image])}
+                          disabled={busy}
+                          loading={cleaningRefs.includes(image.ref)}
+                          stretch
+                        >
+                          {intl.formatMessage({
+                            defaultMessage: "Clean image",
+                            description:
+                              "Button to clean one image found by the design audit and replace it in the design",
+                          })}
+                        </Button>
+                      </>
+                    )}
+                  </Rows>
+                </Column>
+              </Columns>
+            ))}
+
+            {flagged.length > 1 && (
+              <Button
+                variant="primary"
+                onClick={() => handleClean(flagged)}
+                disabled={busy}
+                loading={cleaningRefs.length > 1}
+                stretch
+              >
+                {intl.formatMessage(
+                  {
+                    defaultMessage: "Clean all {count} flagged images",
+                    description:
+                      "Button to clean every image flagged by the design audit in one pass",
+                  },
+                  { count: flagged.length },
+                )}
+              </Button>
+            )}
+
+            {scannedAt && (
+              <FormField
+                label={intl.formatMessage({
+                  defaultMessage: "Audit report",
+                  description:
+                    "Label for the plain text report of the design audit",
+                })}
+                description={intl.formatMessage({
+                  defaultMessage:
+                    "Copy this report to attach it to a compliance ticket.",
+                  description: "Help text for the design audit report",
+                })}
+                control={(props) => (
+                  <MultilineInput
+                    {...props}
+                    value={formatAuditReport(images, scannedAt)}
+                    readOnly
+                    minRows={4}
+                    maxRows={10}
+                  />
+                )}
+              />
+            )}
+          </Rows>
+        )}
+      </Rows>
+    </Box>
+  );
+};
@@ -0,0 +1,40 @@
+import { useIntl } from "react-intl";
+import type { MetadataField } from "../profiles";
+
+export const useFieldLabels = (): Record<MetadataField, string> => {
+  const intl = useIntl();
+  return {
+    gps: intl.formatMessage({
+      defaultMessage: "GPS location",
+      description: "Label for GPS coordinates",
+    }),
+    dateTimeOriginal: intl.formatMessage({
+      defaultMessage: "Date taken",
+      description: "Label for date taken",
+    }),
+    dateTime: intl.formatMessage({
+      defaultMessage: "Date modified",
+      description: "Label for the date the file was last modified",
+    }),
+    make: intl.formatMessage({
+      defaultMessage: "Camera make",
+      description: "Label for camera manufacturer",
+    }),
+    model: intl.formatMessage({
+      defaultMessage: "Camera model",
+      description: "Label for camera model",
+    }),
+    software: intl.formatMessage({
+      defaultMessage: "Software",
+      description: "Label for software used",
+    }),
+    artist: intl.formatMessage({
+      defaultMessage: "Artist",
+      description: "Label for artist/creator",
+    }),
+    copyright: intl.formatMessage({
+      defaultMessage: "Copyright",
+      description: "Label for copyright info",
+    }),
+  };
+};
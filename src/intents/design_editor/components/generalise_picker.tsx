@@ -0,0 +1,225 @@
+import {
+  Accordion,
+  AccordionItem,
+  Checkbox,
+  Column,
+  Columns,
+  FormField,
+  Rows,
+  Select,
+  Text,
+} from "@canva/app-ui-kit";
+import { FormattedMessage, useIntl } from "react-intl";
+import type {
+  DatePrecision,
+  GeneralisedField,
+  GeneralisedValue,
+  GeneraliseSettings,
+  GpsPrecision,
+} from "../generalise";
+import { describeGeneralisation } from "../generalise";
+import type { MetadataInfo } from "../metadata";
+import type { MetadataField } from "../profiles";
+import { useFieldLabels } from "./field_labels";
+import { MetadataRow } from "./metadata_row";
+
+// Select value for "not generalised", as options cannot be null
+const OFF = "off";
+
+type GpsOption = GpsPrecision | typeof OFF;
+type DateOption = DatePrecision | typeof OFF;
+
+const useGeneralisedLabels = (): Record<GeneralisedField, string> => {
+  const intl = useIntl();
+  const fieldLabels = useFieldLabels();
+  return {
+    gps: fieldLabels.gps,
+    dateTimeOriginal: fieldLabels.dateTimeOriginal,
+    camera: intl.formatMessage({
+      defaultMessage: "Camera",
+      description: "Label for the camera make and model together",
+    }),
+  };
+};
+
+/**
+ * Each generalised field with its original value beside the value written
+ * into the cleaned file.
+ */
+export const GeneralisedValues = ({
+  values,
+}: {
+  values: readonly GeneralisedValue[];
+}) => {
+  const intl = useIntl();
+  const labels = useGeneralisedLabels();
+
+  return (
+    <Rows spacing="0.5u">
+      {values.map(({ field, original, generalised }) => (
+        <Columns key={field} spacing="1u">
+          <Column>
+            <MetadataRow label={labels[field]} value={original} isRisk />
+          </Column>
+          <Column>
+            <MetadataRow
+              label={intl.formatMessage({
+                defaultMessage: "Generalised",
+                description:
+                  "Label for the less detailed value written into the cleaned image in place of the original",
+              })}
+              value={generalised}
+            />
+          </Column>
+        </Columns>
+      ))}
+    </Rows>
+  );
+};
+
+/**
+ * Chooses fields to write back with less detail instead of removing them:
+ * the location rounded to a city or region, the date taken trimmed to the
+ * day, month or year, and the camera replaced by a generic category.
+ * Collapsed by default, as most users only want metadata removed. Without
+ * metadata, e.g. for a batch, no values are shown.
+ */
+export const GeneralisePicker = ({
+  metadata,
+  availableFields,
+  settings,
+  disabled,
+  onChange,
+}: {
+  metadata?: MetadataInfo;
+  availableFields: readonly MetadataField[];
+  settings: GeneraliseSettings;
+  disabled?: boolean;
+  onChange: (settings: GeneraliseSettings) => void;
+}) => {
+  const intl = useIntl();
+  const labels = useGeneralisedLabels();
+  const values = metadata ? describeGeneralisation(metadata, settings) : [];
+  const offLabel = intl.formatMessage({
+    defaultMessage: "Don't generalise",
+    description:
+      "Option that leaves a field to the removal profile instead of generalising it",
+  });
+
+  return (
+    <Accordion>
+      <AccordionItem
+        title={intl.formatMessage({
+          defaultMessage: "Generalise instead of removing",
+          description:
+            "Title of the optional section for keeping less detailed location, date and camera values",
+        })}
+      >
+        <Rows spacing="1u">
+          <Text size="small" tone="secondary">
+            <FormattedMessage
+              defaultMessage="Keep useful context without the precision. Generalised values are written into the cleaned image in place of the originals, whatever the removal profile keeps."
+              description="Explains the optional generalise section"
+            />
+          </Text>
+          {availableFields.includes("gps") && (
+            <FormField<GpsOption>
+              label={labels.gps}
+              value={settings.gps ?? OFF}
+              control={(props) => (
+                <Select<GpsOption>
+                  {...props}
+                  options={[
+                    { value: OFF, label: offLabel },
+                    {
+                      value: "city",
+                      label: intl.formatMessage({
+                        defaultMessage: "City (about 10 km)",
+                        description:
+                          "Option that rounds the GPS location to about city level",
+                      }),
+                    },
+                    {
+                      value: "region",
+                      label: intl.formatMessage({
+                        defaultMessage: "Region (about 100 km)",
+                        description:
+                          "Option that rounds the GPS location to about region level",
+                      }),
+                    },
+                  ]}
+                  onChange={(gps) =>
+                    onChange({ ...settings, gps: gps === OFF ? null : gps })
+                  }
+                  disabled={disabled}
+                  stretch
+                />
+              )}
+            />
+          )}
+          {availableFields.includes("dateTimeOriginal") && (
+            <FormField<DateOption>
+              label={labels.dateTimeOriginal}
+              value={settings.dateTimeOriginal ?? OFF}
+              control={(props) => (
+                <Select<DateOption>
+                  {...props}
+                  options={[
+                    { value: OFF, label: offLabel },
+                    {
+                      value: "day",
+                      label: intl.formatMessage({
+                        defaultMessage: "Day only",
+                        description:
+                          "Option that removes the time from the date taken",
+                      }),
+                    },
+                    {
+                      value: "month",
+                      label: intl.formatMessage({
+                        defaultMessage: "Month only",
+                        description:
+                          "Option that keeps only the month and year of the date taken",
+                      }),
+                    },
+                    {
+                      value: "year",
+                      label: intl.formatMessage({
+                        defaultMessage: "Year only",
+                        description:
+                          "Option that keeps only the year of the date taken",
+                      }),
+                    },
+                  ]}
+                  onChange={(precision) =>
+                    onChange({
+                      ...settings,
+                      dateTimeOriginal: precision === OFF ? null : precision,
+                    })
+                  }
+                  disabled={disabled}
+                  stretch
+                />
+              )}
+            />
+          )}
+          {(availableFields.includes("make") ||
+            availableFields.includes("model")) && (
+            <Checkbox
+              label={intl.formatMessage({
+                defaultMessage:
+                  "Replace the camera with a generic category, e.g. Smartphone",
+                description:
+                  "Checkbox that swaps the camera make and model for a category such as smartphone or drone",
+              })}
+              checked={settings.camera}
+              onChange={(_, camera) => onChange({ ...settings, camera })}
+              disabled={disabled}
+            />
+          )}
+          {values.length > 0 && <GeneralisedValues values={values} />}
+        </Rows>
+      </AccordionItem>
+    </Accordion>
+  );
+};
@@ -0,0 +1,234 @@
+import {
+  Badge,
+  Box,
+  Column,
+  Columns,
+  Rows,
+  Text,
+  Title,
+} from "@canva/app-ui-kit";
+import type { IntlShape } from "react-intl";
+import { FormattedMessage, useIntl } from "react-intl";
+import type { MetadataBlockType } from "../cleaners";
+import type { DiffEntry, DiffStatus, MetadataDiff } from "../diff";
+import { formatTagName } from "../metadata";
+import { MetadataRow } from "./metadata_row";
+import { SOURCE_ORDER, useSourceLabels } from "./tag_group_labels";
+
+const STATUS_TONES: Record<DiffStatus, "critical" | "info" | "positive"> = {
+  removed: "critical",
+  kept: "info",
+  added: "positive",
+};
+
+// Whole bytes below 1 KB, otherwise kilobytes to one decimal place
+export function formatBytes(
+  intl: IntlShape,
+  bytes: number,
+  signDisplay: "auto" | "exceptZero" = "auto",
+): string {
+  return Math.abs(bytes) < 1024
+    ? intl.formatNumber(bytes, {
+        style: "unit",
+        unit: "byte",
+        unitDisplay: "long",
+        signDisplay,
+      })
+    : intl.formatNumber(bytes / 1024, {
+        style: "unit",
+        unit: "kilobyte",
+        maximumFractionDigits: 1,
+        signDisplay,
+      });
+}
+
+// One side of the diff, grouped by where each tag was found
+const DiffColumn = ({
+  title,
+  entries,
+  statusLabels,
+}: {
+  title: string;
+  entries: DiffEntry[];
+  statusLabels: Record<DiffStatus, string>;
+}) => {
+  const sourceLabels = useSourceLabels();
+
+  return (
+    <Rows spacing="1u">
+      <Text size="small" variant="bold">
+        {title}
+      </Text>
+      {entries.length === 0 && (
+        <Text size="xsmall" tone="tertiary">
+          <FormattedMessage
+            defaultMessage="No metadata"
+            description="Shown in a column of the metadata diff when the file has no tags"
+          />
+        </Text>
+      )}
+      {SOURCE_ORDER.map((source) => {
+        const group = entries.filter((entry) => entry.source === source);
+        if (group.length === 0) return null;
+        return (
+          <Rows key={source} spacing="0.5u">
+            <Text size="small" tone="secondary">
+              {sourceLabels[source]}
+            </Text>
+            {group.map(({ name, value, status }, index) => (
+              <Columns key={index} spacing="0.5u" alignY="center">
+                <Column width="content">
+                  <Badge
+                    tone={STATUS_TONES[status]}
+                    text={statusLabels[status]}
+                  />
+                </Column>
+                <Column>
+                  <Text size="xsmall" lineClamp={2}>
+                    <FormattedMessage
+                      defaultMessage="{name}: {value}"
+                      description="A tag and its value in the metadata diff"
+                      values={{
+                        name:
+                          source === "text" || source === "icc"
+                            ? name
+                            : formatTagName(name),
+                        value,
+                      }}
+                    />
+                  </Text>
+                </Column>
+              </Columns>
+            ))}
+          </Rows>
+        );
+      })}
+    </Rows>
+  );
+};
+
+/**
+ * Shows the tags of the original file next to those of the cleaned file,
+ * badged as removed, kept or added, along with how much space each kind
+ * of metadata block took up before and after.
+ */
+export const MetadataDiffView = ({ diff }: { diff: MetadataDiff }) => {
+  const intl = useIntl();
+  const sourceLabels = useSourceLabels();
+
+  const statusLabels: Record<DiffStatus, string> = {
+    removed: intl.formatMessage({
+      defaultMessage: "Removed",
+      description: "Badge for a tag that cleaning removed",
+    }),
+    kept: intl.formatMessage({
+      defaultMessage: "Kept",
+      description:
+        "Badge for a tag that is in both the original and cleaned image",
+    }),
+    added: intl.formatMessage({
+      defaultMessage: "Added",
+      description: "Badge for a tag that cleaning wrote into the image",
+    }),
+  };
+
+  const blockLabels: Record<MetadataBlockType, string> = {
+    exif: sourceLabels.exif,
+    xmp: sourceLabels.xmp,
+    iptc: sourceLabels.iptc,
+    icc: sourceLabels.icc,
+    text: sourceLabels.text,
+    c2pa: intl.formatMessage({
+      defaultMessage: "Content Credentials",
+      description: "Label for the C2PA Content Credentials metadata block",
+    }),
+    trailer: sourceLabels.trailer,
+    other: intl.formatMessage({
+      defaultMessage: "Other",
+      description:
+        "Label for metadata blocks that are not EXIF, XMP, IPTC, colour profile, text or Content Credentials",
+    }),
+  };
+
+  return (
+    <Box background="neutralLow" borderRadius="standard" padding="1.5u">
+      <Rows spacing="1.5u">
+        <Title size="xsmall">
+          <FormattedMessage
+            defaultMessage="Before and after"
+            description="Section title for the comparison of the original and cleaned metadata"
+          />
+        </Title>
+        <Columns spacing="1u">
+          <Column width="1/2">
+            <DiffColumn
+              title={intl.formatMessage({
+                defaultMessage: "Original",
+                description: "Heading for the tags of the original image",
+              })}
+              entries={diff.original}
+              statusLabels={statusLabels}
+            />
+          </Column>
+          <Column width="1/2">
+            <DiffColumn
+              title={intl.formatMessage({
+                defaultMessage: "Cleaned",
+                description: "Heading for the tags of the cleaned image",
+              })}
+              entries={diff.cleaned}
+              statusLabels={statusLabels}
+            />
+          </Column>
+        </Columns>
+        <Rows spacing="0.5u">
+          <Text size="small" variant="bold">
+            <FormattedMessage
+              defaultMessage="Size"
+              description="Heading for the byte sizes of the metadata blocks and the file"
+            />
+          </Text>
+          {diff.blocks.map(({ type, before, after }) => (
+            <MetadataRow
+              key={type}
+              label={blockLabels[type]}
+              value={intl.formatMessage(
+                {
+                  defaultMessage: "{before} → {after}",
+                  description:
+                    "Size of a metadata block before and after cleaning",
+                },
+                {
+                  before: formatBytes(intl, before),
+                  after: formatBytes(intl, after),
+                },
+              )}
+            />
+          ))}
+          <MetadataRow
+            label={intl.formatMessage({
+              defaultMessage: "File",
+              description: "Label for the overall file size before and after",
+            })}
+            value={intl.formatMessage(
+              {
+                defaultMessage: "{before} → {after} ({change})",
+                description:
+                  "Size of the whole file before and after cleaning, with the difference",
+              },
+              {
+                before: formatBytes(intl, diff.originalSize),
+                after: formatBytes(intl, diff.cleanedSize),
+                change: formatBytes(
+                  intl,
+                  diff.cleanedSize - diff.originalSize,
+                  "exceptZero",
+                ),
+              },
+            )}
+          />
+        </Rows>
+      </Rows>
+    </Box>
+  );
+};
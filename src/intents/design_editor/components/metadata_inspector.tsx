@@ -0,0 +1,135 @@
+import {
+  Accordion,
+  AccordionItem,
+  Badge,
+  Column,
+  Columns,
+  Rows,
+  Text,
+  TextInput,
+} from "@canva/app-ui-kit";
+import { useState } from "react";
+import { FormattedMessage, useIntl } from "react-intl";
+import type { MetadataTag, TagGroup } from "../metadata";
+import { formatTagName } from "../metadata";
+import type { MetadataField } from "../profiles";
+import { isTagKept } from "../profiles";
+import { useTagGroupLabels } from "./tag_group_labels";
+
+const GROUP_ORDER: readonly TagGroup[] = [
+  "exif",
+  "gps",
+  "iptc",
+  "xmp",
+  "makerNote",
+  "trailer",
+];
+
+function matchesQuery(tag: MetadataTag, query: string): boolean {
+  const text = `${formatTagName(tag.key)} ${tag.key} ${tag.value}`;
+  return text.toLowerCase().includes(query);
+}
+
+/**
+ * Lists every tag exifr parsed, grouped by segment, and marks whether the
+ * chosen removal profile keeps or removes each one.
+ */
+export const MetadataInspector = ({
+  tags,
+  keptFields,
+}: {
+  tags: readonly MetadataTag[];
+  keptFields: readonly MetadataField[];
+}) => {
+  const intl = useIntl();
+  const groupLabels = useTagGroupLabels();
+  const [query, setQuery] = useState("");
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const matchingTags = normalizedQuery
+    ? tags.filter((tag) => matchesQuery(tag, normalizedQuery))
+    : tags;
+  const groups = GROUP_ORDER.map((group) => ({
+    group,
+    tags: matchingTags.filter((tag) => tag.group === group),
+  })).filter(({ tags: groupTags }) => groupTags.length > 0);
+
+  return (
+    <Rows spacing="1u">
+      <TextInput
+        type="search"
+        value={query}
+        onChange={setQuery}
+        placeholder={intl.formatMessage({
+          defaultMessage: "Search tags",
+          description: "Placeholder for the metadata tag search box",
+        })}
+      />
+      {groups.length === 0 ? (
+        <Text size="small" tone="tertiary">
+          <FormattedMessage
+            defaultMessage="No tags match your search."
+            description="Message when no metadata tag matches the search"
+          />
+        </Text>
+      ) : (
+        <Accordion>
+          {groups.map(({ group, tags: groupTags }) => (
+            <AccordionItem
+              key={group}
+              title={intl.formatMessage(
+                {
+                  defaultMessage: "{group} ({count})",
+                  description:
+                    "Title of a metadata segment in the tag inspector, with its number of tags",
+                },
+                { group: groupLabels[group], count: groupTags.length },
+              )}
+            >
+              <Rows spacing="1u">
+                {groupTags.map((tag) => {
+                  const kept = isTagKept(tag, keptFields);
+                  return (
+                    <Columns key={`${tag.block}:${tag.key}`} spacing="1u">
+                      <Column>
+                        <Rows spacing="0">
+                          <Text size="small" tone="secondary">
+                            {formatTagName(tag.key)}
+                          </Text>
+                          <Text size="small" tone="tertiary" lineClamp={3}>
+                            {tag.value}
+                          </Text>
+                        </Rows>
+                      </Column>
+                      <Column width="content">
+                        {kept ? (
+                          <Badge
+                            tone="warn"
+                            text={intl.formatMessage({
+                              defaultMessage: "Kept",
+                              description:
+                                "Marks a metadata tag that the chosen removal profile keeps",
+                            })}
+                          />
+                        ) : (
+                          <Badge
+                            tone="positive"
+                            text={intl.formatMessage({
+                              defaultMessage: "Removed",
+                              description:
+                                "Marks a metadata tag that cleaning will remove",
+                            })}
+                          />
+                        )}
+                      </Column>
+                    </Columns>
+                  );
+                })}
+              </Rows>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      )}
+    </Rows>
+  );
+};
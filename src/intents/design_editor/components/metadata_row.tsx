@@ -0,0 +1,30 @@
+import { Column, Columns, Text } from "@canva/app-ui-kit";
+import { FormattedMessage } from "react-intl";
+
+// A label and value pair, highlighted when the value is a privacy risk
+export const MetadataRow = ({
+  label,
+  value,
+  isRisk = false,
+}: {
+  label: string;
+  value: string;
+  isRisk?: boolean;
+}) => (
+  <Columns spacing="1u">
+    <Column width="content">
+      <Text size="small" tone={isRisk ? "critical" : "secondary"}>
+        <FormattedMessage
+          defaultMessage="{label}:"
+          description="Metadata label with colon"
+          values={{ label }}
+        />
+      </Text>
+    </Column>
+    <Column>
+      <Text size="small" tone={isRisk ? "primary" : "tertiary"}>
+        {value}
+      </Text>
+    </Column>
+  </Columns>
+);
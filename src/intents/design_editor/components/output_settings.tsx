@@ -0,0 +1,318 @@
+import {
+  Accordion,
+  AccordionItem,
+  Column,
+  Columns,
+  FormField,
+  NumberInput,
+  Rows,
+  SegmentedControl,
+  Select,
+  Slider,
+  Text,
+} from "@canva/app-ui-kit";
+import { useEffect, useRef, useState } from "react";
+import { FormattedMessage, useIntl } from "react-intl";
+import type { OutputEstimate, OutputFormat, OutputSettings } from "../cleaners";
+import { estimateCleanedImage } from "../cleaners";
+import { formatBytes } from "./metadata_diff";
+
+// Longest-side limits offered, in pixels. Zero keeps the full size
+const MAX_SIZE_OPTIONS = [0, 4096, 2048, 1600, 1080, 720];
+
+// Waits for the user to settle on a setting before estimating again
+const ESTIMATE_DELAY = 300;
+
+// Formats the image can be converted to, with the MIME type each encodes as
+const CONVERSIONS: [OutputFormat, string][] = [
+  ["jpeg", "image/jpeg"],
+  ["png", "image/png"],
+  ["webp", "image/webp"],
+];
+
+// Names of the formats as shown to users; they are not translated
+const FORMAT_NAMES: Record<string, string> = {
+  "image/jpeg": "JPEG",
+  "image/png": "PNG",
+  "image/webp": "WebP",
+};
+
+const LOSSY_MIME_TYPES = ["image/jpeg", "image/webp"];
+
+type SizeUnit = "kb" | "mb";
+
+const UNIT_BYTES: Record<SizeUnit, number> = {
+  kb: 1024,
+  mb: 1024 * 1024,
+};
+
+/**
+ * Chooses the format, quality, maximum size and target file size of the
+ * cleaned file, with a live estimate of the result. Collapsed by default, as
+ * the original format at full size suits most images.
+ */
+export const OutputSettingsPicker = ({
+  file,
+  redrawn,
+  settings,
+  disabled,
+  onChange,
+}: {
+  file: Blob;
+  // True when the image will be redrawn anyway, e.g. to burn in redactions
+  redrawn: boolean;
+  settings: OutputSettings;
+  disabled?: boolean;
+  onChange: (settings: OutputSettings) => void;
+}) => {
+  const intl = useIntl();
+  const [estimate, setEstimate] = useState<OutputEstimate | null>(null);
+  const [estimating, setEstimating] = useState(true);
+  // Ignores estimates for settings that have since changed
+  const estimateId = useRef(0);
+  const [unit, setUnit] = useState<SizeUnit>(
+    settings.targetSize != null && settings.targetSize >= UNIT_BYTES.mb
+      ? "mb"
+      : "kb",
+  );
+
+  useEffect(() => {
+    const id = ++estimateId.current;
+    setEstimating(true);
+    const timer = setTimeout(async () => {
+      const result = await estimateCleanedImage(file, settings, redrawn);
+      if (id !== estimateId.current) return;
+      setEstimate(result);
+      setEstimating(false);
+    }, ESTIMATE_DELAY);
+    return () => clearTimeout(timer);
+  }, [file, settings, redrawn]);
+
+  const setTargetSize = (amount: number | undefined, sizeUnit: SizeUnit) =>
+    onChange({
+      ...settings,
+      targetSize:
+        amount != null && amount > 0
+          ? Math.round(amount * UNIT_BYTES[sizeUnit])
+          : null,
+    });
+
+  const lossy =
+    settings.format === "jpeg" ||
+    settings.format === "webp" ||
+    (settings.format === "original" && LOSSY_MIME_TYPES.includes(file.type));
+
+  return (
+    <Accordion>
+      <AccordionItem
+        title={intl.formatMessage({
+          defaultMessage: "Output settings",
+          description:
+            "Title of the optional section for the format, quality and size of the cleaned image",
+        })}
+      >
+        <Rows spacing="1u">
+          <FormField
+            label={intl.formatMessage({
+              defaultMessage: "Format",
+              description: "Label for the output format picker",
+            })}
+            value={settings.format}
+            control={(props) => (
+              <Select<OutputFormat>
+                {...props}
+                options={[
+                  {
+                    value: "original",
+                    label: intl.formatMessage({
+                      defaultMessage: "Keep original",
+                      description:
+                        "Option that keeps the format of the original file",
+                    }),
+                  },
+                  ...CONVERSIONS.map(([format, mimeType]) => ({
+                    value: format,
+                    label: FORMAT_NAMES[mimeType] ?? format,
+                  })),
+                ]}
+                onChange={(format) => onChange({ ...settings, format })}
+                disabled={disabled}
+                stretch
+              />
+            )}
+          />
+          {lossy && (
+            <FormField
+              label={intl.formatMessage(
+                {
+                  defaultMessage: "Quality ({quality})",
+                  description:
+                    "Label for the encoder quality slider, with the chosen quality as a percentage",
+                },
+                {
+                  quality: intl.formatNumber(settings.quality, {
+                    style: "percent",
+                  }),
+                },
+              )}
+              description={intl.formatMessage({
+                defaultMessage:
+                  "Used whenever the image is re-encoded. Keeping the original format at full size copies the pixels untouched.",
+                description:
+                  "Explains when the quality setting applies to the cleaned image",
+              })}
+              value={Math.round(settings.quality * 100)}
+              control={(props) => (
+                <Slider
+                  {...props}
+                  min={10}
+                  max={100}
+                  step={5}
+                  onChange={(quality) =>
+                    onChange({ ...settings, quality: quality / 100 })
+                  }
+                  disabled={disabled}
+                />
+              )}
+            />
+          )}
+          <FormField
+            label={intl.formatMessage({
+              defaultMessage: "Maximum size",
+              description:
+                "Label for the picker that limits the longest side of the cleaned image",
+            })}
+            value={settings.maxSize ?? 0}
+            control={(props) => (
+              <Select<number>
+                {...props}
+                options={MAX_SIZE_OPTIONS.map((size) => ({
+                  value: size,
+                  label:
+                    size === 0
+                      ? intl.formatMessage({
+                          defaultMessage: "Full size",
+                          description:
+                            "Option that keeps the cleaned image at full resolution",
+                        })
+                      : intl.formatMessage(
+                          {
+                            defaultMessage: "{size} px longest side",
+                            description:
+                              "Option that shrinks the cleaned image so its longest side is at most this many pixels",
+                          },
+                          { size },
+                        ),
+                }))}
+                onChange={(size) =>
+                  onChange({ ...settings, maxSize: size || null })
+                }
+                disabled={disabled}
+                stretch
+              />
+            )}
+          />
+          <FormField
+            label={intl.formatMessage({
+              defaultMessage: "Fit under",
+              description:
+                "Label for the file size the cleaned image must not exceed",
+            })}
+            description={intl.formatMessage({
+              defaultMessage:
+                "Leave empty for no limit. The quality is lowered first, then the image is shrunk, until the file fits.",
+              description:
+                "Explains how the cleaned image is made to fit the target file size",
+            })}
+            value={
+              settings.targetSize != null
+                ? Math.round((settings.targetSize / UNIT_BYTES[unit]) * 10) / 10
+                : ""
+            }
+            control={(props) => (
+              <Columns spacing="1u" alignY="center">
+                <Column>
+                  <NumberInput
+                    {...props}
+                    min={0}
+                    step={unit === "mb" ? 0.1 : 50}
+                    maximumFractionDigits={1}
+                    onChange={(amount) => setTargetSize(amount, unit)}
+                    disabled={disabled}
+                  />
+                </Column>
+                <Column width="content">
+                  <SegmentedControl<SizeUnit>
+                    value={unit}
+                    options={[
+                      {
+                        value: "kb",
+                        label: intl.formatMessage({
+                          defaultMessage: "KB",
+                          description: "Short name of the kilobyte unit",
+                        }),
+                      },
+                      {
+                        value: "mb",
+                        label: intl.formatMessage({
+                          defaultMessage: "MB",
+                          description: "Short name of the megabyte unit",
+                        }),
+                      },
+                    ]}
+                    onChange={(sizeUnit) => {
+                      setUnit(sizeUnit);
+                      if (settings.targetSize != null) {
+                        setTargetSize(
+                          settings.targetSize / UNIT_BYTES[unit],
+                          sizeUnit,
+                        );
+                      }
+                    }}
+                    disabled={disabled}
+                  />
+                </Column>
+              </Columns>
+            )}
+          />
+          <Text size="small" tone="tertiary">
+            {estimating ? (
+              <FormattedMessage
+                defaultMessage="Estimating output size..."
+                description="Shown while the size of the cleaned image is estimated"
+              />
+            ) : estimate ? (
+              <FormattedMessage
+                defaultMessage="About {size} as {format}, {width} x {height} px"
+                description="Estimated file size, format and pixel size of the cleaned image"
+                values={{
+                  size: formatBytes(intl, estimate.size),
+                  format: FORMAT_NAMES[estimate.mimeType] ?? estimate.mimeType,
+                  width: estimate.width,
+                  height: estimate.height,
+                }}
+              />
+            ) : (
+              <FormattedMessage
+                defaultMessage="The output size cannot be estimated for this image."
+                description="Shown when the size of the cleaned image cannot be estimated"
+              />
+            )}
+          </Text>
+          {!estimating &&
+            estimate &&
+            settings.targetSize != null &&
+            estimate.size > settings.targetSize && (
+              <Text size="small" tone="tertiary">
+                <FormattedMessage
+                  defaultMessage="That is over {target}, so the quality or size will be lowered to fit."
+                  description="Shown when the estimated size of the cleaned image is over the target file size"
+                  values={{ target: formatBytes(intl, settings.targetSize) }}
+                />
+              </Text>
+            )}
+        </Rows>
+      </AccordionItem>
+    </Accordion>
+  );
+};
@@ -0,0 +1,138 @@
+import {
+  Alert,
+  Badge,
+  Box,
+  Column,
+  Columns,
+  Rows,
+  Text,
+} from "@canva/app-ui-kit";
+import { FormattedMessage, useIntl } from "react-intl";
+import type { PreviewCheck, PreviewSource } from "../previews";
+
+const PreviewImage = ({ src, alt }: { src: string; alt: string }) => (
+  // Using img tag for preview as ImageCard is for different purpose
+  // eslint-disable-next-line react/forbid-elements
+  <img
+    src={src}
+    alt={alt}
+    style={{
+      width: "100%",
+      maxHeight: "150px",
+      objectFit: "contain",
+      borderRadius: "4px",
+    }}
+  />
+);
+
+/**
+ * Shows the image preview, and next to it every preview embedded in the file.
+ * Embedded previews that differ from the image raise a warning, as they may
+ * still show content that was cropped or edited out.
+ */
+export const PreviewComparison = ({
+  imageUrl,
+  previews,
+}: {
+  imageUrl: string;
+  previews: readonly PreviewCheck[];
+}) => {
+  const intl = useIntl();
+  const mismatched = previews.filter(({ mismatch }) => mismatch);
+
+  const sourceLabels: Record<PreviewSource, string> = {
+    exif: intl.formatMessage({
+      defaultMessage: "EXIF thumbnail",
+      description: "Caption for the thumbnail stored in the EXIF block",
+    }),
+    photoshop: intl.formatMessage({
+      defaultMessage: "Photoshop preview",
+      description: "Caption for the thumbnail stored by Adobe Photoshop",
+    }),
+    xmp: intl.formatMessage({
+      defaultMessage: "XMP thumbnail",
+      description: "Caption for a thumbnail stored in the XMP packet",
+    }),
+  };
+  const imageAlt = intl.formatMessage({
+    defaultMessage: "Preview",
+    description: "Alt text for image preview",
+  });
+
+  if (previews.length === 0) {
+    return (
+      <Box background="neutralLow" borderRadius="standard" padding="1u">
+        <PreviewImage src={imageUrl} alt={imageAlt} />
+      </Box>
+    );
+  }
+
+  return (
+    <Rows spacing="1u">
+      <Box background="neutralLow" borderRadius="standard" padding="1u">
+        <Columns spacing="1u" alignY="end">
+          <Column>
+            <Rows spacing="0.5u">
+              <PreviewImage src={imageUrl} alt={imageAlt} />
+              <Text size="xsmall" tone="secondary" alignment="center">
+                <FormattedMessage
+                  defaultMessage="Image"
+                  description="Caption for the main image next to its embedded previews"
+                />
+              </Text>
+            </Rows>
+          </Column>
+          {previews.map(({ source, url, mismatch }, index) => (
+            <Column key={index} width="1/4">
+              <Rows spacing="0.5u">
+                <PreviewImage src={url} alt={sourceLabels[source]} />
+                <Text size="xsmall" tone="secondary" alignment="center">
+                  {sourceLabels[source]}
+                </Text>
+                {mismatch && (
+                  <Badge
+                    tone="critical"
+                    text={intl.formatMessage({
+                      defaultMessage: "Differs",
+                      description:
+                        "Badge on an embedded preview that does not match the image",
+                    })}
+                  />
+                )}
+              </Rows>
+            </Column>
+          ))}
+        </Columns>
+      </Box>
+      {mismatched.length > 0 ? (
+        <Alert
+          tone="critical"
+          title={intl.formatMessage({
+            defaultMessage: "Cropped-out content is still in this file",
+            description:
+              "Title of the warning when an embedded preview differs from the image",
+          })}
+        >
+          <FormattedMessage
+            defaultMessage="{count, plural, one {An embedded preview} other {# embedded previews}} {shape, select, true {{count, plural, one {has} other {have}} a different shape from} other {{count, plural, one {shows} other {show}} different content from}} the image. Anyone who opens the file can see what was cropped or edited out. Cleaning removes embedded previews."
+            description="Warning when embedded previews differ from the image in aspect ratio or content"
+            values={{
+              count: mismatched.length,
+              shape: mismatched.some(
+                ({ mismatch }) => mismatch === "aspectRatio",
+              ),
+            }}
+          />
+        </Alert>
+      ) : (
+        <Text size="small" tone="tertiary">
+          <FormattedMessage
+            defaultMessage="{count, plural, one {This file holds an embedded preview} other {This file holds # embedded previews}}. Cleaning removes them."
+            description="Note when a file holds embedded previews that match the image"
+            values={{ count: previews.length }}
+          />
+        </Text>
+      )}
+    </Rows>
+  );
+};
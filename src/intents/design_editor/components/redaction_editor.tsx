@@ -0,0 +1,318 @@
+import {
+  Accordion,
+  AccordionItem,
+  Box,
+  Button,
+  Column,
+  Columns,
+  FormField,
+  Rows,
+  SegmentedControl,
+  Text,
+} from "@canva/app-ui-kit";
+import { useEffect, useRef, useState } from "react";
+import { FormattedMessage, useIntl } from "react-intl";
+import type {
+  RedactionEffect,
+  RedactionPoint,
+  RedactionShape,
+} from "../cleaners";
+import { applyRedactions, traceRedactionShape } from "../cleaners";
+import type { RedactionHistory } from "../redactions";
+import {
+  addRedaction,
+  clearRedactions,
+  extendOutline,
+  getDraggedRect,
+  isUsableShape,
+  redoRedaction,
+  undoRedaction,
+} from "../redactions";
+
+// Long edge of the preview canvas, in pixels. The cleaned image is redacted
+// at its full size
+const PREVIEW_SIZE = 640;
+
+function getPointerPoint(
+  event: React.PointerEvent<HTMLCanvasElement>,
+): RedactionPoint {
+  const rect = event.currentTarget.getBoundingClientRect();
+  return {
+    x: (event.clientX - rect.left) / rect.width,
+    y: (event.clientY - rect.top) / rect.height,
+  };
+}
+
+/**
+ * Lets the user cover parts of the image, e.g. faces, house numbers or
+ * screens, by drawing rectangles or freehand outlines over a preview. The
+ * preview is redacted with the same code as the cleaned image. Collapsed by
+ * default, as most users only want metadata removed.
+ */
+export const RedactionEditor = ({
+  imageUrl,
+  history,
+  disabled,
+  onHistoryChange,
+}: {
+  imageUrl: string;
+  history: RedactionHistory;
+  disabled?: boolean;
+  onHistoryChange: (history: RedactionHistory) => void;
+}) => {
+  const intl = useIntl();
+  const [shapeType, setShapeType] = useState<RedactionShape["type"]>("rect");
+  const [effect, setEffect] = useState<RedactionEffect>("blur");
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  // The redacted preview, redrawn only when the redactions change
+  const [redacted, setRedacted] = useState<HTMLCanvasElement | null>(null);
+  // The shape being drawn, shown as an outline until the pointer is released
+  const [draft, setDraft] = useState<RedactionShape | null>(null);
+  const dragStart = useRef<RedactionPoint | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => {
+      if (!cancelled) setImage(img);
+    };
+    img.src = imageUrl;
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    if (!image) return;
+    const scale = Math.min(
+      1,
+      PREVIEW_SIZE / Math.max(image.naturalWidth, image.naturalHeight),
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    applyRedactions(ctx, canvas.width, canvas.height, history.present);
+    setRedacted(canvas);
+  }, [image, history.present]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !redacted) return;
+    canvas.width = redacted.width;
+    canvas.height = redacted.height;
+    ctx.drawImage(redacted, 0, 0);
+    if (!draft) return;
+    // A dark and a light dash, so the outline shows on any background
+    traceRedactionShape(ctx, draft, canvas.width, canvas.height);
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 4]);
+    ctx.strokeStyle = "#000000";
+    ctx.stroke();
+    ctx.lineDashOffset = 5;
+    ctx.strokeStyle = "#ffffff";
+    ctx.stroke();
+  }, [redacted, draft]);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = getPointerPoint(event);
+    dragStart.current = point;
+    setDraft(
+      shapeType === "rect"
+        ? getDraggedRect(point, point)
+        : { type: "freehand", points: [point] },
+    );
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragStart.current;
+    if (!start || !draft) return;
+    const point = getPointerPoint(event);
+    setDraft(
+      draft.type === "rect"
+        ? getDraggedRect(start, point)
+        : { type: "freehand", points: extendOutline(draft.points, point) },
+    );
+  };
+
+  const handlePointerUp = () => {
+    if (draft && isUsableShape(draft)) {
+      onHistoryChange(addRedaction(history, { shape: draft, effect }));
+    }
+    dragStart.current = null;
+    setDraft(null);
+  };
+
+  const handlePointerCancel = () => {
+    dragStart.current = null;
+    setDraft(null);
+  };
+
+  return (
+    <Accordion>
+      <AccordionItem
+        title={
+          history.present.length > 0
+            ? intl.formatMessage(
+                {
+                  defaultMessage:
+                    "Redact areas ({count, plural, one {# area} other {# areas}})",
+                  description:
+                    "Title of the redaction section, with the number of areas that will be covered",
+                },
+                { count: history.present.length },
+              )
+            : intl.formatMessage({
+                defaultMessage: "Redact areas",
+                description:
+                  "Title of the optional section for covering parts of the image",
+              })
+        }
+      >
+        <Rows spacing="1u">
+          <Text size="small" tone="secondary">
+            <FormattedMessage
+              defaultMessage="Draw over faces, house numbers, badges or screens to cover them. Removing metadata does not hide what the picture shows. Redactions are burned into the full-size image when it is cleaned."
+              description="Explains what the redaction editor is for and that redactions are applied to the full-resolution image"
+            />
+          </Text>
+          <FormField
+            label={intl.formatMessage({
+              defaultMessage: "Shape",
+              description: "Label for the redaction shape picker",
+            })}
+            value={shapeType}
+            control={(props) => (
+              <SegmentedControl<RedactionShape["type"]>
+                {...props}
+                options={[
+                  {
+                    value: "rect",
+                    label: intl.formatMessage({
+                      defaultMessage: "Rectangle",
+                      description: "Option to redact rectangular areas",
+                    }),
+                  },
+                  {
+                    value: "freehand",
+                    label: intl.formatMessage({
+                      defaultMessage: "Freehand",
+                      description: "Option to redact areas outlined by hand",
+                    }),
+                  },
+                ]}
+                onChange={setShapeType}
+                disabled={disabled}
+              />
+            )}
+          />
+          <FormField
+            label={intl.formatMessage({
+              defaultMessage: "Effect",
+              description: "Label for the redaction effect picker",
+            })}
+            value={effect}
+            control={(props) => (
+              <SegmentedControl<RedactionEffect>
+                {...props}
+                options={[
+                  {
+                    value: "blur",
+                    label: intl.formatMessage({
+                      defaultMessage: "Blur",
+                      description: "Option to blur redacted areas",
+                    }),
+                  },
+                  {
+                    value: "pixelate",
+                    label: intl.formatMessage({
+                      defaultMessage: "Pixelate",
+                      description: "Option to pixelate redacted areas",
+                    }),
+                  },
+                  {
+                    value: "fill",
+                    label: intl.formatMessage({
+                      defaultMessage: "Solid fill",
+                      description:
+                        "Option to cover redacted areas with solid black",
+                    }),
+                  },
+                ]}
+                onChange={setEffect}
+                disabled={disabled}
+              />
+            )}
+          />
+          <Box background="neutralLow" borderRadius="standard" padding="1u">
+            <canvas
+              ref={canvasRef}
+              aria-label={intl.formatMessage({
+                defaultMessage: "Image to redact. Drag to cover an area.",
+                description: "Aria label for the redaction drawing area",
+              })}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerCancel}
+              style={{
+                display: "block",
+                width: "100%",
+                borderRadius: "4px",
+                touchAction: "none",
+                cursor: disabled ? "default" : "crosshair",
+              }}
+            />
+          </Box>
+          <Columns spacing="1u">
+            <Column>
+              <Button
+                variant="secondary"
+                onClick={() => onHistoryChange(undoRedaction(history))}
+                disabled={disabled || history.past.length === 0}
+                stretch
+              >
+                {intl.formatMessage({
+                  defaultMessage: "Undo",
+                  description: "Button to remove the last redaction",
+                })}
+              </Button>
+            </Column>
+            <Column>
+              <Button
+                variant="secondary"
+                onClick={() => onHistoryChange(redoRedaction(history))}
+                disabled={disabled || history.future.length === 0}
+                stretch
+              >
+                {intl.formatMessage({
+                  defaultMessage: "Redo",
+                  description: "Button to restore the last undone redaction",
+                })}
+              </Button>
+            </Column>
+            <Column>
+              <Button
+                variant="secondary"
+                onClick={() => onHistoryChange(clearRedactions(history))}
+                disabled={disabled || history.present.length === 0}
+                stretch
+              >
+                {intl.formatMessage({
+                  defaultMessage: "Clear",
+                  description: "Button to remove all redactions",
+                })}
+              </Button>
+            </Column>
+          </Columns>
+        </Rows>
+      </AccordionItem>
+    </Accordion>
+  );
+};
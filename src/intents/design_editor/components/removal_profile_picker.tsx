@@ -0,0 +1,109 @@
+import { CheckboxGroup, FormField, Rows, Select } from "@canva/app-ui-kit";
+import { useIntl } from "react-intl";
+import type { MetadataField, RemovalProfile } from "../profiles";
+import { useFieldLabels } from "./field_labels";
+
+export const RemovalProfilePicker = ({
+  profile,
+  keptFields,
+  availableFields,
+  disabled,
+  onProfileChange,
+  onKeptFieldsChange,
+}: {
+  profile: RemovalProfile;
+  keptFields: MetadataField[];
+  availableFields: MetadataField[];
+  disabled?: boolean;
+  onProfileChange: (profile: RemovalProfile) => void;
+  onKeptFieldsChange: (fields: MetadataField[]) => void;
+}) => {
+  const intl = useIntl();
+  const fieldLabels = useFieldLabels();
+
+  return (
+    <Rows spacing="1u">
+      <FormField
+        label={intl.formatMessage({
+          defaultMessage: "What to remove",
+          description: "Label for the removal profile picker",
+        })}
+        value={profile}
+        control={(props) => (
+          <Select<RemovalProfile>
+            {...props}
+            options={[
+              {
+                value: "stripAll",
+                label: intl.formatMessage({
+                  defaultMessage: "Strip everything",
+                  description: "Removal profile that removes all metadata",
+                }),
+              },
+              {
+                value: "privacy",
+                label: intl.formatMessage({
+                  defaultMessage: "Privacy only",
+                  description:
+                    "Removal profile that removes location, camera, date and personal fields",
+                }),
+                description: intl.formatMessage({
+                  defaultMessage:
+                    "Removes GPS, camera make and model, dates and names",
+                  description: "Description of the privacy only profile",
+                }),
+              },
+              {
+                value: "keepRights",
+                label: intl.formatMessage({
+                  defaultMessage: "Keep rights info",
+                  description:
+                    "Removal profile that keeps copyright and artist fields",
+                }),
+                description: intl.formatMessage({
+                  defaultMessage: "Keeps only Copyright and Artist",
+                  description: "Description of the keep rights info profile",
+                }),
+              },
+              {
+                value: "custom",
+                label: intl.formatMessage({
+                  defaultMessage: "Custom",
+                  description:
+                    "Removal profile where the user picks fields to keep",
+                }),
+              },
+            ]}
+            onChange={onProfileChange}
+            disabled={disabled}
+            stretch
+          />
+        )}
+      />
+      {profile === "custom" && availableFields.length > 0 && (
+        <FormField
+          label={intl.formatMessage({
+            defaultMessage: "Fields to keep",
+            description: "Label for the custom list of fields to keep",
+          })}
+          value={keptFields}
+          control={(props) => (
+            <CheckboxGroup
+              {...props}
+              options={availableFields.map((field) => ({
+                value: field,
+                label: fieldLabels[field],
+              }))}
+              onChange={(values) =>
+                onKeptFieldsChange(
+                  availableFields.filter((field) => values.includes(field)),
+                )
+              }
+              disabled={disabled}
+            />
+          )}
+        />
+      )}
+    </Rows>
+  );
+};
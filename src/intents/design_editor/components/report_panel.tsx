@@ -0,0 +1,135 @@
+import {
+  Box,
+  Button,
+  Checkbox,
+  FormField,
+  MultilineInput,
+  Rows,
+  SegmentedControl,
+  Title,
+} from "@canva/app-ui-kit";
+import { useState } from "react";
+import { FormattedMessage, useIntl } from "react-intl";
+import type { CleanReport, ReportFormat } from "../report";
+import { formatReport, maskReport } from "../report";
+
+/**
+ * Shows the report of a clean as JSON, CSV or plain text, ready to copy or to
+ * add to the design as text. Sensitive values are masked by default.
+ */
+export const ReportPanel = ({
+  report,
+  onAddToDesign,
+}: {
+  report: CleanReport;
+  // Undefined when the design cannot take new elements
+  onAddToDesign?: (text: string) => Promise<void>;
+}) => {
+  const intl = useIntl();
+  const [format, setFormat] = useState<ReportFormat>("text");
+  const [masked, setMasked] = useState(true);
+  const [adding, setAdding] = useState(false);
+
+  const output = formatReport(masked ? maskReport(report) : report, format);
+
+  const handleAdd = async () => {
+    if (!onAddToDesign) return;
+    setAdding(true);
+    try {
+      await onAddToDesign(output);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <Box background="neutralLow" borderRadius="standard" padding="1.5u">
+      <Rows spacing="1u">
+        <Title size="xsmall">
+          <FormattedMessage
+            defaultMessage="Cleaning report"
+            description="Section title for the exportable report of a clean"
+          />
+        </Title>
+        <FormField
+          label={intl.formatMessage({
+            defaultMessage: "Format",
+            description: "Label for the picker of the report format",
+          })}
+          value={format}
+          control={(props) => (
+            <SegmentedControl<ReportFormat>
+              {...props}
+              onChange={setFormat}
+              options={[
+                {
+                  value: "text",
+                  label: intl.formatMessage({
+                    defaultMessage: "Text",
+                    description: "Plain text report format",
+                  }),
+                },
+                {
+                  value: "json",
+                  label: intl.formatMessage({
+                    defaultMessage: "JSON",
+                    description: "JSON report format",
+                  }),
+                },
+                {
+                  value: "csv",
+                  label: intl.formatMessage({
+                    defaultMessage: "CSV",
+                    description: "Comma-separated values report format",
+                  }),
+                },
+              ]}
+            />
+          )}
+        />
+        <Checkbox
+          checked={masked}
+          onChange={(_, checked) => setMasked(checked)}
+          label={intl.formatMessage({
+            defaultMessage: "Mask sensitive values",
+            description:
+              "Checkbox to hide the values of sensitive tags in the report",
+          })}
+        />
+        <FormField
+          label={intl.formatMessage({
+            defaultMessage: "Report",
+            description: "Label for the text of the cleaning report",
+          })}
+          description={intl.formatMessage({
+            defaultMessage: "Copy this report as evidence of the clean.",
+            description: "Help text for the cleaning report",
+          })}
+          control={(props) => (
+            <MultilineInput
+              {...props}
+              value={output}
+              readOnly
+              minRows={4}
+              maxRows={10}
+            />
+          )}
+        />
+        {onAddToDesign && (
+          <Button
+            variant="secondary"
+            onClick={handleAdd}
+            loading={adding}
+            stretch
+          >
+            {intl.formatMessage({
+              defaultMessage: "Add report to design",
+              description:
+                "Button to add the cleaning report as a text element",
+            })}
+          </Button>
+        )}
+      </Rows>
+    </Box>
+  );
+};
@@ -0,0 +1,86 @@
+import {
+  Accordion,
+  AccordionItem,
+  FormField,
+  Rows,
+  Text,
+  TextInput,
+} from "@canva/app-ui-kit";
+import { FormattedMessage, useIntl } from "react-intl";
+import type { RightsInfo } from "../rights";
+import { RIGHTS_FIELDS } from "../rights";
+
+export const useRightsLabels = (): Record<keyof RightsInfo, string> => {
+  const intl = useIntl();
+  return {
+    creator: intl.formatMessage({
+      defaultMessage: "Creator",
+      description: "Label for the name of the person who made the image",
+    }),
+    copyright: intl.formatMessage({
+      defaultMessage: "Copyright notice",
+      description: "Label for the copyright notice of the image",
+    }),
+    credit: intl.formatMessage({
+      defaultMessage: "Credit line",
+      description: "Label for how the image should be credited when published",
+    }),
+    licenseUrl: intl.formatMessage({
+      defaultMessage: "Licence URL",
+      description: "Label for the web address of the image's licence terms",
+    }),
+  };
+};
+
+/**
+ * Collects the attribution to write into the cleaned file. Collapsed by
+ * default, as most users only want metadata removed.
+ */
+export const RightsForm = ({
+  rights,
+  disabled,
+  onChange,
+}: {
+  rights: RightsInfo;
+  disabled?: boolean;
+  onChange: (rights: RightsInfo) => void;
+}) => {
+  const intl = useIntl();
+  const labels = useRightsLabels();
+
+  return (
+    <Accordion>
+      <AccordionItem
+        title={intl.formatMessage({
+          defaultMessage: "Add your rights info",
+          description:
+            "Title of the optional section for writing new attribution into the cleaned image",
+        })}
+      >
+        <Rows spacing="1u">
+          <Text size="small" tone="secondary">
+            <FormattedMessage
+              defaultMessage="Written into the cleaned image in place of the original author and copyright. Leave empty to add nothing."
+              description="Explains the optional rights info section"
+            />
+          </Text>
+          {RIGHTS_FIELDS.map((field) => (
+            <FormField
+              key={field}
+              label={labels[field]}
+              value={rights[field]}
+              control={(props) => (
+                <TextInput
+                  {...props}
+                  type={field === "licenseUrl" ? "url" : "text"}
+                  onChange={(value) => onChange({ ...rights, [field]: value })}
+                  disabled={disabled}
+                />
+              )}
+            />
+          ))}
+        </Rows>
+      </AccordionItem>
+    </Accordion>
+  );
+};
@@ -0,0 +1,99 @@
+import { Alert, Rows, Text } from "@canva/app-ui-kit";
+import { useIntl } from "react-intl";
+import { formatTagName } from "../metadata";
+import type { RiskCategory, RiskFinding, RiskSeverity } from "../risks";
+import { getHighestSeverity, summarizeRisks } from "../risks";
+
+/**
+ * Summarises privacy risks by category, naming the tags behind each one.
+ * Renders nothing when there are no findings.
+ */
+export const RiskSummary = ({
+  findings,
+}: {
+  findings: readonly RiskFinding[];
+}) => {
+  const intl = useIntl();
+  const highest = getHighestSeverity(findings);
+  if (!highest) return null;
+
+  const categoryLabels: Record<RiskCategory, string> = {
+    location: intl.formatMessage({
+      defaultMessage: "Location",
+      description: "Privacy risk category for GPS and place names",
+    }),
+    identity: intl.formatMessage({
+      defaultMessage: "Identity",
+      description:
+        "Privacy risk category for names, emails and contact details",
+    }),
+    device: intl.formatMessage({
+      defaultMessage: "Device fingerprint",
+      description:
+        "Privacy risk category for camera models and serial numbers that identify a device",
+    }),
+    time: intl.formatMessage({
+      defaultMessage: "Time",
+      description: "Privacy risk category for capture dates and time zones",
+    }),
+    lineage: intl.formatMessage({
+      defaultMessage: "Document lineage",
+      description:
+        "Privacy risk category for document IDs, edit history and original file names",
+    }),
+    hiddenData: intl.formatMessage({
+      defaultMessage: "Hidden data",
+      description:
+        "Privacy risk category for videos, archives and other data appended after the end of an image",
+    }),
+  };
+  const severityLabels: Record<RiskSeverity, string> = {
+    high: intl.formatMessage({
+      defaultMessage: "high",
+      description: "High privacy risk severity",
+    }),
+    medium: intl.formatMessage({
+      defaultMessage: "medium",
+      description: "Medium privacy risk severity",
+    }),
+    low: intl.formatMessage({
+      defaultMessage: "low",
+      description: "Low privacy risk severity",
+    }),
+  };
+
+  return (
+    <Alert
+      tone={highest === "high" ? "critical" : "warn"}
+      title={intl.formatMessage({
+        defaultMessage: "Privacy risks detected",
+        description: "Title of the privacy risk summary",
+      })}
+    >
+      <Rows spacing="0.5u">
+        {summarizeRisks(findings).map(
+          ({ category, severity, findings: inCategory }) => (
+            <Text key={category} size="small">
+              {intl.formatMessage(
+                {
+                  defaultMessage: "{category} ({severity}): {tags}",
+                  description:
+                    "One privacy risk category with its severity and the metadata tags behind it",
+                },
+                {
+                  category: categoryLabels[category],
+                  severity: severityLabels[severity],
+                  tags: intl.formatList([
+                    ...new Set(
+                      inCategory.map(({ tag }) => formatTagName(tag.key)),
+                    ),
+                  ]),
+                },
+              )}
+            </Text>
+          ),
+        )}
+      </Rows>
+    </Alert>
+  );
+};
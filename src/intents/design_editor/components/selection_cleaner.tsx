@@ -0,0 +1,355 @@
+import {
+  Alert,
+  Box,
+  Button,
+  Column,
+  Columns,
+  ImageCard,
+  LoadingIndicator,
+  Rows,
+  Text,
+  Title,
+} from "@canva/app-ui-kit";
+import type { ImageRef } from "@canva/asset";
+import type { SelectionEvent } from "@canva/design";
+import { selection } from "@canva/design";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { FormattedMessage, useIntl } from "react-intl";
+import { downloadDesignImage, uploadCleanedImage } from "../assets";
+import { cleanFile } from "../cleaning";
+import type { MetadataInfo } from "../metadata";
+import { readMetadata } from "../metadata";
+import { PROFILE_KEPT_FIELDS } from "../profiles";
+import type { RiskFinding } from "../risks";
+import { getMetadataRisks } from "../risks";
+import type { VerificationReport } from "../verification";
+import { RiskSummary } from "./risk_summary";
+
+type SelectionState = "idle" | "cleaning" | "restoring";
+
+interface SelectedImage {
+  ref: ImageRef;
+  url: string;
+  file: File;
+  metadata: MetadataInfo;
+}
+
+interface ReplacedImage {
+  originalRef: ImageRef;
+  cleanedRef: ImageRef;
+  beforeUrl: string;
+  afterUrl: string;
+  risksBefore: RiskFinding[];
+  verification: VerificationReport;
+}
+
+async function readSelectedImage(ref: ImageRef): Promise<SelectedImage> {
+  const { file, url } = await downloadDesignImage(ref);
+  return { ref, url, file, metadata: await readMetadata(file) };
+}
+
+/**
+ * Cleans images that are already in the design. It follows the user's image
+ * selection, shows the risks found in the selected images, and replaces them
+ * in place with cleaned copies in a single save, so one undo reverts it.
+ */
+export const SelectionCleaner = () => {
+  const intl = useIntl();
+  const [selectionEvent, setSelectionEvent] =
+    useState<SelectionEvent<"image"> | null>(null);
+  const [images, setImages] = useState<SelectedImage[]>([]);
+  const [reading, setReading] = useState(false);
+  const [state, setState] = useState<SelectionState>("idle");
+  const [replaced, setReplaced] = useState<ReplacedImage[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Ignores reads of a selection that has since changed
+  const readId = useRef(0);
+
+  useEffect(
+    () =>
+      selection.registerOnChange({
+        scope: "image",
+        onChange: (event) => setSelectionEvent(event.count > 0 ? event : null),
+      }),
+    [],
+  );
+
+  useEffect(() => {
+    const id = ++readId.current;
+    setImages([]);
+    if (!selectionEvent) return;
+
+    setReading(true);
+    (async () => {
+      try {
+        const draft = await selectionEvent.read();
+        const selected: SelectedImage[] = [];
+        for (const { ref } of draft.contents) {
+          selected.push(await readSelectedImage(ref));
+        }
+        if (id === readId.current) setImages(selected);
+      } catch {
+        if (id === readId.current) {
+          setError(
+            intl.formatMessage({
+              defaultMessage: "Failed to read the selected images.",
+              description:
+                "Error message when images selected in the design cannot be read",
+            }),
+          );
+        }
+      }
+      if (id === readId.current) setReading(false);
+    })();
+  }, [selectionEvent, intl]);
+
+  const handleClean = useCallback(async () => {
+    if (!selectionEvent) return;
+    setState("cleaning");
+    setError(null);
+
+    try {
+      const draft = await selectionEvent.read();
+      const results: ReplacedImage[] = [];
+      for (const content of draft.contents) {
+        const before =
+          images.find(({ ref }) => ref === content.ref) ??
+          (await readSelectedImage(content.ref));
+        const cleaned = await cleanFile(before.file, before.metadata, {
+          keptFields: PROFILE_KEPT_FIELDS.stripAll,
+          colorProfile: "convert",
+          contentCredentials: "remove",
+        });
+        const asset = await uploadCleanedImage(cleaned.image);
+        await asset.whenUploaded();
+
+        results.push({
+          originalRef: content.ref,
+          cleanedRef: asset.ref,
+          beforeUrl: before.url,
+          afterUrl: cleaned.image.url,
+          risksBefore: getMetadataRisks(before.metadata),
+          verification: cleaned.verification,
+        });
+        content.ref = asset.ref;
+      }
+      // Saving once makes the whole replacement a single undo step
+      await draft.save();
+      setReplaced(results);
+    } catch {
+      setError(
+        intl.formatMessage({
+          defaultMessage:
+            "Failed to clean the selected images. Your design was not changed.",
+          description:
+            "Error message when images selected in the design cannot be cleaned",
+        }),
+      );
+    }
+    setState("idle");
+  }, [selectionEvent, images, intl]);
+
+  const handleRestore = useCallback(async () => {
+    if (!selectionEvent) return;
+    setState("restoring");
+    setError(null);
+
+    try {
+      const draft = await selectionEvent.read();
+      let restored = 0;
+      for (const content of draft.contents) {
+        const match = replaced.find(
+          ({ cleanedRef }) => cleanedRef === content.ref,
+        );
+        if (match) {
+          content.ref = match.originalRef;
+          restored++;
+        }
+      }
+      if (restored === 0) {
+        setError(
+          intl.formatMessage({
+            defaultMessage:
+              "Select the cleaned images in your design to restore the originals.",
+            description:
+              "Error message when none of the selected images were replaced by the app",
+          }),
+        );
+      } else {
+        await draft.save();
+        setReplaced([]);
+      }
+    } catch {
+      setError(
+        intl.formatMessage({
+          defaultMessage: "Failed to restore the original images.",
+          description:
+            "Error message when replaced images cannot be restored to their originals",
+        }),
+      );
+    }
+    setState("idle");
+  }, [selectionEvent, replaced, intl]);
+
+  const risks = images.flatMap(({ metadata }) => getMetadataRisks(metadata));
+  const busy = reading || state !== "idle";
+
+  if (!selectionEvent && replaced.length === 0) {
+    return (
+      <Text size="small" tone="tertiary">
+        <FormattedMessage
+          defaultMessage="Or select images in your design to check and clean them in place."
+          description="Hint that images already in the design can be cleaned by selecting them"
+        />
+      </Text>
+    );
+  }
+
+  return (
+    <Box background="neutralLow" borderRadius="standard" padding="1.5u">
+      <Rows spacing="1u">
+        <Title size="xsmall">
+          <FormattedMessage
+            defaultMessage="Images in your design"
+            description="Section title for cleaning images selected in the design"
+          />
+        </Title>
+
+        {error && <Alert tone="critical">{error}</Alert>}
+
+        {selectionEvent && (
+          <Text size="small" tone="secondary">
+            <FormattedMessage
+              defaultMessage="{count, plural, one {# image selected} other {# images selected}}"
+              description="Number of images selected in the design"
+              values={{ count: selectionEvent.count }}
+            />
+          </Text>
+        )}
+
+        {reading ? (
+          <Rows spacing="1u" align="center">
+            <LoadingIndicator size="medium" />
+            <Text size="small" tone="tertiary">
+              <FormattedMessage
+                defaultMessage="Reading metadata..."
+                description="Loading text while metadata of images selected in the design is read"
+              />
+            </Text>
+          </Rows>
+        ) : (
+          images.length > 0 &&
+          (risks.length > 0 ? (
+            <RiskSummary findings={risks} />
+          ) : (
+            <Alert tone="positive">
+              <FormattedMessage
+                defaultMessage="No privacy risks found in the selected images."
+                description="Message when images selected in the design have no risky metadata"
+              />
+            </Alert>
+          ))
+        )}
+
+        {selectionEvent && (
+          <Button
+            variant="primary"
+            onClick={handleClean}
+            disabled={busy || images.length === 0}
+            loading={state === "cleaning"}
+            stretch
+          >
+            {intl.formatMessage(
+              {
+                defaultMessage:
+                  "{count, plural, one {Clean selected image} other {Clean # selected images}}",
+                description:
+                  "Button to clean images selected in the design and replace them in place",
+              },
+              { count: selectionEvent.count },
+            )}
+          </Button>
+        )}
+
+        {replaced.length > 0 && (
+          <Rows spacing="1u">
+            <Alert tone="positive">
+              <FormattedMessage
+                defaultMessage="{count, plural, one {Replaced # image with a cleaned copy.} other {Replaced # images with cleaned copies.}} Undo in Canva or restore the originals to revert."
+                description="Message after images in the design were replaced with cleaned copies"
+                values={{ count: replaced.length }}
+              />
+            </Alert>
+            {replaced.map((item) => (
+              <Columns key={item.cleanedRef} spacing="1u">
+                <Column>
+                  <Rows spacing="0.5u">
+                    <Text size="small" tone="secondary">
+                      <FormattedMessage
+                        defaultMessage="Before: {count, plural, =0 {no risks} one {# risk} other {# risks}}"
+                        description="Label for the original image with its number of privacy risks"
+                        values={{ count: item.risksBefore.length }}
+                      />
+                    </Text>
+                    <ImageCard
+                      thumbnailUrl={item.beforeUrl}
+                      thumbnailHeight={80}
+                      borderRadius="standard"
+                      alt={intl.formatMessage({
+                        defaultMessage: "Original image",
+                        description:
+                          "Alt text for the original image before cleaning",
+                      })}
+                    />
+                  </Rows>
+                </Column>
+                <Column>
+                  <Rows spacing="0.5u">
+                    <Text
+                      size="small"
+                      tone={item.verification.passed ? "secondary" : "critical"}
+                    >
+                      {item.verification.passed ? (
+                        <FormattedMessage
+                          defaultMessage="After: verified clean"
+                          description="Label for a cleaned image that passed verification"
+                        />
+                      ) : (
+                        <FormattedMessage
+                          defaultMessage="After: check failed"
+                          description="Label for a cleaned image in which sensitive metadata was still found"
+                        />
+                      )}
+                    </Text>
+                    <ImageCard
+                      thumbnailUrl={item.afterUrl}
+                      thumbnailHeight={80}
+                      borderRadius="standard"
+                      alt={intl.formatMessage({
+                        defaultMessage: "Image with metadata removed",
+                        description: "Alt text for cleaned image preview",
+                      })}
+                    />
+                  </Rows>
+                </Column>
+              </Columns>
+            ))}
+            <Button
+              variant="secondary"
+              onClick={handleRestore}
+              disabled={busy}
+              loading={state === "restoring"}
+              stretch
+            >
+              {intl.formatMessage({
+                defaultMessage: "Restore originals",
+                description:
+                  "Button to put the original images back in the design",
+              })}
+            </Button>
+          </Rows>
+        )}
+      </Rows>
+    </Box>
+  );
+};
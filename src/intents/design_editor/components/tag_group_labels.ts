@@ -0,0 +1,63 @@
+import { useIntl } from "react-intl";
+import type { TagGroup } from "../metadata";
+import type { ResidualSource } from "../verification";
+
+// Order in which tags are listed, grouped by where they were found
+export const SOURCE_ORDER: readonly ResidualSource[] = [
+  "exif",
+  "gps",
+  "iptc",
+  "xmp",
+  "makerNote",
+  "trailer",
+  "text",
+  "icc",
+];
+
+export const useTagGroupLabels = (): Record<TagGroup, string> => {
+  const intl = useIntl();
+  return {
+    exif: intl.formatMessage({
+      defaultMessage: "EXIF",
+      description: "Name of the EXIF metadata segment",
+    }),
+    gps: intl.formatMessage({
+      defaultMessage: "GPS",
+      description: "Name of the GPS metadata segment",
+    }),
+    iptc: intl.formatMessage({
+      defaultMessage: "IPTC",
+      description: "Name of the IPTC metadata segment",
+    }),
+    xmp: intl.formatMessage({
+      defaultMessage: "XMP",
+      description: "Name of the XMP metadata segment",
+    }),
+    makerNote: intl.formatMessage({
+      defaultMessage: "MakerNote",
+      description:
+        "Name of the camera maker's private metadata block inside EXIF",
+    }),
+    trailer: intl.formatMessage({
+      defaultMessage: "Trailing data",
+      description:
+        "Name of the data appended after the end of an image, such as a motion photo video",
+    }),
+  };
+};
+
+export const useSourceLabels = (): Record<ResidualSource, string> => {
+  const intl = useIntl();
+  return {
+    ...useTagGroupLabels(),
+    text: intl.formatMessage({
+      defaultMessage: "Comments and text",
+      description:
+        "Heading for JPEG comments and PNG text chunks found in an image",
+    }),
+    icc: intl.formatMessage({
+      defaultMessage: "Colour profile",
+      description: "Heading for an ICC colour profile found in an image",
+    }),
+  };
+};
@@ -0,0 +1,80 @@
+import { Alert, Box, Rows, Text } from "@canva/app-ui-kit";
+import { FormattedMessage } from "react-intl";
+import { formatTagName } from "../metadata";
+import type { VerificationReport } from "../verification";
+import { MetadataRow } from "./metadata_row";
+import { SOURCE_ORDER, useSourceLabels } from "./tag_group_labels";
+
+/**
+ * Shows what the post-clean check found in the cleaned file, with anything
+ * that should have been removed highlighted.
+ */
+export const VerificationPanel = ({
+  report,
+}: {
+  report: VerificationReport;
+}) => {
+  const sourceLabels = useSourceLabels();
+  const sensitiveCount = report.residuals.filter(
+    ({ sensitive }) => sensitive,
+  ).length;
+
+  return (
+    <Rows spacing="1u">
+      {report.passed ? (
+        <Alert tone="positive">
+          <FormattedMessage
+            defaultMessage="Verified: the cleaned image was checked again and no sensitive metadata was found."
+            description="Message when the post-clean check finds no sensitive metadata"
+          />
+        </Alert>
+      ) : (
+        <Alert tone="critical">
+          <FormattedMessage
+            defaultMessage="Verification failed: {count, plural, one {# sensitive tag} other {# sensitive tags}} survived cleaning. Do not use this image."
+            description="Message when the post-clean check finds sensitive metadata in the cleaned image"
+            values={{ count: sensitiveCount }}
+          />
+        </Alert>
+      )}
+
+      {report.residuals.length > 0 && (
+        <Box background="neutralLow" borderRadius="standard" padding="1.5u">
+          <Rows spacing="1u">
+            <Text size="small" tone="secondary">
+              <FormattedMessage
+                defaultMessage="Still in the cleaned image:"
+                description="Introduces the list of metadata left in the cleaned image"
+              />
+            </Text>
+            {SOURCE_ORDER.map((source) => {
+              const residuals = report.residuals.filter(
+                (residual) => residual.source === source,
+              );
+              if (residuals.length === 0) return null;
+              return (
+                <Rows key={source} spacing="0.5u">
+                  <Text size="small" variant="bold">
+                    {sourceLabels[source]}
+                  </Text>
+                  {residuals.map(({ name, value, sensitive }, index) => (
+                    <MetadataRow
+                      key={index}
+                      label={
+                        source === "text" || source === "icc"
+                          ? name
+                          : formatTagName(name)
+                      }
+                      value={value}
+                      isRisk={sensitive}
+                    />
+                  ))}
+                </Rows>
+              );
+            })}
+          </Rows>
+        </Box>
+      )}
+    </Rows>
+  );
+};
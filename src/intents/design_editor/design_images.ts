@@ -0,0 +1,102 @@
+import type { ImageRef } from "@canva/asset";
+import type { DesignEditing } from "@canva/design";
+import { openDesign } from "@canva/design";
+
+type MediaContainer = DesignEditing.Fill["mediaContainer"];
+
+export interface DesignImage {
+  ref: ImageRef;
+  // Number of fills on the page that show this image
+  uses: number;
+}
+
+function addFill(
+  containers: MediaContainer[],
+  fill: DesignEditing.Fill | DesignEditing.PathFill | undefined,
+) {
+  if (!fill || ("isMediaEditable" in fill && !fill.isMediaEditable)) return;
+  if (fill.mediaContainer.ref?.type === "image") {
+    containers.push(fill.mediaContainer);
+  }
+}
+
+function addElement(
+  containers: MediaContainer[],
+  element: DesignEditing.AbsoluteElement | DesignEditing.GroupContentElement,
+) {
+  switch (element.type) {
+    case "rect":
+      addFill(containers, element.fill);
+      break;
+    case "shape":
+      element.paths.forEach((path) => addFill(containers, path.fill));
+      break;
+    case "group":
+      element.contents.forEach((child) => addElement(containers, child));
+      break;
+    default:
+      break;
+  }
+}
+
+/**
+ * Finds every image fill on the page: the background, image elements, shapes
+ * filled with an image and the same inside groups. Fills the SDK does not let
+ * apps edit are left out, as they could not be replaced anyway.
+ */
+function findImageContainers(page: DesignEditing.Page): MediaContainer[] {
+  if (page.type !== "absolute") return [];
+  const containers: MediaContainer[] = [];
+  addFill(containers, page.background);
+  page.elements.forEach((element) => addElement(containers, element));
+  return containers;
+}
+
+function getImageRef({ ref }: MediaContainer): ImageRef | undefined {
+  return ref?.type === "image" ? ref.imageRef : undefined;
+}
+
+/**
+ * Lists the images on the current page, each once, in the order they appear.
+ */
+export async function listDesignImages(): Promise<DesignImage[]> {
+  const images = new Map<ImageRef, DesignImage>();
+  await openDesign({ type: "current_page" }, async ({ page }) => {
+    for (const container of findImageContainers(page)) {
+      const ref = getImageRef(container);
+      if (!ref) continue;
+      const image = images.get(ref) ?? { ref, uses: 0 };
+      image.uses++;
+      images.set(ref, image);
+    }
+  });
+  return [...images.values()];
+}
+
+/**
+ * Swaps images on the current page for their replacements, keeping how each
+ * one is flipped. All changes are synced at once, so one undo reverts them.
+ * Returns the images that were replaced. Images no longer on the page, or in
+ * a fill apps can no longer edit, are left out.
+ */
+export async function replaceDesignImages(
+  replacements: ReadonlyMap<ImageRef, ImageRef>,
+): Promise<Set<ImageRef>> {
+  const replaced = new Set<ImageRef>();
+  await openDesign({ type: "current_page" }, async ({ page, sync }) => {
+    for (const container of findImageContainers(page)) {
+      const { ref } = container;
+      const imageRef = ref?.type === "image" && replacements.get(ref.imageRef);
+      if (!ref || !imageRef) continue;
+      container.set({
+        type: "image",
+        imageRef,
+        flipX: ref.flipX,
+        flipY: ref.flipY,
+      });
+      replaced.add(ref.imageRef);
+    }
+    if (replaced.size > 0) await sync();
+  });
+  return replaced;
+}
@@ -0,0 +1,120 @@
+import type { MetadataBlock, MetadataBlockType } from "./cleaners";
+import { listMetadataBlocks, METADATA_BLOCK_TYPES } from "./cleaners";
+import type { MetadataEntry } from "./verification";
+import { readMetadataEntries } from "./verification";
+
+// A tag only in the original was removed, one in both was kept and one only
+// in the cleaned file was added by the clean (e.g. a rights stamp)
+export type DiffStatus = "removed" | "kept" | "added";
+
+export interface DiffEntry extends MetadataEntry {
+  status: DiffStatus;
+}
+
+export interface BlockSizeChange {
+  type: MetadataBlockType;
+  // Total size of the blocks of this type, in bytes
+  before: number;
+  after: number;
+}
+
+export interface MetadataDiff {
+  // Tags of the original file, each removed or kept
+  original: DiffEntry[];
+  // Tags of the cleaned file, each kept or added
+  cleaned: DiffEntry[];
+  blocks: BlockSizeChange[];
+  // File sizes in bytes
+  originalSize: number;
+  cleanedSize: number;
+}
+
+function entryKey({ source, name, value }: MetadataEntry): string {
+  return JSON.stringify([source, name, value]);
+}
+
+/**
+ * Marks which tags survived cleaning. A tag counts as kept only when the
+ * cleaned file has the same tag with the same value, so a rewritten value
+ * shows up as removed on one side and added on the other.
+ */
+export function diffMetadataEntries(
+  before: readonly MetadataEntry[],
+  after: readonly MetadataEntry[],
+): Pick<MetadataDiff, "original" | "cleaned"> {
+  // Counted, as a file may hold the same tag twice (e.g. two comments)
+  const remaining = new Map<string, number>();
+  for (const entry of after) {
+    const key = entryKey(entry);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+
+  const original = before.map((entry): DiffEntry => {
+    const key = entryKey(entry);
+    const count = remaining.get(key) ?? 0;
+    if (count === 0) return { ...entry, status: "removed" };
+    remaining.set(key, count - 1);
+    return { ...entry, status: "kept" };
+  });
+
+  const kept = new Map<string, number>();
+  for (const entry of original) {
+    if (entry.status !== "kept") continue;
+    const key = entryKey(entry);
+    kept.set(key, (kept.get(key) ?? 0) + 1);
+  }
+  const cleaned = after.map((entry): DiffEntry => {
+    const key = entryKey(entry);
+    const count = kept.get(key) ?? 0;
+    if (count === 0) return { ...entry, status: "added" };
+    kept.set(key, count - 1);
+    return { ...entry, status: "kept" };
+  });
+
+  return { original, cleaned };
+}
+
+/**
+ * Totals the size of each kind of metadata block before and after cleaning,
+ * leaving out kinds neither file has.
+ */
+export function diffBlockSizes(
+  before: readonly MetadataBlock[],
+  after: readonly MetadataBlock[],
+): BlockSizeChange[] {
+  const total = (blocks: readonly MetadataBlock[], type: MetadataBlockType) =>
+    blocks
+      .filter((block) => block.type === type)
+      .reduce((sum, { size }) => sum + size, 0);
+
+  return METADATA_BLOCK_TYPES.map((type) => ({
+    type,
+    before: total(before, type),
+    after: total(after, type),
+  })).filter(({ before, after }) => before > 0 || after > 0);
+}
+
+/**
+ * Reads both files with the same readers so their tags and metadata blocks
+ * can be compared side by side.
+ */
+export async function createMetadataDiff(
+  original: Blob,
+  cleaned: Blob,
+  tiffPage = 0,
+): Promise<MetadataDiff> {
+  const originalBytes = new Uint8Array(await original.arrayBuffer());
+  const cleanedBytes = new Uint8Array(await cleaned.arrayBuffer());
+  return {
+    ...diffMetadataEntries(
+      await readMetadataEntries(originalBytes, tiffPage),
+      await readMetadataEntries(cleanedBytes),
+    ),
+    blocks: diffBlockSizes(
+      listMetadataBlocks(originalBytes),
+      listMetadataBlocks(cleanedBytes),
+    ),
+    originalSize: original.size,
+    cleanedSize: cleaned.size,
+  };
+}
@@ -0,0 +1,209 @@
+import type { ExifFields } from "./cleaners";
+import { formatExifDate } from "./cleaners";
+import type { MetadataInfo } from "./metadata";
+import type { MetadataField } from "./profiles";
+import { toExifDate } from "./profiles";
+
+// How coarse a generalised location is
+export type GpsPrecision = "city" | "region";
+
+// The last part of the date taken that is kept
+export type DatePrecision = "day" | "month" | "year";
+
+// Fields that can be written back with less detail instead of being removed
+export type GeneralisedField = "gps" | "dateTimeOriginal" | "camera";
+
+export interface GeneraliseSettings {
+  // Null leaves the location to the removal profile
+  gps: GpsPrecision | null;
+  // Null leaves the date taken to the removal profile
+  dateTimeOriginal: DatePrecision | null;
+  // Replaces the camera make and model with a generic category
+  camera: boolean;
+}
+
+export const NO_GENERALISATION: GeneraliseSettings = {
+  gps: null,
+  dateTimeOriginal: null,
+  camera: false,
+};
+
+// A field as found in the original and as written into the cleaned file
+export interface GeneralisedValue {
+  field: GeneralisedField;
+  original: string;
+  generalised: string;
+}
+
+// Decimal places coordinates are rounded to: about 11 km for a city and
+// 111 km for a region at the equator, and less east-west towards the poles
+const GPS_DECIMALS: Record<GpsPrecision, number> = {
+  city: 1,
+  region: 0,
+};
+
+// The fields each generalisation replaces. The camera make is removed, as
+// the brand next to the category would narrow it down again
+const REPLACED_FIELDS: Record<GeneralisedField, readonly MetadataField[]> = {
+  gps: ["gps"],
+  dateTimeOriginal: ["dateTimeOriginal"],
+  camera: ["make", "model"],
+};
+
+// The fields each generalisation writes into the cleaned file
+const WRITTEN_FIELDS: Record<GeneralisedField, readonly MetadataField[]> = {
+  gps: ["gps"],
+  dateTimeOriginal: ["dateTimeOriginal"],
+  camera: ["model"],
+};
+
+type CameraCategory =
+  | "smartphone"
+  | "tablet"
+  | "drone"
+  | "actionCamera"
+  | "camera";
+
+// Patterns matched against "make model", in order. Anything else is a camera
+const CAMERA_PATTERNS: [RegExp, CameraCategory][] = [
+  [/\bipad\b|\bsm-[tx]\d|\bgalaxy tab\b/i, "tablet"],
+  [/\b(dji|parrot|autel|skydio)\b/i, "drone"],
+  [/\b(gopro|insta360)\b/i, "actionCamera"],
+  [
+    /\b(iphone|pixel|galaxy|sm-[a-z]\d|huawei|xiaomi|redmi|oneplus|oppo|vivo|motorola|nokia|hmd|realme|honor|nothing|fairphone)/i,
+    "smartphone",
+  ],
+];
+
+// Written into the file as the camera model, so they are not translated
+const CAMERA_CATEGORY_NAMES: Record<CameraCategory, string> = {
+  smartphone: "Smartphone",
+  tablet: "Tablet",
+  drone: "Drone",
+  actionCamera: "Action camera",
+  camera: "Digital camera",
+};
+
+export function roundCoordinate(value: number, precision: GpsPrecision) {
+  return Number(value.toFixed(GPS_DECIMALS[precision]));
+}
+
+/**
+ * Keeps the date taken down to the given precision. EXIF has no partial
+ * dates, and exifr misreads blank parts, so the rest is set to the start of
+ * the day, month or year. Returns undefined for dates not in EXIF form.
+ */
+export function trimExifDate(
+  date: Date | string,
+  precision: DatePrecision,
+): string | undefined {
+  const match = /^(\d{4}):(\d{2}):(\d{2})/.exec(formatExifDate(date));
+  if (!match) return undefined;
+  const [, year, month, day] = match;
+  const kept: Record<DatePrecision, string> = {
+    day: `${year}:${month}:${day}`,
+    month: `${year}:${month}:01`,
+    year: `${year}:01:01`,
+  };
+  return `${kept[precision]} 00:00:00`;
+}
+
+export function getCameraCategory(make = "", model = ""): string {
+  const camera = `${make} ${model}`;
+  const match = CAMERA_PATTERNS.find(([pattern]) => pattern.test(camera));
+  return CAMERA_CATEGORY_NAMES[match ? match[1] : "camera"];
+}
+
+// The make and model as one name, without repeating a make the model starts
+// with, e.g. "Canon Canon EOS R5"
+function describeCamera({ make, model }: MetadataInfo): string {
+  if (!make || !model) return make ?? model ?? "";
+  return model.toLowerCase().startsWith(make.toLowerCase())
+    ? model
+    : `${make} ${model}`;
+}
+
+function formatCoordinates(latitude: number, longitude: number, digits = 6) {
+  return `${latitude.toFixed(digits)}, ${longitude.toFixed(digits)}`;
+}
+
+/**
+ * Describes each field the settings generalise that the image actually has,
+ * with its original value and the value written back instead.
+ */
+export function describeGeneralisation(
+  metadata: MetadataInfo,
+  settings: GeneraliseSettings,
+): GeneralisedValue[] {
+  const values: GeneralisedValue[] = [];
+  const { latitude, longitude } = metadata;
+  if (settings.gps && latitude !== undefined && longitude !== undefined) {
+    values.push({
+      field: "gps",
+      original: formatCoordinates(latitude, longitude),
+      generalised: formatCoordinates(
+        roundCoordinate(latitude, settings.gps),
+        roundCoordinate(longitude, settings.gps),
+        GPS_DECIMALS[settings.gps],
+      ),
+    });
+  }
+  const taken = toExifDate(metadata.raw?.DateTimeOriginal);
+  const trimmed =
+    settings.dateTimeOriginal && taken
+      ? trimExifDate(taken, settings.dateTimeOriginal)
+      : undefined;
+  if (taken && trimmed) {
+    values.push({
+      field: "dateTimeOriginal",
+      original: formatExifDate(taken),
+      generalised: trimmed,
+    });
+  }
+  if (settings.camera && (metadata.make || metadata.model)) {
+    values.push({
+      field: "camera",
+      original: describeCamera(metadata),
+      generalised: getCameraCategory(metadata.make, metadata.model),
+    });
+  }
+  return values;
+}
+
+/**
+ * The generalised values as EXIF fields to write back. The camera category
+ * goes into Model and Make is left out.
+ */
+export function getGeneralisedExif(
+  metadata: MetadataInfo,
+  settings: GeneraliseSettings,
+): ExifFields {
+  const exif: ExifFields = {};
+  const { latitude, longitude, make, model } = metadata;
+  if (settings.gps && latitude !== undefined && longitude !== undefined) {
+    exif.latitude = roundCoordinate(latitude, settings.gps);
+    exif.longitude = roundCoordinate(longitude, settings.gps);
+  }
+  const taken = toExifDate(metadata.raw?.DateTimeOriginal);
+  if (settings.dateTimeOriginal && taken) {
+    exif.dateTimeOriginal = trimExifDate(taken, settings.dateTimeOriginal);
+  }
+  if (settings.camera && (make || model)) {
+    exif.model = getCameraCategory(make, model);
+  }
+  return exif;
+}
+
+// Fields whose original values the generalisations replace
+export function getReplacedFields(
+  values: readonly GeneralisedValue[],
+): MetadataField[] {
+  return values.flatMap(({ field }) => REPLACED_FIELDS[field]);
+}
+
+// Fields the generalisations write into the cleaned file
+export function getWrittenFields(
+  values: readonly GeneralisedValue[],
+): MetadataField[] {
+  return values.flatMap(({ field }) => WRITTEN_FIELDS[field]);
+}
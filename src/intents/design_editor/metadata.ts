@@ -0,0 +1,250 @@
+import exifr, { sidecar } from "exifr";
+import type { TrailerKind } from "./cleaners";
+import {
+  findTrailingData,
+  readMetadataInWorker,
+  readWebpMetadata,
+} from "./cleaners";
+
+// Metadata segments the inspector groups tags by. "trailer" holds data
+// appended after the end of the image
+export type TagGroup =
+  | "exif"
+  | "gps"
+  | "iptc"
+  | "xmp"
+  | "makerNote"
+  | "trailer";
+
+export interface MetadataTag {
+  group: TagGroup;
+  // exifr block the tag came from, e.g. "ifd0", "gps" or an XMP namespace
+  block: string;
+  // exifr tag name, e.g. "LensSerialNumber"
+  key: string;
+  value: string;
+}
+
+export interface MetadataInfo {
+  // GPS
+  latitude?: number;
+  longitude?: number;
+  // Date/Time
+  dateTime?: string;
+  dateTimeOriginal?: string;
+  // Camera
+  make?: string;
+  model?: string;
+  software?: string;
+  // Image
+  imageWidth?: number;
+  imageHeight?: number;
+  orientation?: number;
+  // Other
+  artist?: string;
+  copyright?: string;
+  // Raw data for display
+  raw?: Record<string, unknown>;
+  // Every parsed tag, grouped by segment
+  tags?: MetadataTag[];
+}
+
+// exifr output blocks that hold TIFF-structured tags. With mergeOutput off,
+// every other block is an XMP namespace.
+const TAG_BLOCKS: Record<string, TagGroup> = {
+  ifd0: "exif",
+  ifd1: "exif",
+  exif: "exif",
+  interop: "exif",
+  gps: "gps",
+  iptc: "iptc",
+};
+
+function formatValue(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Uint8Array) return `${value.length} bytes`;
+  if (Array.isArray(value)) return value.map(formatValue).join(", ");
+  if (typeof value === "object" && value != null) return JSON.stringify(value);
+  return String(value);
+}
+
+function collectTags(
+  blocks: Record<string, unknown> | null | undefined,
+): MetadataTag[] {
+  const tags: MetadataTag[] = [];
+  for (const [block, entries] of Object.entries(blocks ?? {})) {
+    // Namespace declarations of the XMP packet, not tags
+    if (block === "xmlns") continue;
+    if (typeof entries !== "object" || entries == null) continue;
+    for (const [key, value] of Object.entries(entries)) {
+      const group =
+        key === "MakerNote" ? "makerNote" : (TAG_BLOCKS[block] ?? "xmp");
+      tags.push({ group, block, key, value: formatValue(value) });
+    }
+  }
+  return tags;
+}
+
+/**
+ * Parses every EXIF, GPS, IPTC, XMP and MakerNote tag exifr knows about,
+ * keeping track of the segment each one came from. Files without any give an
+ * empty list.
+ */
+export async function readTags(
+  input: Blob | Uint8Array,
+): Promise<MetadataTag[]> {
+  let blocks: Record<string, unknown> | null;
+  try {
+    blocks = await exifr.parse(input, {
+      tiff: true,
+      ifd1: true,
+      exif: true,
+      gps: true,
+      interop: true,
+      iptc: true,
+      xmp: true,
+      icc: false,
+      jfif: false,
+      ihdr: false,
+      makerNote: true,
+      userComment: true,
+      mergeOutput: false,
+    });
+  } catch {
+    // exifr rejects files without any block it can read
+    return [];
+  }
+  return collectTags(blocks);
+}
+
+/**
+ * Parses a bare XMP packet, such as the XMP chunk of a WebP file, which exifr
+ * cannot find on its own. Packets it cannot parse give an empty list.
+ */
+export async function readXmpTags(packet: Uint8Array): Promise<MetadataTag[]> {
+  try {
+    return collectTags(await sidecar(packet, { mergeOutput: false }, "xmp"));
+  } catch {
+    return [];
+  }
+}
+
+const TRAILER_NAMES: Record<TrailerKind, string> = {
+  image: "JPEG image",
+  video: "MP4 video",
+  zip: "ZIP archive",
+  samsung: "Samsung trailer",
+  unknown: "unknown data",
+};
+
+/**
+ * Reports data appended after the end of the image, which exifr never reads,
+ * as a "TrailingData" tag naming what it holds.
+ */
+export function readTrailerTags(bytes: Uint8Array): MetadataTag[] {
+  const trailer = findTrailingData(bytes);
+  if (!trailer) return [];
+  const kinds = trailer.kinds.map((kind) => TRAILER_NAMES[kind]).join(", ");
+  return [
+    {
+      group: "trailer",
+      block: "trailer",
+      key: "TrailingData",
+      value: `${trailer.size} bytes (${kinds})`,
+    },
+  ];
+}
+
+/**
+ * Turns an exifr tag name into words, e.g. "GPSLatitudeRef" into
+ * "GPS Latitude Ref". Tags exifr has no name for are keyed by number.
+ */
+export function formatTagName(key: string): string {
+  if (/^\d+$/.test(key)) {
+    return `Tag 0x${Number(key).toString(16).padStart(4, "0")}`;
+  }
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Reads the metadata shown to the user, in the image worker where possible.
+ * Files without any, or that exifr cannot parse, give an empty object, or
+ * only their trailing data tag.
+ */
+export async function readMetadata(file: File): Promise<MetadataInfo> {
+  return (await readMetadataInWorker(file)) ?? readMetadataLocally(file);
+}
+
+/**
+ * Runs readMetadata on the current thread. The image worker calls this
+ * directly.
+ */
+export async function readMetadataLocally(file: File): Promise<MetadataInfo> {
+  return readMetadataBytes(new Uint8Array(await file.arrayBuffer()));
+}
+
+/**
+ * Reads the metadata shown to the user from a file's bytes. See readMetadata.
+ */
+export async function readMetadataBytes(
+  bytes: Uint8Array,
+): Promise<MetadataInfo> {
+  const trailerTags = readTrailerTags(bytes);
+  const trailerOnly = trailerTags.length > 0 ? { tags: trailerTags } : {};
+  // exifr has no WebP parser, so its EXIF chunk is parsed as a TIFF file and
+  // its XMP chunk as a bare packet. A WebP with only XMP has no EXIF to parse
+  const webp = readWebpMetadata(bytes);
+  const exifInput = webp.exif ?? (webp.xmp ? null : bytes);
+  try {
+    const xmpTags = webp.xmp ? await readXmpTags(webp.xmp) : [];
+    // Read metadata using exifr
+    const exifData = {
+      ...(exifInput &&
+        (await exifr.parse(exifInput, {
+          gps: true,
+          exif: true,
+          iptc: true,
+          xmp: true,
+          icc: false,
+          tiff: true,
+        }))),
+    };
+    if (Object.keys(exifData).length === 0 && xmpTags.length === 0) {
+      return trailerOnly;
+    }
+    const tags = [
+      ...(exifInput ? await readTags(exifInput) : []),
+      ...xmpTags,
+      ...trailerTags,
+    ];
+
+    return {
+      // GPS
+      latitude: exifData.latitude,
+      longitude: exifData.longitude,
+      // Date/Time
+      dateTime: exifData.ModifyDate?.toString(),
+      dateTimeOriginal: exifData.DateTimeOriginal?.toString(),
+      // Camera
+      make: exifData.Make,
+      model: exifData.Model,
+      software: exifData.Software,
+      // Image
+      imageWidth: exifData.ImageWidth || exifData.ExifImageWidth,
+      imageHeight: exifData.ImageHeight || exifData.ExifImageHeight,
+      // exifr translates Orientation to text, so read the raw value
+      orientation: exifInput ? await exifr.orientation(exifInput) : undefined,
+      // Other
+      artist: exifData.Artist,
+      copyright: exifData.Copyright,
+      // Raw
+      raw: exifData,
+      tags,
+    };
+  } catch {
+    return trailerOnly;
+  }
+}
@@ -0,0 +1,113 @@
+import type { PreviewSource } from "./cleaners";
+import {
+  extractEmbeddedPreviews,
+  isValidOrientation,
+  orientImage,
+  sampleLuminance,
+} from "./cleaners";
+
+export type { PreviewSource };
+
+// How an embedded preview differs from the main image
+export type PreviewMismatch = "aspectRatio" | "content";
+
+export interface PreviewCheck {
+  source: PreviewSource;
+  // Object URL of the preview, turned upright like the main image
+  url: string;
+  // Size of the picture, without any letterboxing
+  width: number;
+  height: number;
+  // Null when the preview matches, or the main image could not be decoded
+  mismatch: PreviewMismatch | null;
+}
+
+interface LuminanceSample {
+  width: number;
+  height: number;
+  cells: Uint8Array;
+}
+
+// Both images are compared as a grid of this many cells per side
+const GRID_SIZE = 32;
+// Relative difference in aspect ratio allowed for rounding in small previews
+const ASPECT_TOLERANCE = 0.05;
+// Luminance difference (0-255) above which a cell counts as changed, which
+// leaves room for the previews' own compression and tone curve
+const CELL_TOLERANCE = 40;
+// Share of changed cells above which the content counts as different. A
+// redacted face or a painted-out sign changes a few percent of the image
+const CHANGED_SHARE = 0.015;
+
+export function aspectRatiosDiffer(
+  a: { width: number; height: number },
+  b: { width: number; height: number },
+): boolean {
+  const ratio = (a.width / a.height) * (b.height / b.width);
+  return Math.abs(ratio - 1) > ASPECT_TOLERANCE;
+}
+
+export function contentDiffers(a: Uint8Array, b: Uint8Array): boolean {
+  let changed = 0;
+  a.forEach((value, i) => {
+    if (Math.abs(value - (b[i] ?? 0)) > CELL_TOLERANCE) changed++;
+  });
+  return changed / a.length > CHANGED_SHARE;
+}
+
+/**
+ * Compares a preview with the main image, first by shape and then by
+ * content. A different shape almost always means the image was cropped.
+ */
+export function findMismatch(
+  main: LuminanceSample,
+  preview: LuminanceSample,
+): PreviewMismatch | null {
+  if (aspectRatiosDiffer(main, preview)) return "aspectRatio";
+  return contentDiffers(main.cells, preview.cells) ? "content" : null;
+}
+
+/**
+ * Extracts the previews embedded in a JPEG, PNG or WebP file and compares
+ * each with the main image. Browsers apply the EXIF orientation to the main
+ * image but the previews are stored unrotated, so they are turned upright
+ * with `orientation` first. Previews the browser cannot decode are left out.
+ */
+export async function checkEmbeddedPreviews(
+  file: Blob,
+  orientation?: number,
+): Promise<PreviewCheck[]> {
+  const previews = await extractEmbeddedPreviews(
+    new Uint8Array(await file.arrayBuffer()),
+  );
+  if (previews.length === 0) return [];
+
+  let main: LuminanceSample | null;
+  try {
+    main = await sampleLuminance(file, GRID_SIZE);
+  } catch {
+    main = null;
+  }
+
+  const checks: PreviewCheck[] = [];
+  for (const { source, data } of previews) {
+    try {
+      let blob = new Blob([data.slice()], { type: "image/jpeg" });
+      if (isValidOrientation(orientation) && orientation !== 1) {
+        blob = (await orientImage(blob, orientation as number, "image/png"))
+          .blob;
+      }
+      const sample = await sampleLuminance(blob, GRID_SIZE, true);
+      checks.push({
+        source,
+        url: URL.createObjectURL(blob),
+        width: sample.width,
+        height: sample.height,
+        mismatch: main && findMismatch(main, sample),
+      });
+    } catch {
+      // A preview the browser cannot decode cannot be shown either
+    }
+  }
+  return checks;
+}
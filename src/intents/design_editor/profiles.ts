@@ -0,0 +1,116 @@
+import type { ExifFields } from "./cleaners";
+import type { MetadataInfo, MetadataTag } from "./metadata";
+
+// Fields of MetadataInfo that can be kept or removed individually
+export type MetadataField =
+  | "gps"
+  | "dateTimeOriginal"
+  | "dateTime"
+  | "make"
+  | "model"
+  | "software"
+  | "artist"
+  | "copyright";
+
+export const METADATA_FIELDS: readonly MetadataField[] = [
+  "gps",
+  "dateTimeOriginal",
+  "dateTime",
+  "make",
+  "model",
+  "software",
+  "artist",
+  "copyright",
+];
+
+export type RemovalProfile = "stripAll" | "privacy" | "keepRights" | "custom";
+
+// Fields each preset keeps. Everything not listed is removed.
+export const PROFILE_KEPT_FIELDS: Record<
+  Exclude<RemovalProfile, "custom">,
+  readonly MetadataField[]
+> = {
+  stripAll: [],
+  privacy: ["software", "copyright"],
+  keepRights: ["artist", "copyright"],
+};
+
+// exifr names of the EXIF and GPS tags that hold each field
+export const FIELD_TAGS: Record<MetadataField, readonly string[]> = {
+  gps: [
+    "GPSVersionID",
+    "GPSLatitudeRef",
+    "GPSLatitude",
+    "GPSLongitudeRef",
+    "GPSLongitude",
+    "latitude",
+    "longitude",
+  ],
+  dateTimeOriginal: ["DateTimeOriginal"],
+  dateTime: ["ModifyDate"],
+  make: ["Make"],
+  model: ["Model"],
+  software: ["Software"],
+  artist: ["Artist"],
+  copyright: ["Copyright"],
+};
+
+/**
+ * Tells whether cleaning with these kept fields leaves the tag in the file.
+ * Kept fields are written back as EXIF only, so XMP and IPTC copies of them
+ * are always removed.
+ */
+export function isTagKept(
+  { group, key }: Pick<MetadataTag, "group" | "key">,
+  keptFields: readonly MetadataField[],
+): boolean {
+  if (group !== "exif" && group !== "gps") return false;
+  return keptFields.some((field) => FIELD_TAGS[field].includes(key));
+}
+
+export function hasField(metadata: MetadataInfo, field: MetadataField) {
+  switch (field) {
+    case "gps":
+      return (
+        metadata.latitude !== undefined && metadata.longitude !== undefined
+      );
+    default:
+      return metadata[field] !== undefined;
+  }
+}
+
+export function getPresentFields(metadata: MetadataInfo): MetadataField[] {
+  return METADATA_FIELDS.filter((field) => hasField(metadata, field));
+}
+
+export function toExifDate(value: unknown): Date | string | undefined {
+  return value instanceof Date || typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Collects the values of the kept fields so they can be written back as
+ * EXIF. Dates come from the raw parse so they keep their original precision.
+ */
+export function getKeptExif(
+  metadata: MetadataInfo,
+  keptFields: readonly MetadataField[],
+): ExifFields {
+  const kept = new Set(keptFields);
+  const exif: ExifFields = {};
+  if (kept.has("gps")) {
+    exif.latitude = metadata.latitude;
+    exif.longitude = metadata.longitude;
+  }
+  if (kept.has("dateTimeOriginal")) {
+    exif.dateTimeOriginal = toExifDate(metadata.raw?.DateTimeOriginal);
+  }
+  if (kept.has("dateTime")) {
+    exif.dateTime = toExifDate(metadata.raw?.ModifyDate);
+  }
+  if (kept.has("make")) exif.make = metadata.make;
+  if (kept.has("model")) exif.model = metadata.model;
+  if (kept.has("software")) exif.software = metadata.software;
+  if (kept.has("artist")) exif.artist = metadata.artist;
+  if (kept.has("copyright")) exif.copyright = metadata.copyright;
+  return exif;
+}
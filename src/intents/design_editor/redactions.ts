@@ -0,0 +1,116 @@
+import type { Redaction, RedactionPoint, RedactionShape } from "./cleaners";
+
+// The redactions drawn so far, with the states undo and redo step through
+export interface RedactionHistory {
+  past: Redaction[][];
+  present: Redaction[];
+  future: Redaction[][];
+}
+
+export const EMPTY_REDACTION_HISTORY: RedactionHistory = {
+  past: [],
+  present: [],
+  future: [],
+};
+
+// Shapes smaller than this fraction of the image on either side are taken to
+// be stray clicks
+const MIN_SHAPE_SIZE = 0.005;
+
+// A freehand outline only gets a new point once the pointer has moved this
+// fraction of the image, which keeps outlines short
+const MIN_POINT_DISTANCE = 0.002;
+
+function commit(
+  { past, present }: RedactionHistory,
+  next: Redaction[],
+): RedactionHistory {
+  return { past: [...past, present], present: next, future: [] };
+}
+
+export function addRedaction(
+  history: RedactionHistory,
+  redaction: Redaction,
+): RedactionHistory {
+  return commit(history, [...history.present, redaction]);
+}
+
+export function clearRedactions(history: RedactionHistory): RedactionHistory {
+  return history.present.length > 0 ? commit(history, []) : history;
+}
+
+export function undoRedaction(history: RedactionHistory): RedactionHistory {
+  const previous = history.past[history.past.length - 1];
+  if (!previous) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: previous,
+    future: [history.present, ...history.future],
+  };
+}
+
+export function redoRedaction(history: RedactionHistory): RedactionHistory {
+  const [next, ...future] = history.future;
+  if (!next) return history;
+  return { past: [...history.past, history.present], present: next, future };
+}
+
+function clampPoint({ x, y }: RedactionPoint): RedactionPoint {
+  return {
+    x: Math.min(1, Math.max(0, x)),
+    y: Math.min(1, Math.max(0, y)),
+  };
+}
+
+/**
+ * The rectangle dragged out between two points, in either direction.
+ */
+export function getDraggedRect(
+  start: RedactionPoint,
+  end: RedactionPoint,
+): RedactionShape {
+  const a = clampPoint(start);
+  const b = clampPoint(end);
+  return {
+    type: "rect",
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  };
+}
+
+/**
+ * Adds a pointer position to a freehand outline, skipping positions too
+ * close to the last point.
+ */
+export function extendOutline(
+  points: readonly RedactionPoint[],
+  point: RedactionPoint,
+): RedactionPoint[] {
+  const next = clampPoint(point);
+  const last = points[points.length - 1];
+  if (
+    last &&
+    Math.hypot(next.x - last.x, next.y - last.y) < MIN_POINT_DISTANCE
+  ) {
+    return [...points];
+  }
+  return [...points, next];
+}
+
+/**
+ * False for shapes too small to cover anything, e.g. a click without a drag.
+ */
+export function isUsableShape(shape: RedactionShape): boolean {
+  if (shape.type === "rect") {
+    return shape.width >= MIN_SHAPE_SIZE && shape.height >= MIN_SHAPE_SIZE;
+  }
+  if (shape.points.length < 3) return false;
+  const xs = shape.points.map(({ x }) => x);
+  const ys = shape.points.map(({ y }) => y);
+  return (
+    Math.max(...xs) - Math.min(...xs) >= MIN_SHAPE_SIZE &&
+    Math.max(...ys) - Math.min(...ys) >= MIN_SHAPE_SIZE
+  );
+}
@@ -0,0 +1,196 @@
+import type { CleanedFile } from "./cleaning";
+import type { MetadataInfo, TagGroup } from "./metadata";
+import { formatTagName } from "./metadata";
+import type { MetadataField } from "./profiles";
+import { isTagKept } from "./profiles";
+import type { RightsInfo } from "./rights";
+import { RIGHTS_FIELDS } from "./rights";
+import { findRisks } from "./risks";
+
+export type ReportFormat = "json" | "csv" | "text";
+
+export interface ReportTag {
+  group: TagGroup;
+  // exifr tag name
+  tag: string;
+  value: string;
+  // True when a privacy rule flags the tag
+  sensitive: boolean;
+  removed: boolean;
+}
+
+// Audit evidence of one clean. Reports are attached to tickets, so they are
+// not translated
+export interface CleanReport {
+  fileName: string;
+  // In bytes
+  originalSize: number;
+  cleanedSize: number;
+  // Hex SHA-256 digests
+  originalSha256: string;
+  cleanedSha256: string;
+  // ISO 8601
+  cleanedAt: string;
+  tags: ReportTag[];
+  removedFields: MetadataField[];
+  keptFields: MetadataField[];
+  // Attribution written into the cleaned file
+  addedRights: RightsInfo | null;
+  verificationPassed: boolean;
+}
+
+const MASK = "[masked]";
+
+const RIGHTS_NAMES: Record<keyof RightsInfo, string> = {
+  creator: "Creator",
+  copyright: "Copyright notice",
+  credit: "Credit line",
+  licenseUrl: "Licence URL",
+};
+
+async function sha256(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await blob.arrayBuffer(),
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Collects what was found in `file` and what cleaning it removed, hashing the
+ * original and the cleaned file so the evidence can be matched to them later.
+ */
+export async function createCleanReport(
+  file: File,
+  metadata: MetadataInfo,
+  cleaned: CleanedFile,
+  cleanedAt: Date = new Date(),
+): Promise<CleanReport> {
+  const tags = metadata.tags ?? [];
+  const sensitive = new Set(findRisks(tags).map(({ tag }) => tag));
+  return {
+    fileName: file.name,
+    originalSize: file.size,
+    cleanedSize: cleaned.blob.size,
+    originalSha256: await sha256(file),
+    cleanedSha256: await sha256(cleaned.blob),
+    cleanedAt: cleanedAt.toISOString(),
+    tags: tags.map((tag) => ({
+      group: tag.group,
+      tag: tag.key,
+      value: tag.value,
+      sensitive: sensitive.has(tag),
+      removed: !isTagKept(tag, cleaned.kept),
+    })),
+    removedFields: cleaned.removed,
+    keptFields: cleaned.kept,
+    addedRights: cleaned.rights,
+    verificationPassed: cleaned.verification.passed,
+  };
+}
+
+/**
+ * Replaces the values of sensitive tags, so the report can be shared without
+ * repeating the data that was removed.
+ */
+export function maskReport(report: CleanReport): CleanReport {
+  return {
+    ...report,
+    tags: report.tags.map((tag) =>
+      tag.sensitive ? { ...tag, value: MASK } : tag,
+    ),
+  };
+}
+
+const CSV_COLUMNS = [
+  "file_name",
+  "original_sha256",
+  "cleaned_sha256",
+  "cleaned_at",
+  "group",
+  "tag",
+  "value",
+  "sensitive",
+  "status",
+];
+
+/**
+ * Quotes a CSV cell when needed. Cells that spreadsheets would run as a
+ * formula are prefixed with an apostrophe, leaving negative numbers alone.
+ */
+function csvCell(value: string): string {
+  const formula = /^[=+@\t\r]/.test(value) || /^-(?![\d.])/.test(value);
+  const safe = formula ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// One row per tag, each repeating the file it came from
+function formatCsv(report: CleanReport): string {
+  const file = [
+    report.fileName,
+    report.originalSha256,
+    report.cleanedSha256,
+    report.cleanedAt,
+  ];
+  const rows = report.tags.map(({ group, tag, value, sensitive, removed }) => [
+    ...file,
+    group,
+    tag,
+    value,
+    String(sensitive),
+    removed ? "removed" : "kept",
+  ]);
+  return [CSV_COLUMNS, ...rows]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\r\n");
+}
+
+function formatText(report: CleanReport): string {
+  const removed = report.tags.filter((tag) => tag.removed);
+  const kept = report.tags.filter((tag) => !tag.removed);
+  const formatTags = (tags: ReportTag[]) =>
+    tags.map(
+      ({ group, tag, value }) => `  [${group}] ${formatTagName(tag)}: ${value}`,
+    );
+
+  const lines = [
+    "Metadata cleaning report",
+    `File: ${report.fileName}`,
+    `Cleaned: ${report.cleanedAt}`,
+    `Original: ${report.originalSize} bytes, SHA-256 ${report.originalSha256}`,
+    `Cleaned file: ${report.cleanedSize} bytes, SHA-256 ${report.cleanedSha256}`,
+    `Verification: ${report.verificationPassed ? "passed" : "failed"}`,
+    "",
+    `Removed tags (${removed.length}):`,
+    ...formatTags(removed),
+  ];
+  if (kept.length > 0) {
+    lines.push("", `Kept tags (${kept.length}):`, ...formatTags(kept));
+  }
+  const { addedRights } = report;
+  if (addedRights) {
+    lines.push(
+      "",
+      "Added rights:",
+      ...RIGHTS_FIELDS.filter((field) => addedRights[field]).map(
+        (field) => `  ${RIGHTS_NAMES[field]}: ${addedRights[field]}`,
+      ),
+    );
+  }
+  return lines.join("\n");
+}
+
+const FORMATTERS: Record<ReportFormat, (report: CleanReport) => string> = {
+  json: (report) => JSON.stringify(report, null, 2),
+  csv: formatCsv,
+  text: formatText,
+};
+
+export function formatReport(
+  report: CleanReport,
+  format: ReportFormat,
+): string {
+  return FORMATTERS[format](report);
+}
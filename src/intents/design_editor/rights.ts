@@ -0,0 +1,113 @@
+import type { ExifFields } from "./cleaners";
+import type { MetadataTag } from "./metadata";
+
+// Attribution written into the cleaned file. Empty strings are left out
+export interface RightsInfo {
+  creator: string;
+  copyright: string;
+  credit: string;
+  licenseUrl: string;
+}
+
+export const RIGHTS_FIELDS: readonly (keyof RightsInfo)[] = [
+  "creator",
+  "copyright",
+  "credit",
+  "licenseUrl",
+];
+
+export const EMPTY_RIGHTS: RightsInfo = {
+  creator: "",
+  copyright: "",
+  credit: "",
+  licenseUrl: "",
+};
+
+// exifr names of the tags a re-stamp writes: EXIF Artist and Copyright, and
+// the XMP dc:creator, dc:rights, photoshop:Credit and xmpRights:WebStatement
+// properties that IPTC Core maps its creator, copyright notice, credit line
+// and web statement of rights to
+const RIGHTS_TAGS: readonly string[] = [
+  "Artist",
+  "Copyright",
+  "creator",
+  "rights",
+  "Credit",
+  "WebStatement",
+];
+
+export function trimRights(rights: RightsInfo): RightsInfo {
+  return {
+    creator: rights.creator.trim(),
+    copyright: rights.copyright.trim(),
+    credit: rights.credit.trim(),
+    licenseUrl: rights.licenseUrl.trim(),
+  };
+}
+
+export function hasRights(rights: RightsInfo): boolean {
+  return Object.values(trimRights(rights)).some((value) => value !== "");
+}
+
+/**
+ * The EXIF fields a re-stamp writes. EXIF has no tags for the credit line or
+ * licence, so those go into XMP only.
+ */
+export function getRightsExif(rights: RightsInfo): ExifFields {
+  const { creator, copyright } = trimRights(rights);
+  const exif: ExifFields = {};
+  if (creator) exif.artist = creator;
+  if (copyright) exif.copyright = copyright;
+  return exif;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Builds an XMP packet holding only the given rights, or returns null when
+ * every field is empty.
+ */
+export function buildRightsXmp(rights: RightsInfo): string | null {
+  const { creator, copyright, credit, licenseUrl } = trimRights(rights);
+  const properties = [
+    creator &&
+      `<dc:creator><rdf:Seq><rdf:li>${escapeXml(creator)}</rdf:li></rdf:Seq></dc:creator>`,
+    copyright &&
+      `<dc:rights><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(copyright)}</rdf:li></rdf:Alt></dc:rights>`,
+    credit && `<photoshop:Credit>${escapeXml(credit)}</photoshop:Credit>`,
+    licenseUrl &&
+      `<xmpRights:WebStatement>${escapeXml(licenseUrl)}</xmpRights:WebStatement>`,
+  ].filter(Boolean);
+  if (properties.length === 0) return null;
+
+  return [
+    '<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about=""' +
+      ' xmlns:dc="http://purl.org/dc/elements/1.1/"' +
+      ' xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/"' +
+      ' xmlns:xmpRights="http://ns.adobe.com/xap/1.0/rights/">',
+    ...properties,
+    "</rdf:Description>",
+    "</rdf:RDF>",
+    "</x:xmpmeta>",
+    '<?xpacket end="w"?>',
+  ].join("\n");
+}
+
+/**
+ * Tells whether a tag found in the cleaned file is one a re-stamp writes.
+ */
+export function isRightsTag({
+  group,
+  key,
+}: Pick<MetadataTag, "group" | "key">): boolean {
+  return (group === "exif" || group === "xmp") && RIGHTS_TAGS.includes(key);
+}
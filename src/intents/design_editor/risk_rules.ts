@@ -0,0 +1,185 @@
+import type { TagGroup } from "./metadata";
+
+export type RiskCategory =
+  | "location"
+  | "identity"
+  | "device"
+  | "time"
+  | "lineage"
+  | "hiddenData";
+
+export type RiskSeverity = "high" | "medium" | "low";
+
+/**
+ * A privacy rule. A tag matches when its exifr name is listed in `tags` (or
+ * `tags` is omitted), it comes from one of `groups` (if given) and its value
+ * matches `valuePattern` (if given).
+ */
+export interface RiskRule {
+  id: string;
+  category: RiskCategory;
+  severity: RiskSeverity;
+  tags?: readonly string[];
+  groups?: readonly TagGroup[];
+  valuePattern?: RegExp;
+}
+
+// Rules are checked in order, and each tag is reported under the first rule
+// it matches. Add new rules here.
+export const RISK_RULES: readonly RiskRule[] = [
+  // Location
+  {
+    id: "gpsPosition",
+    category: "location",
+    severity: "high",
+    tags: [
+      "GPSLatitude",
+      "GPSLongitude",
+      "latitude",
+      "longitude",
+      "GPSDestLatitude",
+      "GPSDestLongitude",
+    ],
+  },
+  {
+    id: "gpsDetails",
+    category: "location",
+    severity: "medium",
+    tags: [
+      "GPSAltitude",
+      "GPSImgDirection",
+      "GPSDestBearing",
+      "GPSAreaInformation",
+      "GPSProcessingMethod",
+    ],
+  },
+  {
+    id: "placeNames",
+    category: "location",
+    severity: "medium",
+    tags: [
+      "City",
+      "Sublocation",
+      "State",
+      "Country",
+      "CountryCode",
+      "ContentLocationName",
+      "Location",
+    ],
+    groups: ["iptc", "xmp"],
+  },
+  // Identity
+  {
+    id: "email",
+    category: "identity",
+    severity: "high",
+    valuePattern: /[\w.+-]+@[\w-]+\.[\w.-]+/,
+  },
+  {
+    id: "personName",
+    category: "identity",
+    severity: "high",
+    tags: ["Artist", "OwnerName", "XPAuthor", "Byline", "creator", "Writer"],
+  },
+  {
+    id: "contactDetails",
+    category: "identity",
+    severity: "high",
+    tags: [
+      "CreatorContactInfo",
+      "Contact",
+      "CiEmailWork",
+      "CiTelWork",
+      "CiAdrExtadr",
+    ],
+  },
+  {
+    id: "rights",
+    category: "identity",
+    severity: "low",
+    tags: ["Copyright", "rights", "Credit", "CopyrightNotice"],
+  },
+  // Device fingerprint
+  {
+    id: "serialNumbers",
+    category: "device",
+    severity: "high",
+    tags: [
+      "SerialNumber",
+      "BodySerialNumber",
+      "LensSerialNumber",
+      "InternalSerialNumber",
+      "CameraSerialNumber",
+    ],
+  },
+  {
+    id: "makerNote",
+    category: "device",
+    severity: "medium",
+    groups: ["makerNote"],
+  },
+  {
+    id: "cameraModel",
+    category: "device",
+    severity: "medium",
+    tags: ["Make", "Model", "LensMake", "LensModel"],
+  },
+  // Time
+  {
+    id: "captureTime",
+    category: "time",
+    severity: "medium",
+    tags: [
+      "DateTimeOriginal",
+      "CreateDate",
+      "DateTimeDigitized",
+      "DateCreated",
+      "GPSDateStamp",
+      "GPSTimeStamp",
+    ],
+  },
+  {
+    id: "timeZone",
+    category: "time",
+    severity: "low",
+    tags: ["OffsetTime", "OffsetTimeOriginal", "OffsetTimeDigitized"],
+  },
+  {
+    id: "editTime",
+    category: "time",
+    severity: "low",
+    tags: ["ModifyDate", "MetadataDate"],
+  },
+  // Document lineage
+  {
+    id: "originalFile",
+    category: "lineage",
+    severity: "high",
+    tags: ["PreservedFileName", "OriginalDocumentID", "DerivedFrom"],
+  },
+  {
+    id: "documentIds",
+    category: "lineage",
+    severity: "medium",
+    tags: ["DocumentID", "InstanceID", "ImageUniqueID", "History"],
+  },
+  {
+    id: "hostComputer",
+    category: "lineage",
+    severity: "medium",
+    tags: ["HostComputer"],
+  },
+  {
+    id: "editingSoftware",
+    category: "lineage",
+    severity: "low",
+    tags: ["Software", "CreatorTool"],
+  },
+  // Hidden data
+  {
+    id: "trailingData",
+    category: "hiddenData",
+    severity: "high",
+    groups: ["trailer"],
+  },
+];
@@ -0,0 +1,111 @@
+import type { MetadataInfo, MetadataTag } from "./metadata";
+import type { MetadataField } from "./profiles";
+import { FIELD_TAGS } from "./profiles";
+import type { RiskCategory, RiskRule, RiskSeverity } from "./risk_rules";
+import { RISK_RULES } from "./risk_rules";
+
+export type { RiskCategory, RiskRule, RiskSeverity };
+
+export interface RiskFinding {
+  rule: RiskRule;
+  tag: MetadataTag;
+}
+
+export interface RiskSummary {
+  category: RiskCategory;
+  // The most severe finding in the category
+  severity: RiskSeverity;
+  findings: RiskFinding[];
+}
+
+export const RISK_CATEGORIES: readonly RiskCategory[] = [
+  "location",
+  "identity",
+  "device",
+  "time",
+  "lineage",
+  "hiddenData",
+];
+
+const SEVERITY_RANK: Record<RiskSeverity, number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+function matchesRule(
+  { tags, groups, valuePattern }: RiskRule,
+  tag: MetadataTag,
+): boolean {
+  return (
+    (!tags || tags.includes(tag.key)) &&
+    (!groups || groups.includes(tag.group)) &&
+    (!valuePattern || valuePattern.test(tag.value))
+  );
+}
+
+/**
+ * Checks each tag against the rules and reports it under the first rule it
+ * matches. Tags no rule matches are not a risk.
+ */
+export function findRisks(
+  tags: readonly MetadataTag[],
+  rules: readonly RiskRule[] = RISK_RULES,
+): RiskFinding[] {
+  return tags.flatMap((tag) => {
+    const rule = rules.find((candidate) => matchesRule(candidate, tag));
+    return rule ? [{ rule, tag }] : [];
+  });
+}
+
+export function getMetadataRisks(metadata: MetadataInfo): RiskFinding[] {
+  return findRisks(metadata.tags ?? []);
+}
+
+/**
+ * Groups findings by category, in the order of RISK_CATEGORIES, with the
+ * most severe findings first.
+ */
+export function summarizeRisks(
+  findings: readonly RiskFinding[],
+): RiskSummary[] {
+  return RISK_CATEGORIES.flatMap((category) => {
+    const inCategory = findings
+      .filter(({ rule }) => rule.category === category)
+      .sort(
+        (a, b) =>
+          SEVERITY_RANK[b.rule.severity] - SEVERITY_RANK[a.rule.severity],
+      );
+    const [first] = inCategory;
+    return first
+      ? [{ category, severity: first.rule.severity, findings: inCategory }]
+      : [];
+  });
+}
+
+export function getHighestSeverity(
+  findings: readonly RiskFinding[],
+): RiskSeverity | null {
+  let highest: RiskSeverity | null = null;
+  for (const { rule } of findings) {
+    if (!highest || SEVERITY_RANK[rule.severity] > SEVERITY_RANK[highest]) {
+      highest = rule.severity;
+    }
+  }
+  return highest;
+}
+
+/**
+ * Tells whether any tag behind a summary field was flagged with medium or
+ * high severity, so the field is highlighted as a risk.
+ */
+export function isFieldAtRisk(
+  field: MetadataField,
+  findings: readonly RiskFinding[],
+): boolean {
+  return findings.some(
+    ({ rule, tag }) =>
+      FIELD_TAGS[field].includes(tag.key) &&
+      SEVERITY_RANK[rule.severity] >= SEVERITY_RANK.medium,
+  );
+}
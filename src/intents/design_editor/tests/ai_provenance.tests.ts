@@ -0,0 +1,156 @@
+import { detectAiSignals, getAiDisclosure } from "../ai_provenance";
+import { encodeUtf8 } from "../cleaners/bytes";
+import { insertWebpXmp, writeWebp } from "../cleaners/webp";
+import type { MetadataTag } from "../metadata";
+import { readMetadataBytes } from "../metadata";
+
+function tag(
+  key: string,
+  value: string,
+  group: MetadataTag["group"] = "exif",
+): MetadataTag {
+  return { group, block: group === "xmp" ? "xmp" : "ifd0", key, value };
+}
+
+const SD_PARAMETERS = [
+  "a portrait of Jane Doe outside 12 Oak Street",
+  "Negative prompt: blurry",
+  "Steps: 20, Sampler: Euler a, CFG scale: 7, Seed: 42",
+].join("\n");
+
+describe("detectAiSignals", () => {
+  it("reads the prompt from Stable Diffusion parameters", () => {
+    expect(
+      detectAiSignals({
+        metadata: {},
+        embeddedText: [{ keyword: "parameters", text: SD_PARAMETERS }],
+      }),
+    ).toEqual([
+      {
+        source: "parameters",
+        detail: "Stable Diffusion web UI",
+        prompt: "a portrait of Jane Doe outside 12 Oak Street",
+      },
+    ]);
+  });
+
+  it("finds the same parameters in the EXIF user comment of a JPEG", () => {
+    const [signal] = detectAiSignals({
+      metadata: { tags: [tag("UserComment", SD_PARAMETERS)] },
+      embeddedText: [],
+    });
+    expect(signal?.prompt).toBe("a portrait of Jane Doe outside 12 Oak Street");
+  });
+
+  it("lists ComfyUI once, with the prompt of its first text encoder", () => {
+    const graph = {
+      3: { class_type: "KSampler", inputs: { seed: 1 } },
+      6: { class_type: "CLIPTextEncode", inputs: { text: "a red fox" } },
+    };
+    expect(
+      detectAiSignals({
+        metadata: {},
+        embeddedText: [
+          { keyword: "workflow", text: "{}" },
+          { keyword: "prompt", text: JSON.stringify(graph) },
+        ],
+      }),
+    ).toEqual([
+      { source: "parameters", detail: "ComfyUI", prompt: "a red fox" },
+    ]);
+  });
+
+  it("reads the Midjourney prompt before the job ID", () => {
+    const [signal] = detectAiSignals({
+      metadata: {},
+      embeddedText: [
+        {
+          keyword: "Description",
+          text: "a lighthouse at dusk --ar 16:9 Job ID: 0f3b6c2e-8d1a-4c5b-9e7f-1a2b3c4d5e6f",
+        },
+      ],
+    });
+    expect(signal).toEqual({
+      source: "parameters",
+      detail: "Midjourney",
+      prompt: "a lighthouse at dusk --ar 16:9",
+    });
+  });
+
+  it("finds the IPTC source type, AI software and Content Credentials", () => {
+    const signals = detectAiSignals({
+      metadata: {
+        tags: [
+          tag(
+            "DigitalSourceType",
+            "http://cv.iptc.org/newscodes/digitalsourcetype/compositeWithTrainedAlgorithmicMedia",
+            "xmp",
+          ),
+          tag("CreatorTool", "Adobe Firefly", "xmp"),
+          tag("Software", "Adobe Photoshop 25.0"),
+        ],
+      },
+      embeddedText: [],
+      contentCredentials: {
+        claimGenerator: "ChatGPT",
+        actions: ["c2pa.created"],
+        signer: "OpenAI",
+        aiGenerated: true,
+        manifestCount: 1,
+      },
+    });
+    expect(signals.map(({ source, detail }) => [source, detail])).toEqual([
+      ["digitalSourceType", "compositeWithTrainedAlgorithmicMedia"],
+      ["software", "Adobe Firefly"],
+      ["contentCredentials", "ChatGPT"],
+    ]);
+  });
+
+  it("finds the IPTC source type in the XMP chunk of a WebP file", async () => {
+    const webp = insertWebpXmp(
+      writeWebp([{ type: "VP8L", data: new Uint8Array([0x2f, 0, 0, 0, 0]) }]),
+      encodeUtf8(
+        '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"><rdf:Description xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/" Iptc4xmpExt:DigitalSourceType="http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia"/></rdf:RDF></x:xmpmeta>',
+      ),
+    );
+    const signals = detectAiSignals({
+      metadata: await readMetadataBytes(webp),
+      embeddedText: [],
+    });
+    expect(signals).toEqual([
+      {
+        source: "digitalSourceType",
+        detail: "trainedAlgorithmicMedia",
+        prompt: null,
+      },
+    ]);
+  });
+
+  it("ignores ordinary photos", () => {
+    const signals = detectAiSignals({
+      metadata: {
+        tags: [
+          tag("Software", "Adobe Lightroom"),
+          tag(
+            "DigitalSourceType",
+            "http://cv.iptc.org/newscodes/digitalsourcetype/digitalCapture",
+            "xmp",
+          ),
+        ],
+      },
+      embeddedText: [{ keyword: "Comment", text: "Holiday" }],
+    });
+    expect(signals).toEqual([]);
+  });
+});
+
+describe("getAiDisclosure", () => {
+  it("discloses images with any signal as AI-generated", () => {
+    expect(getAiDisclosure([])).toBe("none");
+    expect(
+      getAiDisclosure([
+        { source: "software", detail: "Adobe Firefly", prompt: null },
+      ]),
+    ).toBe("app_generated");
+  });
+});
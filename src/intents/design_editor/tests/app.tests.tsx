@@ -14,9 +14,9 @@ function renderInTestProvider(node: ReactNode): RenderResult {
 }
 
 describe("Image Meta Cleaner Tests", () => {
-  it("should render the app title", () => {
+  it("should render the file picker", () => {
     const result = renderInTestProvider(<App />);
-    expect(result.getByText("Image Meta Cleaner")).toBeTruthy();
+    expect(result.getByText("Choose files")).toBeTruthy();
   });
 
   it("should render the description text", () => {
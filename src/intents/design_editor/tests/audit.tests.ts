@@ -0,0 +1,135 @@
+import { auditImage, formatAuditReport, unreadableImage } from "../audit";
+import { buildExif } from "../cleaners/exif";
+import { insertWebpExif, writeWebp } from "../cleaners/webp";
+import type { MetadataInfo, MetadataTag } from "../metadata";
+import { readMetadataBytes } from "../metadata";
+
+function tag(
+  key: string,
+  value = "x",
+  group: MetadataTag["group"] = "exif",
+): MetadataTag {
+  return { group, block: group === "xmp" ? "xmp" : "ifd0", key, value };
+}
+
+const CAMERA_PHOTO: MetadataInfo = {
+  tags: [
+    tag("GPSLatitude", "51.5", "gps"),
+    tag("BodySerialNumber", "123456"),
+    tag("Artist", "Jane Doe"),
+    tag("Orientation", "1"),
+  ],
+};
+
+describe("auditImage", () => {
+  it("flags GPS, serial numbers and author names", () => {
+    expect(auditImage(CAMERA_PHOTO, []).flags).toEqual([
+      "gps",
+      "serialNumbers",
+      "authors",
+    ]);
+  });
+
+  it("flags GPS and author names in WebP files", async () => {
+    const webp = insertWebpExif(
+      writeWebp([{ type: "VP8L", data: new Uint8Array([0x2f, 0, 0, 0, 0]) }]),
+      buildExif({
+        artist: "Jane Doe",
+        latitude: 51.5,
+        longitude: -0.1,
+      }) as Uint8Array,
+    );
+    const audit = auditImage(await readMetadataBytes(webp), []);
+
+    expect(audit.flags).toEqual(["gps", "authors"]);
+    expect(audit.risks).not.toEqual([]);
+  });
+
+  it("flags AI generation parameters in PNG text", () => {
+    const audit = auditImage({}, [
+      { keyword: "parameters", text: "a cat, Steps: 20, Sampler: Euler a" },
+    ]);
+    expect(audit.flags).toEqual(["aiParameters"]);
+  });
+
+  it("flags images marked as made by a trained algorithm", () => {
+    const audit = auditImage(
+      {
+        tags: [
+          tag(
+            "DigitalSourceType",
+            "http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia",
+            "xmp",
+          ),
+        ],
+      },
+      [],
+    );
+    expect(audit.flags).toEqual(["aiParameters"]);
+  });
+
+  it("does not flag images without risky metadata", () => {
+    const audit = auditImage({ tags: [tag("Orientation", "1")] }, [
+      { keyword: "Comment", text: "Holiday" },
+    ]);
+    expect(audit.flags).toEqual([]);
+    expect(audit.risks).toEqual([]);
+  });
+});
+
+describe("formatAuditReport", () => {
+  it("lists each image with its findings and status", () => {
+    const flagged = auditImage(CAMERA_PHOTO, []);
+    const cleaned = {
+      ...auditImage(CAMERA_PHOTO, []),
+      cleaned: { passed: true, residuals: [] },
+    };
+    const plain = auditImage({}, []);
+
+    expect(
+      formatAuditReport(
+        [flagged, cleaned, plain],
+        new Date("2026-01-02T03:04:05Z"),
+      ),
+    ).toBe(
+      [
+        "Design metadata audit (current page)",
+        "Scanned: 2026-01-02T03:04:05.000Z",
+        "Images: 3, flagged: 2",
+        "",
+        "Image 1: not cleaned",
+        "  Found: GPS location, camera serial numbers, author names",
+        "  location (high): GPS Latitude",
+        "  identity (high): Artist",
+        "  device (high): Body Serial Number",
+        "",
+        "Image 2: cleaned and verified",
+        "  Found: GPS location, camera serial numbers, author names",
+        "  location (high): GPS Latitude",
+        "  identity (high): Artist",
+        "  device (high): Body Serial Number",
+        "",
+        "Image 3: no risks",
+      ].join("\n"),
+    );
+  });
+
+  it("never reports an image that could not be read as clean", () => {
+    expect(
+      formatAuditReport(
+        [auditImage({}, []), unreadableImage()],
+        new Date("2026-01-02T03:04:05Z"),
+      ),
+    ).toBe(
+      [
+        "Design metadata audit (current page)",
+        "Scanned: 2026-01-02T03:04:05.000Z",
+        "Images: 2, flagged: 0, not checked: 1",
+        "",
+        "Image 1: no risks",
+        "",
+        "Image 2: could not be read, not checked",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,236 @@
+import { readContentCredentials } from "../cleaners/c2pa";
+import { decodeCbor } from "../cleaners/cbor";
+import {
+  cleanJpeg,
+  insertJpegJumbf,
+  listJpegMetadataBlocks,
+  readJpegJumbf,
+} from "../cleaners/jpeg";
+import {
+  cleanPng,
+  insertPngJumbf,
+  readPngJumbf,
+  writePng,
+} from "../cleaners/png";
+
+function latin1(text: string): number[] {
+  return Array.from(text, (c) => c.charCodeAt(0));
+}
+
+const u16 = (value: number) => [value >> 8, value & 0xff];
+const u32 = (value: number) => [...u16(value >>> 16), ...u16(value & 0xffff)];
+
+// Minimal CBOR encoder for ASCII strings, unsigned integers, byte strings,
+// arrays and maps. Map keys made of digits are written as integers
+function cborHead(major: number, value: number): number[] {
+  if (value < 24) return [(major << 5) | value];
+  if (value < 0x100) return [(major << 5) | 24, value];
+  if (value < 0x10000) return [(major << 5) | 25, ...u16(value)];
+  return [(major << 5) | 26, ...u32(value)];
+}
+
+function cbor(value: unknown): number[] {
+  if (typeof value === "number") return cborHead(0, value);
+  if (typeof value === "string") {
+    return [...cborHead(3, value.length), ...latin1(value)];
+  }
+  if (value instanceof Uint8Array) {
+    return [...cborHead(2, value.length), ...value];
+  }
+  if (Array.isArray(value)) {
+    return [...cborHead(4, value.length), ...value.flatMap(cbor)];
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  return [
+    ...cborHead(5, entries.length),
+    ...entries.flatMap(([key, item]) => [
+      ...cbor(/^\d+$/.test(key) ? Number(key) : key),
+      ...cbor(item),
+    ]),
+  ];
+}
+
+function box(type: string, payload: number[]): number[] {
+  return [...u32(payload.length + 8), ...latin1(type), ...payload];
+}
+
+function superbox(label: string, children: number[][]): number[] {
+  // UUID, then toggles: requestable and labelled
+  const description = [...new Array(16).fill(0), 0x03, ...latin1(label), 0];
+  return box("jumb", [...box("jumd", description), ...children.flat()]);
+}
+
+function der(tag: number, content: number[]): number[] {
+  const length =
+    content.length < 0x80 ? [content.length] : [0x82, ...u16(content.length)];
+  return [tag, ...length, ...content];
+}
+
+function name(oid: number[], value: string): number[] {
+  return der(0x31, der(0x30, [...der(0x06, oid), ...der(0x0c, latin1(value))]));
+}
+
+const CERTIFICATE = der(0x30, [
+  ...der(0x30, [
+    ...der(0xa0, der(0x02, [2])),
+    ...der(0x02, [1]),
+    ...der(0x30, []),
+    ...der(0x30, name([0x55, 0x04, 0x03], "Example CA")),
+    ...der(0x30, []),
+    ...der(0x30, [
+      ...name([0x55, 0x04, 0x03], "Jane Doe"),
+      ...name([0x55, 0x04, 0x0a], "Example News"),
+    ]),
+  ]),
+]);
+
+// COSE_Sign1 (tag 18) with the certificate chain in the protected headers
+const SIGNATURE = [
+  0xd2,
+  ...cbor([
+    new Uint8Array(cbor({ 33: [new Uint8Array(CERTIFICATE)] })),
+    {},
+    new Uint8Array([1, 2, 3]),
+  ]),
+];
+
+const AI_SOURCE =
+  "http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia";
+
+function manifest(
+  label: string,
+  claim: Record<string, unknown>,
+  actions: Record<string, unknown>[],
+  extra: number[][] = [],
+): number[] {
+  return superbox(label, [
+    superbox("c2pa.assertions", [
+      superbox("c2pa.actions", [box("cbor", cbor({ actions }))]),
+      ...extra,
+    ]),
+    superbox("c2pa.claim", [box("cbor", cbor(claim))]),
+    superbox("c2pa.signature", [box("cbor", SIGNATURE)]),
+  ]);
+}
+
+const STORE = superbox("c2pa", [
+  manifest("urn:uuid:first", { claim_generator: "Camera/1.0" }, [
+    { action: "c2pa.created" },
+  ]),
+  manifest("urn:uuid:second", { claim_generator: "Example_Editor/2.1" }, [
+    { action: "c2pa.created", digitalSourceType: AI_SOURCE },
+    { action: "c2pa.edited" },
+  ]),
+]);
+
+describe("decodeCbor", () => {
+  it("decodes negative integers, half floats and indefinite strings", () => {
+    expect(decodeCbor(new Uint8Array([0x38, 0x63]))).toBe(-100);
+    expect(decodeCbor(new Uint8Array([0xf9, 0x3e, 0x00]))).toBe(1.5);
+    expect(
+      decodeCbor(
+        new Uint8Array([0x7f, 0x62, ...latin1("ab"), 0x61, 0x63, 0xff]),
+      ),
+    ).toBe("abc");
+    expect(
+      decodeCbor(new Uint8Array([0xbf, 0x01, 0xf5, 0x61, 0x78, 0xf6, 0xff])),
+    ).toEqual({ 1: true, x: null });
+  });
+
+  it("throws on truncated data", () => {
+    expect(() => decodeCbor(new Uint8Array([0x65, 0x61]))).toThrow();
+  });
+});
+
+describe("readContentCredentials", () => {
+  it("summarises the active manifest", () => {
+    expect(readContentCredentials(new Uint8Array(STORE))).toEqual({
+      claimGenerator: "Example_Editor/2.1",
+      actions: ["c2pa.created", "c2pa.edited"],
+      signer: "Example News",
+      aiGenerated: true,
+      manifestCount: 2,
+    });
+  });
+
+  it("reads the generator of a version 2 claim", () => {
+    const store = superbox("c2pa", [
+      manifest(
+        "urn:c2pa:third",
+        { claim_generator_info: { name: "Editor", version: "3.0" } },
+        [{ action: "c2pa.opened" }],
+      ),
+    ]);
+    expect(readContentCredentials(new Uint8Array(store))).toMatchObject({
+      claimGenerator: "Editor 3.0",
+      aiGenerated: false,
+      manifestCount: 1,
+    });
+  });
+
+  it("ignores other JUMBF boxes and malformed data", () => {
+    expect(
+      readContentCredentials(new Uint8Array(superbox("other", []))),
+    ).toBeNull();
+    expect(
+      readContentCredentials(new Uint8Array(STORE.slice(0, 40))),
+    ).toBeNull();
+  });
+});
+
+describe("JPEG APP11 JUMBF", () => {
+  const jpeg = new Uint8Array([
+    0xff, 0xd8, 0xff, 0xda, 0x00, 0x08, 1, 1, 0, 0, 63, 0, 0x12, 0xff, 0xd9,
+  ]);
+  // Large enough to need a second APP11 segment
+  const large = new Uint8Array(
+    superbox("c2pa", [
+      manifest(
+        "urn:uuid:large",
+        { claim_generator: "Editor" },
+        [],
+        [
+          superbox("c2pa.thumbnail.claim.jpeg", [
+            box("bidb", new Array(70000).fill(7)),
+          ]),
+        ],
+      ),
+    ]),
+  );
+
+  it("splits a large box across segments and reassembles it", () => {
+    const withBox = insertJpegJumbf(jpeg, large);
+    expect(listJpegMetadataBlocks(withBox).map(({ type }) => type)).toEqual([
+      "c2pa",
+      "c2pa",
+    ]);
+    const [read] = readJpegJumbf(withBox);
+    expect(read).toEqual(large);
+    expect(readContentCredentials(read as Uint8Array)?.claimGenerator).toBe(
+      "Editor",
+    );
+  });
+
+  it("is removed by the cleaner", () => {
+    const cleaned = cleanJpeg(insertJpegJumbf(jpeg, new Uint8Array(STORE)));
+    expect(readJpegJumbf(cleaned)).toEqual([]);
+    expect(cleaned).toEqual(jpeg);
+  });
+});
+
+describe("PNG caBX JUMBF", () => {
+  const png = writePng([
+    {
+      type: "IHDR",
+      data: new Uint8Array([0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0]),
+    },
+    { type: "IDAT", data: new Uint8Array([0x78, 0x9c, 0x63, 0x00, 0x00]) },
+    { type: "IEND", data: new Uint8Array(0) },
+  ]);
+
+  it("round-trips the box and is removed by the cleaner", () => {
+    const withBox = insertPngJumbf(png, new Uint8Array(STORE));
+    expect(readPngJumbf(withBox)).toEqual([new Uint8Array(STORE)]);
+    expect(readPngJumbf(cleanPng(withBox))).toEqual([]);
+  });
+});
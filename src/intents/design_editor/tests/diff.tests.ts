@@ -0,0 +1,85 @@
+import { diffBlockSizes, diffMetadataEntries } from "../diff";
+import type { MetadataEntry } from "../verification";
+
+const GPS: MetadataEntry = {
+  source: "gps",
+  name: "GPSLatitude",
+  value: "51.5",
+};
+const SOFTWARE: MetadataEntry = {
+  source: "exif",
+  name: "Software",
+  value: "Editor 1.0",
+};
+const ARTIST: MetadataEntry = {
+  source: "exif",
+  name: "Artist",
+  value: "John Smith",
+};
+const ICC: MetadataEntry = {
+  source: "icc",
+  name: "Display P3",
+  value: "536 bytes",
+};
+
+describe("diffMetadataEntries", () => {
+  it("marks tags as removed, kept or added", () => {
+    const stamped = { ...ARTIST, value: "Jane Doe" };
+    expect(
+      diffMetadataEntries(
+        [GPS, SOFTWARE, ARTIST, ICC],
+        [SOFTWARE, ICC, stamped],
+      ),
+    ).toEqual({
+      original: [
+        { ...GPS, status: "removed" },
+        { ...SOFTWARE, status: "kept" },
+        { ...ARTIST, status: "removed" },
+        { ...ICC, status: "kept" },
+      ],
+      cleaned: [
+        { ...SOFTWARE, status: "kept" },
+        { ...ICC, status: "kept" },
+        { ...stamped, status: "added" },
+      ],
+    });
+  });
+
+  it("matches repeated tags one to one", () => {
+    const comment: MetadataEntry = {
+      source: "text",
+      name: "Comment",
+      value: "hello",
+    };
+    expect(diffMetadataEntries([comment, comment], [comment])).toEqual({
+      original: [
+        { ...comment, status: "kept" },
+        { ...comment, status: "removed" },
+      ],
+      cleaned: [{ ...comment, status: "kept" }],
+    });
+  });
+});
+
+describe("diffBlockSizes", () => {
+  it("totals each block type before and after, skipping absent types", () => {
+    expect(
+      diffBlockSizes(
+        [
+          { type: "exif", size: 1200 },
+          { type: "xmp", size: 300 },
+          { type: "xmp", size: 200 },
+          { type: "icc", size: 560 },
+        ],
+        [
+          { type: "icc", size: 560 },
+          { type: "exif", size: 90 },
+        ],
+      ),
+    ).toEqual([
+      { type: "exif", before: 1200, after: 90 },
+      { type: "xmp", before: 500, after: 0 },
+      { type: "icc", before: 560, after: 560 },
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+import exifr from "exifr";
+import { buildExif, formatExifDate } from "../cleaners/exif";
+import { insertJpegExif } from "../cleaners/jpeg";
+import {
+  applyOrientationTransform,
+  getOrientedSize,
+} from "../cleaners/orientation";
+import { insertPngExif, readPngChunks, writePng } from "../cleaners/png";
+import { readMetadataBytes } from "../metadata";
+import { getKeptExif } from "../profiles";
+
+const JPEG = new Uint8Array([
+  0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01,
+  0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00, 0xff, 0xd9,
+]);
+
+describe("buildExif", () => {
+  it("returns null when there is nothing to write", () => {
+    expect(buildExif({})).toBeNull();
+  });
+
+  it("formats dates in EXIF form", () => {
+    expect(formatExifDate(new Date(2024, 0, 2, 3, 4, 5))).toBe(
+      "2024:01:02 03:04:05",
+    );
+  });
+
+  it("writes only the requested fields into a JPEG", async () => {
+    const tiff = buildExif({
+      artist: "Jane Doe",
+      copyright: "© Example Agency",
+      dateTimeOriginal: "2024:05:06 07:08:09",
+      latitude: -33.8568,
+      longitude: 151.2153,
+    });
+    const output = insertJpegExif(JPEG, tiff as Uint8Array);
+
+    // The EXIF segment goes after the JFIF header
+    expect(Array.from(output.subarray(20, 22))).toEqual([0xff, 0xe1]);
+
+    const parsed = await exifr.parse(output.buffer, { gps: true, exif: true });
+    expect(parsed?.Artist).toBe("Jane Doe");
+    expect(parsed?.Copyright).toBe("© Example Agency");
+    expect(parsed?.Make).toBeUndefined();
+    expect(parsed?.latitude).toBeCloseTo(-33.8568, 4);
+    expect(parsed?.longitude).toBeCloseTo(151.2153, 4);
+  });
+
+  it("carries seconds that round up to 60 into the minutes", async () => {
+    const tiff = buildExif({ latitude: 10.9999999, longitude: -20.4999999 });
+    const output = insertJpegExif(JPEG, tiff as Uint8Array);
+
+    const parsed = await exifr.parse(output.buffer, { gps: true });
+    expect(parsed?.GPSLatitude).toEqual([11, 0, 0]);
+    expect(parsed?.GPSLongitude).toEqual([20, 30, 0]);
+  });
+
+  it("places the eXIf chunk ahead of the PNG image data", () => {
+    const png = writePng([
+      { type: "IHDR", data: new Uint8Array(13) },
+      { type: "IDAT", data: new Uint8Array([1]) },
+      { type: "IEND", data: new Uint8Array(0) },
+    ]);
+    const output = insertPngExif(png, buildExif({ artist: "A" }) as Uint8Array);
+    expect(readPngChunks(output).map(({ type }) => type)).toEqual([
+      "IHDR",
+      "eXIf",
+      "IDAT",
+      "IEND",
+    ]);
+  });
+});
+
+describe("getKeptExif", () => {
+  it("copies only the kept fields", () => {
+    const taken = new Date(2024, 4, 6);
+    expect(
+      getKeptExif(
+        {
+          latitude: 1,
+          longitude: 2,
+          make: "Canon",
+          artist: "Jane",
+          copyright: "Agency",
+          raw: { DateTimeOriginal: taken },
+        },
+        ["artist", "copyright", "dateTimeOriginal"],
+      ),
+    ).toEqual({ artist: "Jane", copyright: "Agency", dateTimeOriginal: taken });
+  });
+
+  it("keeps the date and time the file was last changed", async () => {
+    const changed = new Date(2024, 4, 6, 12, 30, 15);
+    const exif = buildExif({ dateTime: changed }) as Uint8Array;
+    const metadata = await readMetadataBytes(insertJpegExif(JPEG, exif));
+
+    expect(metadata.dateTime).toBeDefined();
+    expect(getKeptExif(metadata, ["dateTime"])).toEqual({ dateTime: changed });
+  });
+});
+
+describe("orientation", () => {
+  it("swaps the size only for quarter turns", () => {
+    expect(getOrientedSize(4, 3, 1)).toEqual({ width: 4, height: 3 });
+    expect(getOrientedSize(4, 3, 3)).toEqual({ width: 4, height: 3 });
+    expect(getOrientedSize(4, 3, 6)).toEqual({ width: 3, height: 4 });
+    expect(getOrientedSize(4, 3, 8)).toEqual({ width: 3, height: 4 });
+  });
+
+  it("moves the first stored row to where each orientation displays it", () => {
+    const [w, h] = [4, 3];
+    // Upright positions of the stored top-left and top-right corners
+    const expected: Record<number, [number, number][]> = {
+      1: [
+        [0, 0],
+        [w, 0],
+      ],
+      2: [
+        [w, 0],
+        [0, 0],
+      ],
+      3: [
+        [w, h],
+        [0, h],
+      ],
+      4: [
+        [0, h],
+        [w, h],
+      ],
+      5: [
+        [0, 0],
+        [0, w],
+      ],
+      6: [
+        [h, 0],
+        [h, w],
+      ],
+      7: [
+        [h, w],
+        [h, 0],
+      ],
+      8: [
+        [0, w],
+        [0, 0],
+      ],
+    };
+    for (let orientation = 1; orientation <= 8; orientation++) {
+      let matrix = [1, 0, 0, 1, 0, 0];
+      const ctx = {
+        transform: (...values: number[]) => (matrix = values),
+      } as unknown as CanvasRenderingContext2D;
+      applyOrientationTransform(ctx, orientation, w, h);
+
+      const [a = 0, b = 0, c = 0, d = 0, e = 0, f = 0] = matrix;
+      const map = (x: number, y: number) => [
+        a * x + c * y + e + 0,
+        b * x + d * y + f + 0,
+      ];
+      expect([map(0, 0), map(w, 0)]).toEqual(expected[orientation]);
+    }
+  });
+});
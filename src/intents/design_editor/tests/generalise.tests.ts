@@ -0,0 +1,127 @@
+import exifr from "exifr";
+import { buildExif } from "../cleaners/exif";
+import { insertJpegExif } from "../cleaners/jpeg";
+import {
+  describeGeneralisation,
+  getCameraCategory,
+  getGeneralisedExif,
+  getReplacedFields,
+  getWrittenFields,
+  NO_GENERALISATION,
+  roundCoordinate,
+  trimExifDate,
+} from "../generalise";
+import type { MetadataInfo } from "../metadata";
+
+const JPEG = new Uint8Array([
+  0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01,
+  0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00, 0xff, 0xd9,
+]);
+
+const photo: MetadataInfo = {
+  latitude: 51.507351,
+  longitude: -0.127758,
+  dateTimeOriginal: "2024-05-06T07:08:09.000Z",
+  make: "Apple",
+  model: "iPhone 15 Pro",
+  raw: { DateTimeOriginal: "2024:05:06 07:08:09" },
+};
+
+describe("generalising values", () => {
+  it("rounds coordinates to city or region level", () => {
+    expect(roundCoordinate(51.507351, "city")).toBe(51.5);
+    expect(roundCoordinate(-0.127758, "city")).toBe(-0.1);
+    expect(roundCoordinate(51.507351, "region")).toBe(52);
+  });
+
+  it("trims the date taken to the day, month or year", () => {
+    expect(trimExifDate("2024:05:06 07:08:09", "day")).toBe(
+      "2024:05:06 00:00:00",
+    );
+    expect(trimExifDate(new Date(2024, 4, 6, 7, 8, 9), "month")).toBe(
+      "2024:05:01 00:00:00",
+    );
+    expect(trimExifDate("2024:05:06 07:08:09", "year")).toBe(
+      "2024:01:01 00:00:00",
+    );
+    expect(trimExifDate("yesterday", "day")).toBeUndefined();
+  });
+
+  it("replaces cameras with a generic category", () => {
+    expect(getCameraCategory("Apple", "iPhone 15 Pro")).toBe("Smartphone");
+    expect(getCameraCategory("samsung", "SM-G991B")).toBe("Smartphone");
+    expect(getCameraCategory("Apple", "iPad Air")).toBe("Tablet");
+    expect(getCameraCategory("DJI", "FC3582")).toBe("Drone");
+    expect(getCameraCategory("GoPro", "HERO12 Black")).toBe("Action camera");
+    expect(getCameraCategory("Canon", "Canon EOS R5")).toBe("Digital camera");
+  });
+});
+
+describe("describeGeneralisation", () => {
+  it("pairs each original value with its generalised value", () => {
+    const values = describeGeneralisation(photo, {
+      gps: "city",
+      dateTimeOriginal: "month",
+      camera: true,
+    });
+    expect(values).toEqual([
+      {
+        field: "gps",
+        original: "51.507351, -0.127758",
+        generalised: "51.5, -0.1",
+      },
+      {
+        field: "dateTimeOriginal",
+        original: "2024:05:06 07:08:09",
+        generalised: "2024:05:01 00:00:00",
+      },
+      {
+        field: "camera",
+        original: "Apple iPhone 15 Pro",
+        generalised: "Smartphone",
+      },
+    ]);
+    expect(getReplacedFields(values)).toEqual([
+      "gps",
+      "dateTimeOriginal",
+      "make",
+      "model",
+    ]);
+    expect(getWrittenFields(values)).toEqual([
+      "gps",
+      "dateTimeOriginal",
+      "model",
+    ]);
+  });
+
+  it("skips fields the image does not have or that are not generalised", () => {
+    expect(describeGeneralisation(photo, NO_GENERALISATION)).toEqual([]);
+    expect(
+      describeGeneralisation(
+        { make: "Canon" },
+        { gps: "region", dateTimeOriginal: "year", camera: true },
+      ),
+    ).toEqual([
+      { field: "camera", original: "Canon", generalised: "Digital camera" },
+    ]);
+  });
+});
+
+describe("getGeneralisedExif", () => {
+  it("writes the generalised values into the file", async () => {
+    const exif = getGeneralisedExif(photo, {
+      gps: "region",
+      dateTimeOriginal: "year",
+      camera: true,
+    });
+    expect(exif.dateTimeOriginal).toBe("2024:01:01 00:00:00");
+    const output = insertJpegExif(JPEG, buildExif(exif) as Uint8Array);
+
+    const parsed = await exifr.parse(output.buffer, { gps: true, exif: true });
+    expect(parsed?.latitude).toBeCloseTo(52, 6);
+    expect(parsed?.longitude).toBeCloseTo(0, 6);
+    expect(parsed?.Make).toBeUndefined();
+    expect(parsed?.Model).toBe("Smartphone");
+    expect(parsed?.DateTimeOriginal).toBeInstanceOf(Date);
+  });
+});
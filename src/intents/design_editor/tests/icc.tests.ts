@@ -0,0 +1,85 @@
+import { describeIccProfile, isSrgbProfile } from "../cleaners/icc";
+
+/**
+ * Builds an ICC profile with a 128-byte header and a single "desc" tag.
+ */
+function buildProfile(colorSpace: string, desc: number[]): Uint8Array {
+  const tagOffset = 128 + 4 + 12;
+  const bytes = new Uint8Array(tagOffset + desc.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, bytes.length);
+  bytes.set(
+    Array.from(colorSpace, (c) => c.charCodeAt(0)),
+    16,
+  );
+  view.setUint32(128, 1);
+  bytes.set([0x64, 0x65, 0x73, 0x63], 132);
+  view.setUint32(136, tagOffset);
+  view.setUint32(140, desc.length);
+  bytes.set(desc, tagOffset);
+  return bytes;
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, (c) => c.charCodeAt(0));
+}
+
+function u32(value: number): number[] {
+  return [
+    value >>> 24,
+    (value >> 16) & 0xff,
+    (value >> 8) & 0xff,
+    value & 0xff,
+  ];
+}
+
+describe("describeIccProfile", () => {
+  it("reads an ICC v2 text description", () => {
+    const text = "Adobe RGB (1998)\0";
+    const profile = buildProfile("RGB ", [
+      ...ascii("desc"),
+      ...u32(0),
+      ...u32(text.length),
+      ...ascii(text),
+    ]);
+    expect(describeIccProfile(profile)).toEqual({
+      description: "Adobe RGB (1998)",
+      colorSpace: "RGB",
+      size: profile.length,
+    });
+  });
+
+  it("reads an ICC v4 multi-localised description", () => {
+    const text = "Display P3";
+    const utf16 = Array.from(text).flatMap((c) => [0, c.charCodeAt(0)]);
+    const profile = buildProfile("RGB ", [
+      ...ascii("mluc"),
+      ...u32(0),
+      ...u32(1),
+      ...u32(12),
+      ...ascii("enUS"),
+      ...u32(utf16.length),
+      ...u32(28),
+      ...utf16,
+    ]);
+    const info = describeIccProfile(profile);
+    expect(info?.description).toBe("Display P3");
+    expect(info && isSrgbProfile(info)).toBe(false);
+  });
+
+  it("recognises sRGB profiles", () => {
+    const text = "sRGB IEC61966-2.1\0";
+    const profile = buildProfile("RGB ", [
+      ...ascii("desc"),
+      ...u32(0),
+      ...u32(text.length),
+      ...ascii(text),
+    ]);
+    const info = describeIccProfile(profile);
+    expect(info && isSrgbProfile(info)).toBe(true);
+  });
+
+  it("rejects data too short to be a profile", () => {
+    expect(describeIccProfile(new Uint8Array(10))).toBeNull();
+  });
+});
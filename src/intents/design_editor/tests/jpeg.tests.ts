@@ -0,0 +1,186 @@
+import {
+  cleanJpeg,
+  insertJpegExif,
+  insertJpegXmp,
+  isJpeg,
+  listJpegMetadataBlocks,
+  readJpegComments,
+  readJpegIccProfile,
+} from "../cleaners/jpeg";
+
+function segment(marker: number, payload: number[] | string): number[] {
+  const bytes =
+    typeof payload === "string"
+      ? Array.from(payload, (c) => c.charCodeAt(0))
+      : payload;
+  const length = bytes.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...bytes];
+}
+
+const SOI = [0xff, 0xd8];
+const EOI = [0xff, 0xd9];
+const JFIF = segment(0xe0, "JFIF\0\x01\x01\x00\x00\x01\x00\x01\x00\x00");
+const EXIF = segment(0xe1, "Exif\0\0MM\0*secret-gps");
+const XMP = segment(0xe1, "http://ns.adobe.com/xap/1.0/\0<x:xmpmeta/>");
+const ICC = segment(0xe2, "ICC_PROFILE\0\x01\x01profile");
+const MPF = segment(0xe2, "MPF\0data");
+const IPTC = segment(0xed, "Photoshop 3.0\x008BIM");
+const COMMENT = segment(0xfe, "taken at home");
+const DQT = segment(0xdb, [0x00, ...new Array(64).fill(1)]);
+const SOF0 = segment(0xc0, [8, 0, 1, 0, 1, 1, 1, 0x11, 0]);
+const DHT = segment(0xc4, [0x00, ...new Array(16).fill(0)]);
+const SOS = segment(0xda, [1, 1, 0, 0, 63, 0]);
+// Scan data containing a stuffed byte and a restart marker
+const SCAN = [0x12, 0xff, 0x00, 0x34, 0xff, 0xd0, 0x56];
+
+function concat(...parts: number[][]): number[] {
+  return parts.flat();
+}
+
+function jpeg(...parts: number[][]): Uint8Array {
+  return new Uint8Array(concat(...parts));
+}
+
+describe("cleanJpeg", () => {
+  it("detects JPEG files by their SOI marker", () => {
+    expect(isJpeg(jpeg(SOI, JFIF, EOI))).toBe(true);
+    expect(isJpeg(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBe(false);
+  });
+
+  it("removes EXIF, XMP, IPTC, comments and non-ICC APP2 segments", () => {
+    const input = jpeg(
+      SOI,
+      JFIF,
+      EXIF,
+      XMP,
+      ICC,
+      MPF,
+      IPTC,
+      COMMENT,
+      DQT,
+      SOF0,
+      DHT,
+      SOS,
+      SCAN,
+      EOI,
+    );
+
+    expect(Array.from(cleanJpeg(input))).toEqual(
+      concat(SOI, JFIF, ICC, DQT, SOF0, DHT, SOS, SCAN, EOI),
+    );
+  });
+
+  it("drops the ICC profile when asked to", () => {
+    const input = jpeg(SOI, JFIF, ICC, SOS, SCAN, EOI);
+    expect(Array.from(cleanJpeg(input, { keepIcc: false }))).toEqual(
+      concat(SOI, JFIF, SOS, SCAN, EOI),
+    );
+  });
+
+  it("reassembles an ICC profile split across APP2 segments", () => {
+    const second = segment(0xe2, "ICC_PROFILE\0\x02\x02-part2");
+    const first = segment(0xe2, "ICC_PROFILE\0\x01\x02part1");
+    const profile = readJpegIccProfile(
+      jpeg(SOI, second, first, SOS, SCAN, EOI),
+    );
+    expect(String.fromCharCode(...(profile ?? []))).toBe("part1-part2");
+    expect(readJpegIccProfile(jpeg(SOI, JFIF, SOS, SCAN, EOI))).toBeNull();
+  });
+
+  it("copies scan data byte for byte, including stuffed bytes and restarts", () => {
+    const input = jpeg(SOI, DQT, SOF0, DHT, SOS, SCAN, COMMENT, SOS, SCAN, EOI);
+    expect(Array.from(cleanJpeg(input))).toEqual(
+      concat(SOI, DQT, SOF0, DHT, SOS, SCAN, SOS, SCAN, EOI),
+    );
+  });
+
+  it("drops the JFIF thumbnail but keeps the JFIF header", () => {
+    const withThumbnail = segment(
+      0xe0,
+      "JFIF\0\x01\x01\x00\x00\x01\x00\x01\x01\x01\xaa\xbb\xcc",
+    );
+    const output = cleanJpeg(jpeg(SOI, withThumbnail, SOS, SCAN, EOI));
+    expect(Array.from(output.subarray(0, 20))).toEqual([...SOI, ...JFIF]);
+  });
+
+  it("drops anything after the EOI marker", () => {
+    const input = jpeg(SOI, SOS, SCAN, EOI, [0x50, 0x4b, 0x03, 0x04]);
+    expect(Array.from(cleanJpeg(input))).toEqual(concat(SOI, SOS, SCAN, EOI));
+  });
+
+  it("throws on a truncated marker stream", () => {
+    expect(() => cleanJpeg(jpeg(SOI, DQT.slice(0, 10)))).toThrow();
+    expect(() => cleanJpeg(jpeg(SOI, SOS, SCAN))).toThrow();
+  });
+});
+
+describe("readJpegComments", () => {
+  it("reads every comment ahead of the scan", () => {
+    const input = jpeg(
+      SOI,
+      JFIF,
+      COMMENT,
+      segment(0xfe, "second"),
+      DQT,
+      SOF0,
+      SOS,
+      SCAN,
+      EOI,
+    );
+    expect(readJpegComments(input)).toEqual(["taken at home", "second"]);
+  });
+
+  it("returns nothing for files without comments", () => {
+    expect(readJpegComments(jpeg(SOI, JFIF, EOI))).toEqual([]);
+  });
+});
+
+describe("insertJpegXmp", () => {
+  it("writes the packet after the JFIF and EXIF segments", () => {
+    const packet = Array.from("<x:xmpmeta/>", (c) => c.charCodeAt(0));
+    const withExif = insertJpegExif(
+      jpeg(SOI, JFIF, SOS, SCAN, EOI),
+      new Uint8Array([0x4d, 0x4d]),
+    );
+    const output = insertJpegXmp(withExif, new Uint8Array(packet));
+
+    expect(Array.from(output)).toEqual(
+      concat(
+        SOI,
+        JFIF,
+        segment(0xe1, "Exif\0\0MM"),
+        segment(0xe1, "http://ns.adobe.com/xap/1.0/\0<x:xmpmeta/>"),
+        SOS,
+        SCAN,
+        EOI,
+      ),
+    );
+  });
+});
+
+describe("listJpegMetadataBlocks", () => {
+  it("sizes each metadata segment and skips JFIF and image tables", () => {
+    const input = jpeg(
+      SOI,
+      JFIF,
+      EXIF,
+      XMP,
+      ICC,
+      MPF,
+      IPTC,
+      COMMENT,
+      DQT,
+      SOS,
+      SCAN,
+      EOI,
+    );
+    expect(listJpegMetadataBlocks(input)).toEqual([
+      { type: "exif", size: EXIF.length },
+      { type: "xmp", size: XMP.length },
+      { type: "icc", size: ICC.length },
+      { type: "other", size: MPF.length },
+      { type: "iptc", size: IPTC.length },
+      { type: "text", size: COMMENT.length },
+    ]);
+  });
+});
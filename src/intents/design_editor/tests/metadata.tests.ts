@@ -0,0 +1,110 @@
+import { encodeUtf8 } from "../cleaners/bytes";
+import { buildExif } from "../cleaners/exif";
+import { insertJpegExif } from "../cleaners/jpeg";
+import { insertWebpExif, insertWebpXmp, writeWebp } from "../cleaners/webp";
+import { formatTagName, readMetadataBytes, readTags } from "../metadata";
+import { isTagKept } from "../profiles";
+
+function segment(marker: number, payload: string): number[] {
+  const length = payload.length + 2;
+  return [
+    0xff,
+    marker,
+    length >> 8,
+    length & 0xff,
+    ...Array.from(payload, (c) => c.charCodeAt(0)),
+  ];
+}
+
+const XMP_PACKET =
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"><rdf:Description xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmp:CreatorTool="Editor 2"/></rdf:RDF></x:xmpmeta>';
+
+const XMP = segment(0xe1, `http://ns.adobe.com/xap/1.0/\0${XMP_PACKET}`);
+
+const WEBP = writeWebp([
+  { type: "VP8L", data: new Uint8Array([0x2f, 0, 0, 0, 0]) },
+]);
+
+describe("formatTagName", () => {
+  it("splits tag names into words", () => {
+    expect(formatTagName("LensSerialNumber")).toBe("Lens Serial Number");
+    expect(formatTagName("GPSLatitudeRef")).toBe("GPS Latitude Ref");
+    expect(formatTagName("latitude")).toBe("Latitude");
+  });
+
+  it("names unknown tags by their number", () => {
+    expect(formatTagName("42033")).toBe("Tag 0xa431");
+  });
+});
+
+describe("readTags", () => {
+  it("groups tags by the segment they came from", async () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, ...XMP, 0xff, 0xd9]);
+    const exif = buildExif({ artist: "Jane Doe", latitude: 1, longitude: 2 });
+    const tags = await readTags(insertJpegExif(jpeg, exif as Uint8Array));
+
+    expect(tags).toContainEqual({
+      group: "exif",
+      block: "ifd0",
+      key: "Artist",
+      value: "Jane Doe",
+    });
+    expect(tags).toContainEqual({
+      group: "xmp",
+      block: "xmp",
+      key: "CreatorTool",
+      value: "Editor 2",
+    });
+    expect(tags.some(({ group }) => group === "gps")).toBe(true);
+  });
+
+  it("returns nothing for files exifr cannot read", async () => {
+    expect(await readTags(new Uint8Array([1, 2, 3]))).toEqual([]);
+  });
+});
+
+describe("readMetadataBytes", () => {
+  it("reads the EXIF and XMP chunks of WebP files", async () => {
+    const exif = buildExif({
+      make: "Canon",
+      orientation: 6,
+      latitude: 1.5,
+      longitude: 2.5,
+    });
+    const webp = insertWebpXmp(
+      insertWebpExif(WEBP, exif as Uint8Array),
+      encodeUtf8(XMP_PACKET),
+    );
+    const metadata = await readMetadataBytes(webp);
+
+    expect(metadata).toMatchObject({
+      latitude: 1.5,
+      longitude: 2.5,
+      make: "Canon",
+      orientation: 6,
+    });
+    expect(metadata.tags).toContainEqual({
+      group: "xmp",
+      block: "xmp",
+      key: "CreatorTool",
+      value: "Editor 2",
+    });
+    expect(metadata.tags?.some(({ group }) => group === "gps")).toBe(true);
+  });
+
+  it("reads WebP files with only an XMP chunk", async () => {
+    const webp = insertWebpXmp(WEBP, encodeUtf8(XMP_PACKET));
+    const metadata = await readMetadataBytes(webp);
+
+    expect(metadata.tags?.map(({ key }) => key)).toEqual(["CreatorTool"]);
+  });
+});
+
+describe("isTagKept", () => {
+  it("keeps only the EXIF tags of kept fields", () => {
+    const artist = { group: "exif", key: "Artist" } as const;
+    expect(isTagKept(artist, ["artist"])).toBe(true);
+    expect(isTagKept(artist, ["copyright"])).toBe(false);
+    expect(isTagKept({ group: "xmp", key: "Artist" }, ["artist"])).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  cleanPng,
+  crc32,
+  insertPngXmp,
+  isPng,
+  listPngMetadataBlocks,
+  readPngChunks,
+  readPngText,
+  writePng,
+} from "../cleaners/png";
+
+function latin1(text: string): Uint8Array {
+  return Uint8Array.from(text, (c) => c.charCodeAt(0));
+}
+
+function chunk(type: string, data: string | number[] = []) {
+  return {
+    type,
+    data: typeof data === "string" ? latin1(data) : new Uint8Array(data),
+  };
+}
+
+const IHDR = chunk("IHDR", [0, 0, 0, 1, 0, 0, 0, 1, 16, 2, 0, 0, 0]);
+const PLTE = chunk("PLTE", [255, 0, 0]);
+const TRNS = chunk("tRNS", [0]);
+const IDAT = chunk("IDAT", [0x78, 0x9c, 0x63, 0x00, 0x00]);
+const IEND = chunk("IEND");
+
+describe("cleanPng", () => {
+  it("computes the standard CRC-32", () => {
+    expect(crc32(latin1("IEND"))).toBe(0xae426082);
+  });
+
+  it("detects PNG files by their signature", () => {
+    expect(isPng(writePng([IHDR, IDAT, IEND]))).toBe(true);
+    expect(isPng(new Uint8Array([0xff, 0xd8, 0xff]))).toBe(false);
+  });
+
+  it("drops text, EXIF, time and unknown ancillary chunks", () => {
+    const input = writePng([
+      IHDR,
+      chunk("tEXt", "Author\0Jane"),
+      chunk("zTXt", "Comment\0\0x"),
+      chunk("iTXt", "XML:com.adobe.xmp\0\0\0\0\0<x/>"),
+      chunk("eXIf", "MM\0*"),
+      chunk("tIME", [7, 233, 1, 1, 0, 0, 0]),
+      chunk("gAMA", [0, 0, 0xb1, 0x8f]),
+      chunk("sRGB", [0]),
+      chunk("pHYs", [0, 0, 0x0b, 0x13, 0, 0, 0x0b, 0x13, 1]),
+      chunk("prVt", "private"),
+      PLTE,
+      TRNS,
+      IDAT,
+      IEND,
+    ]);
+
+    expect(readPngChunks(cleanPng(input)).map(({ type }) => type)).toEqual([
+      "IHDR",
+      "gAMA",
+      "sRGB",
+      "pHYs",
+      "PLTE",
+      "tRNS",
+      "IDAT",
+      "IEND",
+    ]);
+  });
+
+  it("respects a custom allow-list", () => {
+    const input = writePng([
+      IHDR,
+      chunk("gAMA", [0, 0, 0xb1, 0x8f]),
+      IDAT,
+      IEND,
+    ]);
+    const output = cleanPng(input, { allowedChunks: [] });
+    expect(readPngChunks(output).map(({ type }) => type)).toEqual([
+      "IHDR",
+      "IDAT",
+      "IEND",
+    ]);
+  });
+
+  it("keeps the colour profile unless asked to drop it", () => {
+    const input = writePng([IHDR, chunk("iCCP", "P3\0\0x"), IDAT, IEND]);
+    const types = (options: { keepIcc?: boolean }) =>
+      readPngChunks(cleanPng(input, options)).map(({ type }) => type);
+    expect(types({})).toEqual(["IHDR", "iCCP", "IDAT", "IEND"]);
+    expect(types({ keepIcc: false })).toEqual(["IHDR", "IDAT", "IEND"]);
+  });
+
+  it("copies image data byte for byte and recalculates CRCs", () => {
+    const input = writePng([IHDR, chunk("tEXt", "a\0b"), IDAT, IEND]);
+    // Corrupt the CRC of the IDAT chunk
+    input.set([0], input.length - 13);
+
+    expect(Array.from(cleanPng(input))).toEqual(
+      Array.from(writePng([IHDR, IDAT, IEND])),
+    );
+  });
+
+  it("drops data appended after the IEND chunk", () => {
+    const image = writePng([IHDR, IDAT, IEND]);
+    const input = new Uint8Array([...image, ...latin1("PK\x03\x04zip")]);
+    expect(Array.from(cleanPng(input))).toEqual(Array.from(image));
+  });
+
+  it("throws on a truncated chunk list", () => {
+    const input = writePng([IHDR, IDAT, IEND]);
+    expect(() => cleanPng(input.subarray(0, input.length - 12))).toThrow();
+  });
+});
+
+describe("readPngText", () => {
+  it("reads tEXt and uncompressed iTXt chunks", async () => {
+    const input = writePng([
+      IHDR,
+      chunk("tEXt", "Author\0Jane"),
+      // UTF-8 text, with empty language tag and translated keyword
+      chunk("iTXt", [
+        ...latin1("Title\0\0\0\0\0"),
+        0x63,
+        0x61,
+        0x66,
+        0xc3,
+        0xa9,
+      ]),
+      IDAT,
+      IEND,
+    ]);
+    expect(await readPngText(input)).toEqual([
+      { keyword: "Author", text: "Jane" },
+      { keyword: "Title", text: "caf\u00e9" },
+    ]);
+  });
+});
+
+describe("insertPngXmp", () => {
+  it("writes the packet as an iTXt chunk, replacing an older one", async () => {
+    const input = writePng([
+      IHDR,
+      chunk("iTXt", "XML:com.adobe.xmp\0\0\0\0\0<old/>"),
+      IDAT,
+      IEND,
+    ]);
+    const output = insertPngXmp(input, latin1("<x:xmpmeta/>"));
+
+    expect(readPngChunks(output).map(({ type }) => type)).toEqual([
+      "IHDR",
+      "iTXt",
+      "IDAT",
+      "IEND",
+    ]);
+    expect(await readPngText(output)).toEqual([
+      { keyword: "XML:com.adobe.xmp", text: "<x:xmpmeta/>" },
+    ]);
+  });
+});
+
+describe("listPngMetadataBlocks", () => {
+  it("sizes each metadata chunk and skips image and display chunks", () => {
+    const input = writePng([
+      IHDR,
+      chunk("iCCP", "sRGB\0\0data"),
+      chunk("gAMA", [0, 0, 0xb1, 0x8f]),
+      chunk("eXIf", "MM\0*gps"),
+      chunk("iTXt", "XML:com.adobe.xmp\0\0\0\0\0<x:xmpmeta/>"),
+      chunk("tEXt", "Comment\0hello"),
+      chunk("tIME", [7, 234, 1, 2, 3, 4, 5]),
+      IDAT,
+      IEND,
+    ]);
+    expect(listPngMetadataBlocks(input)).toEqual([
+      { type: "icc", size: 22 },
+      { type: "exif", size: 19 },
+      { type: "xmp", size: 46 },
+      { type: "text", size: 25 },
+      { type: "other", size: 19 },
+    ]);
+  });
+});
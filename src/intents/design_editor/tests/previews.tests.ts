@@ -0,0 +1,165 @@
+import { findContentBounds, toLuminance } from "../cleaners/canvas";
+import {
+  extractEmbeddedPreviews,
+  readExifThumbnail,
+  readPhotoshopThumbnail,
+  readXmpThumbnails,
+} from "../cleaners/previews";
+import { aspectRatiosDiffer, contentDiffers, findMismatch } from "../previews";
+
+function latin1(text: string): number[] {
+  return Array.from(text, (c) => c.charCodeAt(0));
+}
+
+const u16 = (value: number) => [value >> 8, value & 0xff];
+const u32 = (value: number) => [...u16(value >>> 16), ...u16(value & 0xffff)];
+
+// The smallest byte string the cleaners accept as a JPEG
+const THUMBNAIL = [0xff, 0xd8, 0xff, 0xd9];
+
+// Big-endian TIFF with an empty IFD0 whose IFD1 points to the thumbnail
+const EXIF_TIFF = [
+  ...latin1("MM\0*"),
+  ...u32(8),
+  ...u16(0),
+  ...u32(14),
+  ...u16(2),
+  ...u16(0x0201),
+  ...u16(4),
+  ...u32(1),
+  ...u32(44),
+  ...u16(0x0202),
+  ...u16(4),
+  ...u32(1),
+  ...u32(THUMBNAIL.length),
+  ...u32(0),
+  ...THUMBNAIL,
+];
+
+function resource(id: number, data: number[]): number[] {
+  const padding = data.length % 2 === 1 ? [0] : [];
+  return [
+    ...latin1("8BIM"),
+    ...u16(id),
+    0,
+    0,
+    ...u32(data.length),
+    ...data,
+    ...padding,
+  ];
+}
+
+describe("readExifThumbnail", () => {
+  it("reads the JPEG that IFD1 points to", () => {
+    expect(
+      Array.from(readExifThumbnail(new Uint8Array(EXIF_TIFF)) ?? []),
+    ).toEqual(THUMBNAIL);
+  });
+
+  it("returns null without an IFD1 or when it points outside the block", () => {
+    const noIfd1 = [...latin1("MM\0*"), ...u32(8), ...u16(0), ...u32(0)];
+    expect(readExifThumbnail(new Uint8Array(noIfd1))).toBeNull();
+    expect(
+      readExifThumbnail(new Uint8Array(EXIF_TIFF.slice(0, 45))),
+    ).toBeNull();
+  });
+});
+
+describe("readPhotoshopThumbnail", () => {
+  it("skips other resources and strips the thumbnail header", () => {
+    const header = [...u32(1), ...new Array(24).fill(0)];
+    const resources = [
+      ...resource(0x0404, [1, 2, 3]),
+      ...resource(0x040c, [...header, ...THUMBNAIL]),
+    ];
+    expect(
+      Array.from(readPhotoshopThumbnail(new Uint8Array(resources)) ?? []),
+    ).toEqual(THUMBNAIL);
+  });
+});
+
+describe("readXmpThumbnails", () => {
+  it("decodes element and attribute thumbnails with escaped line breaks", () => {
+    const packet = [
+      "<xmpGImg:image>/9j/&#xA;2Q==</xmpGImg:image>",
+      '<rdf:li xmpGImg:image="/9j/2Q=="/>',
+      "<xmpGImg:image>bm90IGEganBlZw==</xmpGImg:image>",
+    ].join("\n");
+    expect(readXmpThumbnails(packet).map((data) => Array.from(data))).toEqual([
+      THUMBNAIL,
+      THUMBNAIL,
+    ]);
+  });
+});
+
+describe("extractEmbeddedPreviews", () => {
+  it("finds the EXIF thumbnail of a JPEG", async () => {
+    const payload = [...latin1("Exif\0\0"), ...EXIF_TIFF];
+    const jpeg = new Uint8Array([
+      0xff,
+      0xd8,
+      0xff,
+      0xe1,
+      ...u16(payload.length + 2),
+      ...payload,
+      0xff,
+      0xd9,
+    ]);
+    const previews = await extractEmbeddedPreviews(jpeg);
+    expect(
+      previews.map(({ source, data }) => [source, Array.from(data)]),
+    ).toEqual([["exif", THUMBNAIL]]);
+  });
+});
+
+describe("findContentBounds", () => {
+  it("trims the black bars around a letterboxed thumbnail", () => {
+    // 3 x 4 pixels with a black first and last row
+    const rgba = new Uint8ClampedArray(3 * 4 * 4).fill(255);
+    rgba.fill(0, 0, 12);
+    rgba.fill(0, 36, 48);
+    expect(findContentBounds(toLuminance(rgba), 3, 4)).toEqual({
+      x: 0,
+      y: 1,
+      width: 3,
+      height: 2,
+    });
+  });
+});
+
+describe("findMismatch", () => {
+  const cells = new Uint8Array(1024).fill(128);
+
+  it("compares aspect ratios with room for rounding", () => {
+    const photo = { width: 4000, height: 3000 };
+    expect(aspectRatiosDiffer(photo, { width: 160, height: 120 })).toBe(false);
+    expect(aspectRatiosDiffer(photo, { width: 159, height: 120 })).toBe(false);
+    expect(aspectRatiosDiffer(photo, { width: 160, height: 90 })).toBe(true);
+  });
+
+  it("ignores a few changed cells but not a redacted area", () => {
+    const touched = cells.slice().fill(20, 0, 10);
+    const redacted = cells.slice().fill(0, 0, 40);
+    expect(contentDiffers(cells, touched)).toBe(false);
+    expect(contentDiffers(cells, redacted)).toBe(true);
+  });
+
+  it("reports a different shape before different content", () => {
+    const main = { width: 400, height: 300, cells };
+    expect(findMismatch(main, { width: 160, height: 120, cells })).toBeNull();
+    expect(
+      findMismatch(main, {
+        width: 160,
+        height: 120,
+        cells: cells.slice().fill(0, 0, 40),
+      }),
+    ).toBe("content");
+    expect(
+      findMismatch(main, {
+        width: 120,
+        height: 120,
+        cells: new Uint8Array(1024),
+      }),
+    ).toBe("aspectRatio");
+  });
+});
@@ -0,0 +1,165 @@
+import type { Redaction } from "../cleaners";
+import { canKeepContentCredentials } from "../cleaners";
+import {
+  blurRgba,
+  getRedactionBounds,
+  pixelateRgba,
+} from "../cleaners/redaction";
+import {
+  addRedaction,
+  clearRedactions,
+  EMPTY_REDACTION_HISTORY,
+  extendOutline,
+  getDraggedRect,
+  isUsableShape,
+  redoRedaction,
+  undoRedaction,
+} from "../redactions";
+
+const face: Redaction = {
+  shape: { type: "rect", x: 0.1, y: 0.1, width: 0.2, height: 0.2 },
+  effect: "blur",
+};
+const plate: Redaction = {
+  shape: {
+    type: "freehand",
+    points: [
+      { x: 0.5, y: 0.5 },
+      { x: 0.7, y: 0.5 },
+      { x: 0.6, y: 0.8 },
+    ],
+  },
+  effect: "fill",
+};
+
+// RGBA pixels of a single grey level per pixel
+function greyPixels(levels: number[]): Uint8ClampedArray {
+  return new Uint8ClampedArray(
+    levels.flatMap((level) => [level, level, level, 255]),
+  );
+}
+
+function greyLevels(data: Uint8ClampedArray): number[] {
+  return Array.from({ length: data.length / 4 }, (_, i) => data[i * 4] ?? 0);
+}
+
+describe("redaction history", () => {
+  it("undoes and redoes added redactions", () => {
+    let history = addRedaction(EMPTY_REDACTION_HISTORY, face);
+    history = addRedaction(history, plate);
+    expect(history.present).toEqual([face, plate]);
+
+    history = undoRedaction(history);
+    expect(history.present).toEqual([face]);
+    history = redoRedaction(history);
+    expect(history.present).toEqual([face, plate]);
+    expect(redoRedaction(history)).toBe(history);
+  });
+
+  it("drops the redo steps once something new is drawn", () => {
+    const history = addRedaction(
+      undoRedaction(addRedaction(EMPTY_REDACTION_HISTORY, face)),
+      plate,
+    );
+    expect(history.present).toEqual([plate]);
+    expect(history.future).toEqual([]);
+  });
+
+  it("can undo clearing all redactions", () => {
+    const cleared = clearRedactions(
+      addRedaction(EMPTY_REDACTION_HISTORY, face),
+    );
+    expect(cleared.present).toEqual([]);
+    expect(undoRedaction(cleared).present).toEqual([face]);
+    expect(clearRedactions(EMPTY_REDACTION_HISTORY)).toBe(
+      EMPTY_REDACTION_HISTORY,
+    );
+  });
+});
+
+describe("redaction shapes", () => {
+  it("normalises a rectangle dragged in any direction and clamps it", () => {
+    expect(getDraggedRect({ x: 0.8, y: 0.6 }, { x: 0.2, y: 1.4 })).toEqual({
+      type: "rect",
+      x: 0.2,
+      y: 0.6,
+      width: expect.closeTo(0.6),
+      height: expect.closeTo(0.4),
+    });
+  });
+
+  it("skips outline points too close to the last one", () => {
+    const points = extendOutline([{ x: 0.5, y: 0.5 }], { x: 0.5001, y: 0.5 });
+    expect(points).toEqual([{ x: 0.5, y: 0.5 }]);
+    expect(extendOutline(points, { x: 0.6, y: 0.5 })).toHaveLength(2);
+  });
+
+  it("rejects clicks without a drag", () => {
+    expect(
+      isUsableShape(getDraggedRect({ x: 0.3, y: 0.3 }, { x: 0.3, y: 0.3 })),
+    ).toBe(false);
+    expect(isUsableShape(face.shape)).toBe(true);
+    expect(isUsableShape(plate.shape)).toBe(true);
+    expect(
+      isUsableShape({ type: "freehand", points: [{ x: 0.1, y: 0.1 }] }),
+    ).toBe(false);
+  });
+
+  it("maps shapes to pixel bounds clipped to the image", () => {
+    expect(getRedactionBounds(face.shape, 1000, 500)).toEqual({
+      x: 100,
+      y: 50,
+      width: 200,
+      height: 100,
+    });
+    expect(
+      getRedactionBounds(
+        { type: "rect", x: 0.9, y: -0.2, width: 0.5, height: 0.4 },
+        100,
+        100,
+      ),
+    ).toEqual({ x: 90, y: 0, width: 10, height: 20 });
+    expect(getRedactionBounds(plate.shape, 10, 10)).toEqual({
+      x: 5,
+      y: 5,
+      width: 2,
+      height: 3,
+    });
+  });
+});
+
+describe("redaction effects", () => {
+  it("averages each block when pixelating", () => {
+    // 3 x 2 pixels in 2 x 2 blocks: a full block and a one-pixel-wide edge
+    const data = greyPixels([0, 100, 50, 200, 100, 250]);
+    pixelateRgba(data, 3, 2, 2);
+    expect(greyLevels(data)).toEqual([100, 100, 150, 100, 100, 150]);
+  });
+
+  it("spreads a bright pixel evenly", () => {
+    const levels = new Array(25).fill(0);
+    levels[12] = 250;
+    const data = greyPixels(levels);
+    blurRgba(data, 5, 5, 1);
+
+    const blurred = greyLevels(data);
+    expect(blurred[12]).toBeLessThan(250);
+    expect(blurred[0]).toBeGreaterThan(0);
+    // Repeated box blurs are symmetrical
+    expect(blurred[11]).toBe(blurred[13]);
+    expect(blurred[7]).toBe(blurred[17]);
+  });
+
+  it("leaves pixels untouched with a zero radius", () => {
+    const data = greyPixels([0, 255]);
+    blurRgba(data, 2, 1, 0);
+    expect(greyLevels(data)).toEqual([0, 255]);
+  });
+});
+
+describe("Content Credentials", () => {
+  it("are never kept in a redacted image", () => {
+    expect(canKeepContentCredentials([])).toBe(true);
+    expect(canKeepContentCredentials([face])).toBe(false);
+  });
+});
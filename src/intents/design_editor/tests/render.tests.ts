@@ -0,0 +1,134 @@
+import {
+  getDownscaleSteps,
+  getScaledSize,
+  searchFit,
+} from "../cleaners/render";
+
+// Encodes to a byte per pixel at full quality, shrinking with the quality
+function fakeEncoder(calls: string[] = []) {
+  return async (
+    { width, height }: { width: number; height: number },
+    quality: number,
+  ) => {
+    calls.push(`${width}x${height}@${quality}`);
+    return new Blob([new Uint8Array((width * height * quality) / 100)]);
+  };
+}
+
+describe("getScaledSize", () => {
+  it("shrinks the longest side to the limit and keeps the aspect ratio", () => {
+    expect(getScaledSize(4000, 3000, 2048)).toEqual({
+      width: 2048,
+      height: 1536,
+    });
+    expect(getScaledSize(1000, 5000, 720)).toEqual({ width: 144, height: 720 });
+  });
+
+  it("never enlarges an image", () => {
+    expect(getScaledSize(800, 600, 2048)).toEqual({ width: 800, height: 600 });
+    expect(getScaledSize(800, 600, null)).toEqual({ width: 800, height: 600 });
+  });
+
+  it("keeps at least one pixel on the short side", () => {
+    expect(getScaledSize(10000, 2, 100)).toEqual({ width: 100, height: 1 });
+  });
+});
+
+describe("getDownscaleSteps", () => {
+  it("halves until the last step is less than half", () => {
+    expect(
+      getDownscaleSteps(
+        { width: 4000, height: 3000 },
+        { width: 720, height: 540 },
+      ),
+    ).toEqual([
+      { width: 2000, height: 1500 },
+      { width: 1000, height: 750 },
+      { width: 720, height: 540 },
+    ]);
+  });
+
+  it("ends on a halving that lands on the target", () => {
+    expect(
+      getDownscaleSteps(
+        { width: 2048, height: 1536 },
+        { width: 1024, height: 768 },
+      ),
+    ).toEqual([{ width: 1024, height: 768 }]);
+  });
+
+  it("has no steps when the size is unchanged", () => {
+    expect(
+      getDownscaleSteps(
+        { width: 640, height: 480 },
+        { width: 640, height: 480 },
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("searchFit", () => {
+  it("keeps the full quality when it already fits", async () => {
+    const calls: string[] = [];
+    const fitted = await searchFit(
+      { width: 100, height: 100 },
+      8000,
+      { lossy: true, quality: 0.8 },
+      fakeEncoder(calls),
+    );
+    expect(fitted).toMatchObject({ quality: 0.8, width: 100, fits: true });
+    expect(calls).toEqual(["100x100@80"]);
+  });
+
+  it("settles on the highest quality that fits", async () => {
+    const fitted = await searchFit(
+      { width: 100, height: 100 },
+      5000,
+      { lossy: true, quality: 0.9 },
+      fakeEncoder(),
+    );
+    expect(fitted).toMatchObject({ quality: 0.5, width: 100, fits: true });
+    expect(fitted.blob.size).toBe(5000);
+  });
+
+  it("shrinks the image once the lowest quality is too large", async () => {
+    const fitted = await searchFit(
+      { width: 400, height: 200 },
+      6000,
+      { lossy: true, quality: 0.9 },
+      fakeEncoder(),
+    );
+    expect(fitted.fits).toBe(true);
+    expect(fitted.width).toBeLessThan(400);
+    expect(fitted.width / fitted.height).toBeCloseTo(2);
+    expect(fitted.blob.size).toBeLessThanOrEqual(6000);
+  });
+
+  it("only shrinks lossless images", async () => {
+    const calls: string[] = [];
+    const fitted = await searchFit(
+      { width: 200, height: 200 },
+      15000,
+      { lossy: false, quality: 0.9 },
+      fakeEncoder(calls),
+    );
+    expect(fitted).toMatchObject({ quality: null, fits: true });
+    // Shrunk by the square root of the size ratio, with no quality steps
+    expect(calls).toEqual(["200x200@90", "129x129@90"]);
+  });
+
+  it("reports the smallest attempt when nothing fits", async () => {
+    const fitted = await searchFit(
+      { width: 1000, height: 500 },
+      10,
+      { lossy: true, quality: 0.9 },
+      fakeEncoder(),
+    );
+    expect(fitted).toMatchObject({
+      width: 64,
+      height: 32,
+      quality: 0.3,
+      fits: false,
+    });
+  });
+});
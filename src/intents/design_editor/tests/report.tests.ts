@@ -0,0 +1,92 @@
+import type { CleanReport } from "../report";
+import { formatReport, maskReport } from "../report";
+
+const REPORT: CleanReport = {
+  fileName: "holiday.jpg",
+  originalSize: 2048,
+  cleanedSize: 1024,
+  originalSha256: "aa11",
+  cleanedSha256: "bb22",
+  cleanedAt: "2026-01-02T03:04:05.000Z",
+  tags: [
+    {
+      group: "gps",
+      tag: "GPSLongitude",
+      value: "-0.12",
+      sensitive: true,
+      removed: true,
+    },
+    {
+      group: "exif",
+      tag: "Software",
+      value: 'Editor "Pro", 2.0',
+      sensitive: false,
+      removed: false,
+    },
+    {
+      group: "xmp",
+      tag: "Description",
+      value: "=HYPERLINK()",
+      sensitive: false,
+      removed: true,
+    },
+  ],
+  removedFields: ["gps"],
+  keptFields: ["software"],
+  addedRights: {
+    creator: "Jane Doe",
+    copyright: "",
+    credit: "",
+    licenseUrl: "https://example.com/licence",
+  },
+  verificationPassed: true,
+};
+
+describe("maskReport", () => {
+  it("hides only the values of sensitive tags", () => {
+    expect(maskReport(REPORT).tags.map(({ value }) => value)).toEqual([
+      "[masked]",
+      'Editor "Pro", 2.0',
+      "=HYPERLINK()",
+    ]);
+  });
+});
+
+describe("formatReport", () => {
+  it("writes JSON that parses back to the report", () => {
+    expect(JSON.parse(formatReport(REPORT, "json"))).toEqual(REPORT);
+  });
+
+  it("writes one CSV row per tag, quoting and defusing values", () => {
+    expect(formatReport(REPORT, "csv").split("\r\n")).toEqual([
+      "file_name,original_sha256,cleaned_sha256,cleaned_at,group,tag,value,sensitive,status",
+      "holiday.jpg,aa11,bb22,2026-01-02T03:04:05.000Z,gps,GPSLongitude,-0.12,true,removed",
+      'holiday.jpg,aa11,bb22,2026-01-02T03:04:05.000Z,exif,Software,"Editor ""Pro"", 2.0",false,kept',
+      "holiday.jpg,aa11,bb22,2026-01-02T03:04:05.000Z,xmp,Description,'=HYPERLINK(),false,removed",
+    ]);
+  });
+
+  it("writes plain text with the removed, kept and added metadata", () => {
+    expect(formatReport(maskReport(REPORT), "text")).toBe(
+      [
+        "Metadata cleaning report",
+        "File: holiday.jpg",
+        "Cleaned: 2026-01-02T03:04:05.000Z",
+        "Original: 2048 bytes, SHA-256 aa11",
+        "Cleaned file: 1024 bytes, SHA-256 bb22",
+        "Verification: passed",
+        "",
+        "Removed tags (2):",
+        "  [gps] GPS Longitude: [masked]",
+        "  [xmp] Description: =HYPERLINK()",
+        "",
+        "Kept tags (1):",
+        '  [exif] Software: Editor "Pro", 2.0',
+        "",
+        "Added rights:",
+        "  Creator: Jane Doe",
+        "  Licence URL: https://example.com/licence",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  buildRightsXmp,
+  EMPTY_RIGHTS,
+  getRightsExif,
+  hasRights,
+} from "../rights";
+
+describe("buildRightsXmp", () => {
+  it("writes only the fields that were filled in", () => {
+    const xmp = buildRightsXmp({
+      ...EMPTY_RIGHTS,
+      creator: "Jane Doe",
+      licenseUrl: " https://example.com/licence ",
+    });
+
+    expect(xmp).toContain(
+      "<dc:creator><rdf:Seq><rdf:li>Jane Doe</rdf:li></rdf:Seq></dc:creator>",
+    );
+    expect(xmp).toContain(
+      "<xmpRights:WebStatement>https://example.com/licence</xmpRights:WebStatement>",
+    );
+    expect(xmp).not.toContain("dc:rights>");
+    expect(xmp).not.toContain("photoshop:Credit>");
+  });
+
+  it("escapes XML special characters", () => {
+    const xmp = buildRightsXmp({
+      ...EMPTY_RIGHTS,
+      credit: 'Smith & Sons <"Studio">',
+    });
+    expect(xmp).toContain(
+      "<photoshop:Credit>Smith &amp; Sons &lt;&quot;Studio&quot;&gt;</photoshop:Credit>",
+    );
+  });
+
+  it("returns null when every field is empty", () => {
+    expect(buildRightsXmp({ ...EMPTY_RIGHTS, creator: "  " })).toBeNull();
+    expect(hasRights({ ...EMPTY_RIGHTS, creator: "  " })).toBe(false);
+  });
+});
+
+describe("getRightsExif", () => {
+  it("maps the creator and copyright notice to EXIF", () => {
+    expect(
+      getRightsExif({
+        creator: "Jane Doe",
+        copyright: "(c) 2026 Jane Doe",
+        credit: "Agency",
+        licenseUrl: "",
+      }),
+    ).toEqual({ artist: "Jane Doe", copyright: "(c) 2026 Jane Doe" });
+  });
+});
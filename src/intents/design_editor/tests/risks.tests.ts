@@ -0,0 +1,120 @@
+import { buildExif } from "../cleaners/exif";
+import { insertWebpExif, writeWebp } from "../cleaners/webp";
+import type { MetadataTag } from "../metadata";
+import { readMetadataBytes } from "../metadata";
+import type { RiskRule } from "../risks";
+import {
+  findRisks,
+  getHighestSeverity,
+  getMetadataRisks,
+  isFieldAtRisk,
+  summarizeRisks,
+} from "../risks";
+
+function tag(
+  key: string,
+  value = "x",
+  group: MetadataTag["group"] = "exif",
+): MetadataTag {
+  return { group, block: group === "xmp" ? "xmp" : "ifd0", key, value };
+}
+
+describe("findRisks", () => {
+  it("sorts tags into categories with a severity", () => {
+    const findings = findRisks([
+      tag("GPSLatitude", "51.5", "gps"),
+      tag("LensSerialNumber"),
+      tag("OwnerName"),
+      tag("DateTimeOriginal"),
+      tag("OriginalDocumentID", "xmp.did:1", "xmp"),
+      tag("Orientation"),
+    ]);
+
+    expect(
+      findings.map(({ rule, tag: { key } }) => [
+        key,
+        rule.category,
+        rule.severity,
+      ]),
+    ).toEqual([
+      ["GPSLatitude", "location", "high"],
+      ["LensSerialNumber", "device", "high"],
+      ["OwnerName", "identity", "high"],
+      ["DateTimeOriginal", "time", "medium"],
+      ["OriginalDocumentID", "lineage", "high"],
+    ]);
+  });
+
+  it("flags email addresses in any tag", () => {
+    const findings = findRisks([
+      tag("Description", "Contact jane@example.com", "xmp"),
+      tag("Description", "A sunny day", "xmp"),
+    ]);
+    expect(findings.map(({ rule }) => rule.id)).toEqual(["email"]);
+  });
+
+  it("reports data appended after the image as high severity", () => {
+    const findings = findRisks([
+      tag("TrailingData", "1024 bytes (MP4 video)", "trailer"),
+    ]);
+    expect(findings.map(({ rule }) => [rule.category, rule.severity])).toEqual([
+      ["hiddenData", "high"],
+    ]);
+  });
+
+  it("limits group-specific rules to their groups", () => {
+    expect(findRisks([tag("City", "Paris", "iptc")])).toHaveLength(1);
+    expect(findRisks([tag("City", "Paris", "exif")])).toHaveLength(0);
+  });
+
+  it("accepts custom rules", () => {
+    const rules: RiskRule[] = [
+      { id: "label", category: "identity", severity: "low", tags: ["Label"] },
+    ];
+    expect(findRisks([tag("Label"), tag("Artist")], rules)).toHaveLength(1);
+  });
+});
+
+describe("getMetadataRisks", () => {
+  it("finds the GPS position in the EXIF chunk of a WebP file", async () => {
+    const webp = insertWebpExif(
+      writeWebp([{ type: "VP8L", data: new Uint8Array([0x2f, 0, 0, 0, 0]) }]),
+      buildExif({ latitude: 51.5, longitude: -0.1 }) as Uint8Array,
+    );
+    const risks = getMetadataRisks(await readMetadataBytes(webp));
+
+    expect(risks.map(({ rule }) => rule.id)).toContain("gpsPosition");
+  });
+});
+
+describe("summarizeRisks", () => {
+  it("groups findings by category with the highest severity", () => {
+    const findings = findRisks([
+      tag("ModifyDate"),
+      tag("DateTimeOriginal"),
+      tag("Make"),
+    ]);
+
+    expect(
+      summarizeRisks(findings).map(({ category, severity, findings: f }) => [
+        category,
+        severity,
+        f.length,
+      ]),
+    ).toEqual([
+      ["device", "medium", 1],
+      ["time", "medium", 2],
+    ]);
+    expect(getHighestSeverity(findings)).toBe("medium");
+    expect(getHighestSeverity([])).toBeNull();
+  });
+});
+
+describe("isFieldAtRisk", () => {
+  it("highlights fields with medium or high findings only", () => {
+    const findings = findRisks([tag("Make"), tag("Software")]);
+    expect(isFieldAtRisk("make", findings)).toBe(true);
+    expect(isFieldAtRisk("software", findings)).toBe(false);
+    expect(isFieldAtRisk("gps", findings)).toBe(false);
+  });
+});
@@ -0,0 +1,258 @@
+import {
+  decodeTiff,
+  isTiff,
+  listTiffPages,
+  selectTiffPage,
+} from "../cleaners/tiff";
+
+type Tag = [tag: number, type: number, values: number[]];
+
+interface PageSpec {
+  tags: Tag[];
+  blocks: number[][];
+  tiled?: boolean;
+}
+
+const SHORT = 3;
+const LONG = 4;
+
+/**
+ * Builds a little-endian TIFF with one IFD per page. Strip or tile offsets and
+ * byte counts are filled in from the given data blocks.
+ */
+function buildTiff(pages: PageSpec[]): Uint8Array {
+  const bytes: number[] = [0x49, 0x49, 42, 0, 0, 0, 0, 0];
+  const u16 = (at: number, value: number) => {
+    bytes[at] = value & 0xff;
+    bytes[at + 1] = value >> 8;
+  };
+  const u32 = (at: number, value: number) => {
+    for (let i = 0; i < 4; i++) bytes[at + i] = (value >>> (i * 8)) & 0xff;
+  };
+
+  let previousNext = 4;
+  for (const page of pages) {
+    const offsets: number[] = [];
+    for (const block of page.blocks) {
+      offsets.push(bytes.length);
+      bytes.push(...block);
+    }
+    if (bytes.length & 1) bytes.push(0);
+
+    const tags: Tag[] = [
+      ...page.tags,
+      [page.tiled ? 324 : 273, LONG, offsets],
+      [page.tiled ? 325 : 279, LONG, page.blocks.map((b) => b.length)],
+    ];
+    tags.sort((a, b) => a[0] - b[0]);
+
+    const ifd = bytes.length;
+    u32(previousNext, ifd);
+    bytes.length += 2 + tags.length * 12 + 4;
+    bytes.fill(0, ifd);
+    u16(ifd, tags.length);
+    tags.forEach(([tag, type, values], i) => {
+      const entry = ifd + 2 + i * 12;
+      u16(entry, tag);
+      u16(entry + 2, type);
+      u32(entry + 4, values.length);
+      const size = (type === SHORT ? 2 : 4) * values.length;
+      let valueAt = entry + 8;
+      if (size > 4) {
+        valueAt = bytes.length;
+        bytes.length += size;
+        bytes.fill(0, valueAt);
+        u32(entry + 8, valueAt);
+      }
+      values.forEach((value, j) =>
+        type === SHORT
+          ? u16(valueAt + j * 2, value)
+          : u32(valueAt + j * 4, value),
+      );
+    });
+    previousNext = ifd + 2 + tags.length * 12;
+  }
+  return new Uint8Array(bytes);
+}
+
+function imageTags(
+  width: number,
+  height: number,
+  options: {
+    bits?: number;
+    samples?: number;
+    photometric?: number;
+    compression?: number;
+    predictor?: number;
+  } = {},
+): Tag[] {
+  const { bits = 8, samples = 3, photometric = 2, compression = 1 } = options;
+  const tags: Tag[] = [
+    [256, SHORT, [width]],
+    [257, SHORT, [height]],
+    [258, SHORT, new Array(samples).fill(bits)],
+    [259, SHORT, [compression]],
+    [262, SHORT, [photometric]],
+    [277, SHORT, [samples]],
+    [278, SHORT, [height]],
+    // Private and EXIF tags that the reader must ignore
+    [34665, LONG, [0]],
+    [50000, SHORT, [1]],
+  ];
+  if (options.predictor) tags.push([317, SHORT, [options.predictor]]);
+  return tags;
+}
+
+function pixels(image: { data: Uint8ClampedArray }): number[] {
+  return Array.from(image.data);
+}
+
+// Encodes bytes as TIFF LZW using literal codes only (9-bit, MSB first)
+function lzwLiterals(data: number[]): number[] {
+  const codes = [256, ...data, 257];
+  const output: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const code of codes) {
+    buffer = (buffer << 9) | code;
+    bits += 9;
+    while (bits >= 8) {
+      output.push((buffer >> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  if (bits > 0) output.push((buffer << (8 - bits)) & 0xff);
+  return output;
+}
+
+describe("TIFF reader", () => {
+  it("detects both byte orders", () => {
+    expect(isTiff(new Uint8Array([0x49, 0x49, 42, 0]))).toBe(true);
+    expect(isTiff(new Uint8Array([0x4d, 0x4d, 0, 42]))).toBe(true);
+    expect(isTiff(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toBe(false);
+  });
+
+  it("decodes uncompressed 8-bit RGB strips", async () => {
+    const tiff = buildTiff([
+      { tags: imageTags(2, 1), blocks: [[255, 0, 0, 0, 0, 255]] },
+    ]);
+    const image = await decodeTiff(tiff);
+    expect(image.width).toBe(2);
+    expect(image.height).toBe(1);
+    expect(pixels(image)).toEqual([255, 0, 0, 255, 0, 0, 255, 255]);
+  });
+
+  it("decodes 16-bit greyscale, keeping the high byte", async () => {
+    const tiff = buildTiff([
+      {
+        tags: imageTags(2, 1, { bits: 16, samples: 1, photometric: 1 }),
+        blocks: [[0x34, 0x12, 0xff, 0xff]],
+      },
+    ]);
+    expect(pixels(await decodeTiff(tiff))).toEqual([
+      0x12, 0x12, 0x12, 255, 255, 255, 255, 255,
+    ]);
+  });
+
+  it("inverts WhiteIsZero greyscale", async () => {
+    const tiff = buildTiff([
+      {
+        tags: imageTags(1, 1, { samples: 1, photometric: 0 }),
+        blocks: [[0]],
+      },
+    ]);
+    expect(pixels(await decodeTiff(tiff))).toEqual([255, 255, 255, 255]);
+  });
+
+  it("decodes PackBits data", async () => {
+    const tiff = buildTiff([
+      {
+        tags: imageTags(4, 1, {
+          samples: 1,
+          photometric: 1,
+          compression: 32773,
+        }),
+        // Run of three 7s followed by one literal 9
+        blocks: [[0xfe, 7, 0x00, 9]],
+      },
+    ]);
+    const grey = pixels(await decodeTiff(tiff)).filter((_, i) => i % 4 === 0);
+    expect(grey).toEqual([7, 7, 7, 9]);
+  });
+
+  it("decodes LZW data with a horizontal predictor", async () => {
+    const tiff = buildTiff([
+      {
+        tags: imageTags(3, 1, {
+          samples: 1,
+          photometric: 1,
+          compression: 5,
+          predictor: 2,
+        }),
+        blocks: [lzwLiterals([10, 5, 5])],
+      },
+    ]);
+    const grey = pixels(await decodeTiff(tiff)).filter((_, i) => i % 4 === 0);
+    expect(grey).toEqual([10, 15, 20]);
+  });
+
+  it("assembles tiles and clips them to the image size", async () => {
+    const tags: Tag[] = [
+      ...imageTags(3, 1, { samples: 1, photometric: 1 }).filter(
+        ([tag]) => tag !== 278,
+      ),
+      [322, SHORT, [2]],
+      [323, SHORT, [1]],
+    ];
+    const tiff = buildTiff([
+      {
+        tags,
+        blocks: [
+          [1, 2],
+          [3, 0],
+        ],
+        tiled: true,
+      },
+    ]);
+    const grey = pixels(await decodeTiff(tiff)).filter((_, i) => i % 4 === 0);
+    expect(grey).toEqual([1, 2, 3]);
+  });
+
+  it("lists pages and decodes the one asked for", async () => {
+    const tiff = buildTiff([
+      { tags: imageTags(1, 1), blocks: [[1, 2, 3]] },
+      { tags: imageTags(2, 1), blocks: [[4, 5, 6, 7, 8, 9]] },
+    ]);
+    expect(listTiffPages(tiff)).toEqual([
+      { index: 0, width: 1, height: 1 },
+      { index: 1, width: 2, height: 1 },
+    ]);
+    expect(pixels(await decodeTiff(tiff, 1))).toEqual([
+      4, 5, 6, 255, 7, 8, 9, 255,
+    ]);
+    await expect(decodeTiff(tiff, 2)).rejects.toThrow();
+  });
+
+  it("moves a page to the front for metadata readers", async () => {
+    const tiff = buildTiff([
+      { tags: imageTags(1, 1), blocks: [[1, 2, 3]] },
+      { tags: imageTags(2, 1), blocks: [[4, 5, 6, 7, 8, 9]] },
+      { tags: imageTags(3, 1), blocks: [[1, 1, 1, 2, 2, 2, 3, 3, 3]] },
+    ]);
+    const page = selectTiffPage(tiff, 1);
+    expect(listTiffPages(page)).toEqual([{ index: 0, width: 2, height: 1 }]);
+    expect(pixels(await decodeTiff(page))).toEqual([
+      4, 5, 6, 255, 7, 8, 9, 255,
+    ]);
+    // The original file is left as it was
+    expect(listTiffPages(tiff)).toHaveLength(3);
+    expect(() => selectTiffPage(tiff, 3)).toThrow();
+  });
+
+  it("rejects unsupported compression", async () => {
+    const tiff = buildTiff([
+      { tags: imageTags(1, 1, { compression: 7 }), blocks: [[0]] },
+    ]);
+    await expect(decodeTiff(tiff)).rejects.toThrow(/compression/);
+  });
+});
@@ -0,0 +1,70 @@
+import { writePng } from "../cleaners/png";
+import { findTrailingData } from "../cleaners/trailer";
+import { writeWebp } from "../cleaners/webp";
+
+function latin1(text: string): number[] {
+  return Array.from(text, (c) => c.charCodeAt(0));
+}
+
+// SOI, a minimal scan and EOI
+const JPEG = [
+  0xff, 0xd8, 0xff, 0xda, 0x00, 0x08, 1, 1, 0, 0, 63, 0, 0x12, 0xff, 0xd9,
+];
+
+const PNG = writePng([
+  {
+    type: "IHDR",
+    data: new Uint8Array([0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0]),
+  },
+  { type: "IDAT", data: new Uint8Array([0x78, 0x9c, 0x63, 0x00, 0x00]) },
+  { type: "IEND", data: new Uint8Array(0) },
+]);
+
+const WEBP = writeWebp([
+  { type: "VP8L", data: new Uint8Array([0x2f, 0x00, 0x00, 0x00, 0x00]) },
+]);
+
+describe("findTrailingData", () => {
+  it("finds a Motion Photo video appended to a JPEG", () => {
+    const video = [0, 0, 0, 0x18, ...latin1("ftypmp42"), 0, 0, 0, 0];
+    expect(findTrailingData(new Uint8Array([...JPEG, ...video]))).toEqual({
+      offset: JPEG.length,
+      size: video.length,
+      kinds: ["video"],
+    });
+  });
+
+  it("names every payload it recognises", () => {
+    const trailer = [
+      0xff,
+      0xd8,
+      0xff,
+      0xd9,
+      ...latin1("PK\x03\x04archive"),
+      ...latin1("SEFH\0\0\0\x08SEFT"),
+    ];
+    expect(
+      findTrailingData(new Uint8Array([...JPEG, ...trailer]))?.kinds,
+    ).toEqual(["image", "zip", "samsung"]);
+  });
+
+  it("finds data after the PNG IEND chunk and the WebP container", () => {
+    const junk = latin1("hello");
+    expect(findTrailingData(new Uint8Array([...PNG, ...junk]))).toEqual({
+      offset: PNG.length,
+      size: 5,
+      kinds: ["unknown"],
+    });
+    expect(findTrailingData(new Uint8Array([...WEBP, ...junk]))).toEqual({
+      offset: WEBP.length,
+      size: 5,
+      kinds: ["unknown"],
+    });
+  });
+
+  it("ignores files that end with the image or with zero padding", () => {
+    expect(findTrailingData(new Uint8Array(JPEG))).toBeNull();
+    expect(findTrailingData(PNG)).toBeNull();
+    expect(findTrailingData(new Uint8Array([...JPEG, 0, 0, 0]))).toBeNull();
+  });
+});
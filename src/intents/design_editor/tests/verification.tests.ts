@@ -0,0 +1,184 @@
+import { encodeUtf8 } from "../cleaners/bytes";
+import { buildExif } from "../cleaners/exif";
+import { insertJpegExif, insertJpegXmp } from "../cleaners/jpeg";
+import type { PngChunk } from "../cleaners/png";
+import {
+  insertPngExif,
+  insertPngXmp,
+  readPngChunks,
+  writePng,
+} from "../cleaners/png";
+import { insertWebpXmp, writeWebp } from "../cleaners/webp";
+import { buildRightsXmp, getRightsExif } from "../rights";
+import { verifyCleanedBytes } from "../verification";
+
+function latin1(text: string): Uint8Array {
+  return Uint8Array.from(text, (c) => c.charCodeAt(0));
+}
+
+function segment(marker: number, payload: string): number[] {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...latin1(payload)];
+}
+
+const JPEG = new Uint8Array([
+  0xff,
+  0xd8,
+  ...segment(0xe0, "JFIF\0\x01\x01\x00\x00\x01\x00\x01\x00\x00"),
+  0xff,
+  0xd9,
+]);
+
+const PNG = writePng([
+  {
+    type: "IHDR",
+    data: new Uint8Array([0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0]),
+  },
+  { type: "IDAT", data: new Uint8Array([0x78, 0x9c, 0x63, 0x00, 0x00]) },
+  { type: "IEND", data: new Uint8Array(0) },
+]);
+
+const EXIF = buildExif({
+  software: "Editor 1.0",
+  artist: "Jane Doe",
+  latitude: 51.5,
+  longitude: -0.12,
+}) as Uint8Array;
+
+const RIGHTS = {
+  creator: "Jane Doe",
+  copyright: "(c) 2026 Agency Ltd",
+  credit: "Agency Ltd / Jane Doe",
+  licenseUrl: "https://example.com/licence",
+};
+const RIGHTS_EXIF = buildExif(getRightsExif(RIGHTS)) as Uint8Array;
+const RIGHTS_XMP = encodeUtf8(buildRightsXmp(RIGHTS) as string);
+
+describe("verifyCleanedBytes", () => {
+  it("passes a file with no metadata left", async () => {
+    const report = await verifyCleanedBytes(JPEG, { keptFields: [] });
+    expect(report).toEqual({ passed: true, residuals: [] });
+  });
+
+  it("fails when a tag survived that the profile did not keep", async () => {
+    const report = await verifyCleanedBytes(insertJpegExif(JPEG, EXIF), {
+      keptFields: ["software", "gps"],
+    });
+
+    expect(report.passed).toBe(false);
+    const sensitive = report.residuals.filter(({ sensitive }) => sensitive);
+    expect(sensitive).toEqual([
+      { source: "exif", name: "Artist", value: "Jane Doe", sensitive: true },
+    ]);
+    expect(report.residuals).toContainEqual({
+      source: "exif",
+      name: "Software",
+      value: "Editor 1.0",
+      sensitive: false,
+    });
+    expect(
+      report.residuals.filter(({ source }) => source === "gps").length,
+    ).toBeGreaterThan(0);
+  });
+
+  it("passes when every leftover tag was kept on purpose", async () => {
+    const report = await verifyCleanedBytes(insertPngExif(PNG, EXIF), {
+      keptFields: ["software", "artist", "gps"],
+    });
+    expect(report.passed).toBe(true);
+    expect(report.residuals.length).toBeGreaterThan(0);
+  });
+
+  it("reports JPEG comments as sensitive", async () => {
+    const jpeg = new Uint8Array([
+      ...JPEG.subarray(0, -2),
+      ...segment(0xfe, "taken at home"),
+      0xff,
+      0xd9,
+    ]);
+
+    expect(await verifyCleanedBytes(jpeg, { keptFields: [] })).toEqual({
+      passed: false,
+      residuals: [
+        {
+          source: "text",
+          name: "Comment",
+          value: "taken at home",
+          sensitive: true,
+        },
+      ],
+    });
+  });
+
+  it("reports PNG text chunks as sensitive", async () => {
+    const [header, ...rest] = readPngChunks(PNG);
+    const png = writePng([
+      header as PngChunk,
+      { type: "tEXt", data: latin1("parameters\0a cat, 4k") },
+      ...rest,
+    ]);
+
+    const report = await verifyCleanedBytes(png, { keptFields: [] });
+    expect(report.passed).toBe(false);
+    expect(report.residuals).toEqual([
+      {
+        source: "text",
+        name: "parameters",
+        value: "a cat, 4k",
+        sensitive: true,
+      },
+    ]);
+  });
+
+  it("accepts rights that were stamped on purpose", async () => {
+    const jpeg = insertJpegXmp(insertJpegExif(JPEG, RIGHTS_EXIF), RIGHTS_XMP);
+
+    const report = await verifyCleanedBytes(jpeg, {
+      keptFields: [],
+      rightsStamped: true,
+    });
+    expect(report.passed).toBe(true);
+    expect(report.residuals.map(({ name }) => name).sort()).toEqual([
+      "Artist",
+      "Copyright",
+      "Credit",
+      "WebStatement",
+      "creator",
+      "rights",
+    ]);
+
+    const unstamped = await verifyCleanedBytes(jpeg, { keptFields: [] });
+    expect(unstamped.passed).toBe(false);
+  });
+
+  it("reads stamped rights from a PNG iTXt chunk", async () => {
+    const report = await verifyCleanedBytes(insertPngXmp(PNG, RIGHTS_XMP), {
+      keptFields: [],
+      rightsStamped: true,
+    });
+    expect(report.passed).toBe(true);
+    expect(report.residuals.map(({ source }) => source)).not.toContain("text");
+  });
+
+  it("reads the tags in a WebP XMP chunk", async () => {
+    const webp = insertWebpXmp(
+      writeWebp([{ type: "VP8L", data: new Uint8Array([0x2f, 0, 0, 0, 0]) }]),
+      RIGHTS_XMP,
+    );
+
+    const stamped = await verifyCleanedBytes(webp, {
+      keptFields: [],
+      rightsStamped: true,
+    });
+    expect(stamped.passed).toBe(true);
+    expect(stamped.residuals).toContainEqual({
+      source: "xmp",
+      name: "Credit",
+      value: "Agency Ltd / Jane Doe",
+      sensitive: false,
+    });
+
+    const unstamped = await verifyCleanedBytes(webp, { keptFields: [] });
+    expect(unstamped.passed).toBe(false);
+  });
+});
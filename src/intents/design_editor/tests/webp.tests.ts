@@ -0,0 +1,114 @@
+import {
+  cleanWebp,
+  insertWebpExif,
+  insertWebpXmp,
+  isWebp,
+  listWebpMetadataBlocks,
+  readWebpChunks,
+  readWebpIccProfile,
+  writeWebp,
+} from "../cleaners/webp";
+
+function latin1(text: string): Uint8Array {
+  return Uint8Array.from(text, (c) => c.charCodeAt(0));
+}
+
+function chunk(type: string, data: string | number[]) {
+  return {
+    type,
+    data: typeof data === "string" ? latin1(data) : new Uint8Array(data),
+  };
+}
+
+// VP8X flags: ICC (0x20), alpha (0x10), EXIF (0x08), XMP (0x04)
+const vp8x = (flags: number) =>
+  chunk("VP8X", [flags, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+const VP8 = chunk("VP8 ", [0x9d, 0x01, 0x2a]);
+const VP8L = chunk("VP8L", [0x2f, 0x00, 0x00, 0x00, 0x00]);
+const ALPH = chunk("ALPH", [0x00, 0xff, 0xff]);
+const ICCP = chunk("ICCP", "profile");
+const EXIF = chunk("EXIF", "MM\0*gps");
+const XMP = chunk("XMP ", "<x:xmpmeta/>");
+
+const types = (bytes: Uint8Array) =>
+  readWebpChunks(bytes).map(({ type }) => type);
+
+describe("cleanWebp", () => {
+  it("detects WebP files by their RIFF header", () => {
+    expect(isWebp(writeWebp([VP8]))).toBe(true);
+    expect(isWebp(latin1("RIFF\0\0\0\0WAVE"))).toBe(false);
+  });
+
+  it("removes EXIF and XMP from a lossy image with alpha", () => {
+    const output = cleanWebp(
+      writeWebp([vp8x(0x3c), ICCP, ALPH, VP8, EXIF, XMP]),
+    );
+    expect(types(output)).toEqual(["VP8X", "ICCP", "ALPH", "VP8 "]);
+    // Alpha and ICC stay set, EXIF and XMP are cleared
+    expect(readWebpChunks(output)[0]?.data[0]).toBe(0x30);
+  });
+
+  it("removes EXIF and XMP from a lossless image", () => {
+    const output = cleanWebp(writeWebp([vp8x(0x1c), VP8L, EXIF, XMP]));
+    expect(types(output)).toEqual(["VP8X", "VP8L"]);
+    expect(readWebpChunks(output)[0]?.data[0]).toBe(0x10);
+  });
+
+  it("drops the ICC profile and its flag when asked to", () => {
+    const input = writeWebp([vp8x(0x30), ICCP, ALPH, VP8]);
+    expect(Array.from(readWebpIccProfile(input) ?? [])).toEqual(
+      Array.from(ICCP.data),
+    );
+    const output = cleanWebp(input, { keepIcc: false });
+    expect(types(output)).toEqual(["VP8X", "ALPH", "VP8 "]);
+    expect(readWebpChunks(output)[0]?.data[0]).toBe(0x10);
+  });
+
+  it("leaves simple files without metadata byte-identical", () => {
+    const input = writeWebp([VP8L]);
+    expect(Array.from(cleanWebp(input))).toEqual(Array.from(input));
+  });
+
+  it("keeps odd-sized chunks padded and the RIFF size correct", () => {
+    const output = cleanWebp(writeWebp([vp8x(0x08), ALPH, VP8, EXIF]));
+    const riffSize = new DataView(output.buffer).getUint32(4, true);
+    expect(riffSize).toBe(output.length - 8);
+    expect(output.length % 2).toBe(0);
+  });
+
+  it("throws when there is no image data", () => {
+    expect(() => cleanWebp(writeWebp([vp8x(0x08), EXIF]))).toThrow();
+  });
+});
+
+describe("insertWebpXmp", () => {
+  it("appends the packet after EXIF and sets the XMP flag", () => {
+    const withExif = insertWebpExif(
+      writeWebp([vp8x(0x10), ALPH, VP8]),
+      latin1("MM\0*"),
+    );
+    const output = insertWebpXmp(withExif, latin1("<x:xmpmeta/>"));
+
+    expect(types(output)).toEqual(["VP8X", "ALPH", "VP8 ", "EXIF", "XMP "]);
+    expect(readWebpChunks(output)[0]?.data[0]).toBe(0x1c);
+  });
+});
+
+describe("listWebpMetadataBlocks", () => {
+  it("sizes each metadata chunk, padding included", () => {
+    const input = writeWebp([
+      vp8x(0x2c),
+      ICCP,
+      VP8,
+      EXIF,
+      XMP,
+      chunk("UNKN", "x"),
+    ]);
+    expect(listWebpMetadataBlocks(input)).toEqual([
+      { type: "icc", size: 16 },
+      { type: "exif", size: 16 },
+      { type: "xmp", size: 20 },
+      { type: "other", size: 10 },
+    ]);
+  });
+});
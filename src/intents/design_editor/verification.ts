@@ -0,0 +1,129 @@
+import {
+  describeColorProfile,
+  PNG_XMP_KEYWORD,
+  readEmbeddedText,
+  readWebpMetadata,
+} from "./cleaners";
+import type { TagGroup } from "./metadata";
+import { readTags, readTrailerTags, readXmpTags } from "./metadata";
+import type { MetadataField } from "./profiles";
+import { isTagKept } from "./profiles";
+import { isRightsTag } from "./rights";
+
+// Where a tag was found in a file
+export type ResidualSource = TagGroup | "icc" | "text";
+
+export interface MetadataEntry {
+  source: ResidualSource;
+  // exifr tag name, text keyword or colour profile name
+  name: string;
+  value: string;
+}
+
+export interface ResidualTag extends MetadataEntry {
+  // True when the tag was not meant to survive cleaning
+  sensitive: boolean;
+}
+
+export interface VerificationReport {
+  // False when any sensitive tag survived
+  passed: boolean;
+  residuals: ResidualTag[];
+}
+
+export interface VerifyOptions {
+  // Fields the removal profile wrote back on purpose
+  keptFields: readonly MetadataField[];
+  // True when attribution was stamped into the file on purpose
+  rightsStamped?: boolean;
+}
+
+/**
+ * Reads every tag the app can find in a file: exifr for EXIF, GPS, IPTC and
+ * XMP, and the cleaners' own readers for ICC profiles, JPEG comments, PNG
+ * text chunks and data appended after the image.
+ */
+export async function readMetadataEntries(
+  bytes: Uint8Array,
+  tiffPage = 0,
+): Promise<MetadataEntry[]> {
+  // exifr has no WebP parser, so its EXIF chunk is parsed as a TIFF file
+  const webp = readWebpMetadata(bytes);
+  const tags = await readTags(webp.exif ?? bytes);
+  const xmpTags = webp.xmp ? await readXmpTags(webp.xmp) : [];
+
+  const entries: MetadataEntry[] = [
+    ...tags,
+    ...xmpTags,
+    ...readTrailerTags(bytes),
+  ].map((tag) => ({
+    source: tag.group,
+    name: tag.key,
+    value: tag.value,
+  }));
+  // A packet that could not be parsed may still hold anything
+  if (webp.xmp && xmpTags.length === 0) {
+    entries.push({
+      source: "xmp",
+      name: "XMP",
+      value: `${webp.xmp.length} bytes`,
+    });
+  }
+
+  const parsedXmp = tags.some(({ group }) => group === "xmp");
+  for (const { keyword, text } of await readEmbeddedText(bytes)) {
+    // exifr already reported the tags inside a PNG XMP packet
+    if (keyword === PNG_XMP_KEYWORD && parsedXmp) continue;
+    entries.push({ source: "text", name: keyword, value: text });
+  }
+
+  const profile = await describeColorProfile(bytes, tiffPage);
+  if (profile) {
+    entries.push({
+      source: "icc",
+      name: profile.description ?? profile.colorSpace,
+      value: `${profile.size} bytes`,
+    });
+  }
+  return entries;
+}
+
+function isSensitive(
+  { source, name }: MetadataEntry,
+  { keptFields, rightsStamped = false }: VerifyOptions,
+): boolean {
+  if (source === "icc") return false;
+  if (source === "text") return true;
+  const tag = { group: source, key: name };
+  return !isTagKept(tag, keptFields) && !(rightsStamped && isRightsTag(tag));
+}
+
+/**
+ * Re-parses a cleaned file with every metadata reader the app has. Anything
+ * the removal profile did not keep or the rights stamp did not write on
+ * purpose counts as sensitive, apart from the colour profile, which is not
+ * personal data.
+ */
+export async function verifyCleanedBytes(
+  bytes: Uint8Array,
+  options: VerifyOptions,
+): Promise<VerificationReport> {
+  const residuals = (await readMetadataEntries(bytes)).map((entry) => ({
+    ...entry,
+    sensitive: isSensitive(entry, options),
+  }));
+  return {
+    passed: residuals.every(({ sensitive }) => !sensitive),
+    residuals,
+  };
+}
+
+/**
+ * Verifies a cleaned image blob. See verifyCleanedBytes.
+ */
+export async function verifyCleanedImage(
+  blob: Blob,
+  options: VerifyOptions,
+): Promise<VerificationReport> {
+  return verifyCleanedBytes(new Uint8Array(await blob.arrayBuffer()), options);
+}
@@ -0,0 +1,78 @@
+// Entry point of the image worker started by cleaners/worker.ts. It is bundled
+// on its own and runs the same code the main thread falls back to: exifr and
+// the metadata readers, the byte-level cleaners, the TIFF decoder and the
+// canvas redraws, which use OffscreenCanvas here.
+
+import type { WorkerRequest, WorkerResponse, WorkerResults } from "./cleaners";
+import { cleanImageLocally, renderTiffPageLocally } from "./cleaners";
+import { readMetadataLocally } from "./metadata";
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerResponse, transfer?: Transferable[]): void;
+  FileReaderSync: new () => { readAsDataURL(blob: Blob): string };
+};
+
+// A task's result, with the buffers in it to transfer rather than copy
+type Reply = [WorkerResults[keyof WorkerResults], Transferable[]];
+
+async function run(request: WorkerRequest): Promise<Reply> {
+  switch (request.type) {
+    case "draw": {
+      const canvas = new OffscreenCanvas(request.width, request.height);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error("Failed to get canvas context");
+      ctx.setTransform(...request.transform);
+      ctx.drawImage(request.bitmap, 0, 0);
+      request.bitmap.close();
+
+      const blob = await canvas.convertToBlob({
+        type: request.mimeType,
+        quality: request.quality,
+      });
+      const buffer = await blob.arrayBuffer();
+      return [{ buffer, mimeType: blob.type }, [buffer]];
+    }
+    case "dataUrl": {
+      const blob = new Blob([request.buffer], { type: request.mimeType });
+      return [{ dataUrl: new scope.FileReaderSync().readAsDataURL(blob) }, []];
+    }
+    case "readMetadata": {
+      const file = new File([request.buffer], request.name, {
+        type: request.mimeType,
+        lastModified: request.lastModified,
+      });
+      return [{ metadata: await readMetadataLocally(file) }, []];
+    }
+    case "clean": {
+      const { blob, ...result } = await cleanImageLocally(
+        new Blob([request.buffer], { type: request.mimeType }),
+        {
+          ...request.options,
+          onProgress: (stage) => scope.postMessage({ id: request.id, stage }),
+        },
+      );
+      const buffer = await blob.arrayBuffer();
+      return [{ buffer, result }, [buffer]];
+    }
+    case "renderTiffPage": {
+      const blob = await renderTiffPageLocally(
+        new Blob([request.buffer]),
+        request.page,
+      );
+      const buffer = await blob.arrayBuffer();
+      return [{ buffer, mimeType: blob.type }, [buffer]];
+    }
+    default:
+      throw new Error("Unknown image worker task");
+  }
+}
+
+scope.onmessage = async ({ data }) => {
+  try {
+    const [result, transfer] = await run(data);
+    scope.postMessage({ id: data.id, result }, transfer);
+  } catch (error) {
+    scope.postMessage({ id: data.id, error: String(error) });
+  }
+};
@@ -73,9 +73,19 @@ export function buildConfig({
     },
     module: {
       rules: [
+        {
+          // Workers are bundled into a string, as apps ship as a single file
+          resourceQuery: /worker/,
+          loader: path.join(
+            process.cwd(),
+            "scripts",
+            "inline_worker_loader.ts",
+          ),
+        },
         {
           test: /\.tsx?$/,
           exclude: /node_modules/,
+          resourceQuery: { not: [/worker/] },
           use: [
             {
               loader: "ts-loader",